@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { MAX_BATTLE_WORK, requestWork, runBattleRequest, validateBattleRequest } from "@/lib/battle/battle-request"
+import { describeValidationError } from "@/lib/battle/validation"
+
+// The engine is plain TypeScript, but a long battle is CPU-bound work better kept off the edge
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+// Run one battle headlessly: POST a roster, rules and seed, get the placements and a replay back
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body is not valid JSON" }, { status: 400 })
+  }
+
+  const parsed = validateBattleRequest(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: `Invalid battle request: ${describeValidationError(parsed.error)}` },
+      { status: 400 },
+    )
+  }
+
+  // The simulation runs on the request thread, so oversized battles are turned away up front
+  if (requestWork(parsed.data) > MAX_BATTLE_WORK) {
+    return NextResponse.json(
+      { error: `Battle too large: roster size * maxTicks must be at most ${MAX_BATTLE_WORK}, lower maxTicks` },
+      { status: 422 },
+    )
+  }
+
+  return NextResponse.json(runBattleRequest(parsed.data))
+}
@@ -2,41 +2,160 @@
 
 import type React from "react"
 
-import { useState, useRef, useEffect, useCallback } from "react"
+import { useState, useRef, useEffect, useCallback, useMemo } from "react"
+import { flushSync } from "react-dom"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
-import { Play, Pause, Square, Upload, Trash2, Settings, Zap, Heart, Shield, Trophy, Target } from "lucide-react"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Play,
+  Pause,
+  Square,
+  Upload,
+  Trash2,
+  Zap,
+  Heart,
+  Shield,
+  Trophy,
+  Target,
+  Download,
+  Film,
+  X,
+  Users,
+  SlidersHorizontal,
+  Clapperboard,
+} from "lucide-react"
+import { AbilitiesPanel } from "@/components/arena/abilities-panel"
+import { AbilityIcons } from "@/components/arena/ability-icons"
+import { BattleReport } from "@/components/arena/battle-report"
+import { BehaviourEditor } from "@/components/arena/behaviour-editor"
+import { BenchmarkPanel } from "@/components/arena/benchmark-panel"
+import { CameraControls } from "@/components/arena/camera-controls"
+import { EffectsPanel } from "@/components/arena/effects-panel"
+import { EntityInspector } from "@/components/arena/entity-inspector"
+import { InterventionLayer } from "@/components/arena/intervention-layer"
+import { InterventionToolbar } from "@/components/arena/intervention-toolbar"
+import { KillFeed } from "@/components/arena/kill-feed"
+import { LeaderboardPanel } from "@/components/arena/leaderboard-panel"
+import { MapPanel } from "@/components/arena/map-panel"
+import { Minimap } from "@/components/arena/minimap"
+import { PickupsPanel } from "@/components/arena/pickups-panel"
+import { PredictionPanel, type PredictionStage } from "@/components/arena/prediction-panel"
+import { RangedPanel } from "@/components/arena/ranged-panel"
+import { ReplayControls } from "@/components/arena/replay-controls"
+import { RoomPanel } from "@/components/arena/room-panel"
+import { RulesPanel } from "@/components/arena/rules-panel"
+import { StatProfileEditor } from "@/components/arena/stat-profile-editor"
+import { TournamentPanel } from "@/components/arena/tournament-panel"
+import { VideoExportPanel } from "@/components/arena/video-export-panel"
+import { calculateArenaSize, calculateEntitySize } from "@/lib/battle/arena"
+import type { RecordedSteering } from "@/lib/battle/behaviours"
+import { TICK_MS } from "@/lib/battle/engine"
+import type { Intervention, InterventionTool } from "@/lib/battle/interventions"
+import { DEFAULT_MAP, resolveMap, type ArenaMap } from "@/lib/battle/maps"
+import { PICKUP_KINDS } from "@/lib/battle/pickups"
+import { PREDICTION_SECONDS, createPredictionMarket, type PredictionMarket } from "@/lib/battle/predictions"
+import {
+  createReplay,
+  createReplayPlayer,
+  parseReplay,
+  serializeReplay,
+  type BattleReplay,
+  type ReplayPlayer,
+} from "@/lib/battle/replay"
+import { withinBudget } from "@/lib/battle/profiles"
+import { randomSeed } from "@/lib/battle/rng"
+import { createStrategySandbox } from "@/lib/battle/sandbox"
+import {
+  createTournament,
+  matchConfig,
+  nextMatch,
+  recordMatchResult,
+  type Tournament,
+  type TournamentOptions,
+} from "@/lib/battle/tournament"
+import { unpackFrame } from "@/lib/battle/snapshot"
+import type { BattleTimeline } from "@/lib/battle/timeline"
+import { TEAMS, autoSplitTeams, findTeam, sideOf } from "@/lib/battle/teams"
+import type { BattleConfig, BattleState, Entity, EntitySpec, KillEvent } from "@/lib/battle/types"
+import { downloadFile } from "@/lib/download"
+import { loadImageMap } from "@/lib/images"
+import type { ArenaOverlay } from "@/lib/render/arena-renderer"
+import { createEffectsRig } from "@/lib/render/effects"
+import { createArenaRenderer, type ArenaRenderer, type RendererBackend } from "@/lib/render/renderer"
+import type { RoomFighter, RoomPhase } from "@/lib/rooms/protocol"
+import { hashImage, type RosterImage } from "@/lib/storage/roster"
+import type { FighterIdentity } from "@/lib/storage/fighter-records"
+import { useArenaCamera } from "@/hooks/use-arena-camera"
+import { useBattleRoom } from "@/hooks/use-battle-room"
+import { useBattleWorker } from "@/hooks/use-battle-worker"
+import { useEffectsSettings } from "@/hooks/use-effects-settings"
+import { useFighterRecords } from "@/hooks/use-fighter-records"
+import { usePickupSettings } from "@/hooks/use-pickup-settings"
+import { useAbilitySettings } from "@/hooks/use-ability-settings"
+import { useRangedSettings } from "@/hooks/use-ranged-settings"
+import { useRendererPreference } from "@/hooks/use-renderer-preference"
+import { usePredictions } from "@/hooks/use-predictions"
+import { useRosterStorage } from "@/hooks/use-roster-storage"
+import { useRuleSet } from "@/hooks/use-rule-set"
 
 // Game state types
-type GameState = "PRE_BATTLE" | "COUNTDOWN" | "BATTLE" | "PAUSED" | "ENDED"
-
-interface Entity {
-  id: string
-  x: number
-  y: number
-  vx: number
-  vy: number
-  radius: number
-  health: number
-  maxHealth: number
-  image: HTMLImageElement
-  hasBarrier: boolean
-  barrierUsed: boolean
-  lastDamageTime: number
-  comboCount: number
-  totalDamage: number
-  isDestroyed: boolean
-  neonColor: string
+type GameState = "PRE_BATTLE" | "PREDICTING" | "COUNTDOWN" | "BATTLE" | "PAUSED" | "ENDED" | "REPLAY"
+
+// Sidebars re-render at most this often while the battle runs
+const UI_REFRESH_MS = 100
+
+function arenaOverlay(gameState: GameState, countdown: number): ArenaOverlay {
+  return {
+    aura: gameState === "BATTLE" || gameState === "REPLAY",
+    countdown: gameState === "COUNTDOWN" ? countdown : null,
+    paused: gameState === "PAUSED",
+  }
+}
+
+// What spectators see of the host's game - its replays stay private
+function roomPhase(gameState: GameState, countdown: number, market: PredictionMarket | null): RoomPhase {
+  return {
+    status: gameState === "REPLAY" ? "PRE_BATTLE" : gameState,
+    countdown,
+    ...(gameState === "PREDICTING" && { market }),
+  }
 }
 
-interface UploadedImage {
-  id: string
-  file: File
+// Which part of the prediction round to show - only the host sets it up, viewers without a ticket skip the battle
+function predictionStageOf(
+  gameState: GameState,
+  spectating: boolean,
+  hasTicket: boolean,
+  hasResult: boolean,
+): PredictionStage | null {
+  switch (gameState) {
+    case "PRE_BATTLE":
+      return spectating ? null : "setup"
+    case "PREDICTING":
+      return "open"
+    case "ENDED":
+      return hasResult ? "results" : null
+    case "REPLAY":
+      return null
+    default:
+      return hasTicket ? "live" : null
+  }
+}
+
+interface UploadedImage extends RosterImage {
   url: string
   processed: boolean
-  thumbnail: string
+}
+
+// The entity spec fields for an image's steering behaviour
+function behaviourSpec({ behaviour, strategy }: RosterImage): Pick<EntitySpec, "behaviour" | "strategy"> {
+  if (!behaviour) return {}
+  if (behaviour !== "custom") return { behaviour }
+  return strategy ? { behaviour, strategy } : {}
 }
 
 export default function CombatArena() {
@@ -44,15 +163,83 @@ export default function CombatArena() {
   const [gameState, setGameState] = useState<GameState>("PRE_BATTLE")
   const [countdown, setCountdown] = useState(3)
   const [entities, setEntities] = useState<Entity[]>([])
+  const [killFeed, setKillFeed] = useState<KillEvent[]>([])
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([])
   const [uploadProgress, setUploadProgress] = useState(0)
   const [isUploading, setIsUploading] = useState(false)
 
   // Canvas refs
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const animationRef = useRef<number>()
+  const animationRef = useRef<number>(undefined)
+
+  // Simulation - the engine runs in a worker, these hold what the page needs from it
+  const imagesRef = useRef(new Map<string, HTMLImageElement>())
+  const battleConfigRef = useRef<BattleConfig | null>(null)
+  const lastStateRef = useRef<BattleState | null>(null)
+  const frameRef = useRef<Entity[]>([])
+  // Hit effects for the page renderer, the worker runs its own when it draws
+  const effectsRigRef = useRef(createEffectsRig())
+  const lastPublishRef = useRef(0)
+  const renderInWorkerRef = useRef(false)
+  // Draws the arena when the worker doesn't, tied to one canvas element
+  const rendererRef = useRef<ArenaRenderer | null>(null)
+  // Whichever backend is drawing right now, on the page or in the worker
+  const [rendererBackend, setRendererBackend] = useState<RendererBackend | null>(null)
+  // Each live battle counts once towards the fighters' records
+  const resultPendingRef = useRef(false)
+  // Bumped by every launch and stop, so a stopped launch doesn't carry on into its countdown
+  const launchRef = useRef(0)
+  // History of the last live battle, for the post-battle report
+  const [timeline, setTimeline] = useState<BattleTimeline | null>(null)
+  // Names and thumbnails of the host's fighters while spectating a room
+  const [roomFighters, setRoomFighters] = useState<RoomFighter[]>([])
+  // What the custom strategies answered in the last live battle, replays play it back
+  const steeringRef = useRef<RecordedSteering>({})
+  // Bumped to remount the canvas after the worker took control of it
+  const [canvasKey, setCanvasKey] = useState(0)
+  // Why the last battle was cut short, when the worker failed
+  const [battleError, setBattleError] = useState<string | null>(null)
+
+  // Replay playback
+  const [replay, setReplay] = useState<BattleReplay | null>(null)
+  const [replayTick, setReplayTick] = useState(0)
+  const [replayPlaying, setReplayPlaying] = useState(false)
+  const [replaySpeed, setReplaySpeed] = useState(1)
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null)
+  const replayProgressRef = useRef(0)
+  const [showVideoExport, setShowVideoExport] = useState(false)
+
+  // God-mode tools on the canvas during a live battle
+  const [interventionTool, setInterventionTool] = useState<InterventionTool>("inspect")
+  const [inspectedId, setInspectedId] = useState<string | null>(null)
+
+  // Prediction round before the countdown
+  const [predictionsEnabled, setPredictionsEnabled] = useState(false)
+  const [market, setMarket] = useState<PredictionMarket | null>(null)
+  const closePredictionsRef = useRef<(() => void) | null>(null)
+  const predictions = usePredictions()
+
+  // Tournament mode - null for a single free-for-all
+  const [tournament, setTournament] = useState<Tournament | null>(null)
+  const [tournamentError, setTournamentError] = useState<string | null>(null)
+  const [isSimulating, setIsSimulating] = useState(false)
+  const [activeMatchId, setActiveMatchId] = useState<string | null>(null)
+  const activeMatchRef = useRef<string | null>(null)
 
   // Game settings
+  const { rules, updateRules, applyPreset } = useRuleSet()
+  const { pickups, updatePickups } = usePickupSettings()
+  const { abilities, updateAbilities } = useAbilitySettings()
+  const { ranged, updateRanged } = useRangedSettings()
+  const { effects, updateEffects } = useEffectsSettings()
+  const { renderer, updateRenderer } = useRendererPreference()
+  const [arenaMap, setArenaMap] = useState<ArenaMap>(DEFAULT_MAP)
+  // Maps imported from JSON this session
+  const [customMaps, setCustomMaps] = useState<ArenaMap[]>([])
+  const [friendlyFire, setFriendlyFire] = useState(false)
+  // Cap custom builds at STAT_POINT_BUDGET points above the base profile
+  const [pointBudget, setPointBudget] = useState(false)
+  const [editingImageId, setEditingImageId] = useState<string | null>(null)
   const [arenaSize, setArenaSize] = useState({ width: 1200, height: 800 })
   const [entitySize, setEntitySize] = useState(60)
 
@@ -63,22 +250,6 @@ export default function CombatArena() {
     battleTime: 0,
   })
 
-  // Calculate optimal arena size based on entity count
-  const calculateArenaSize = useCallback((entityCount: number) => {
-    if (entityCount <= 50) return { width: 1200, height: 800 }
-    if (entityCount <= 150) return { width: 1600, height: 1000 }
-    if (entityCount <= 300) return { width: 1920, height: 1200 }
-    return { width: 2560, height: 1440 }
-  }, [])
-
-  // Calculate entity size based on count
-  const calculateEntitySize = useCallback((entityCount: number) => {
-    if (entityCount <= 100) return 60 + Math.random() * 20
-    if (entityCount <= 250) return 50 + Math.random() * 20
-    if (entityCount <= 400) return 40 + Math.random() * 20
-    return 35 + Math.random() * 20
-  }, [])
-
   // Handle file upload
   const handleFileUpload = useCallback(
     async (files: FileList) => {
@@ -88,6 +259,8 @@ export default function CombatArena() {
       setUploadProgress(0)
 
       const newImages: UploadedImage[] = []
+      // Keeps upload order when the roster is restored
+      const batchOrder = Date.now() * 1000
 
       for (let i = 0; i < Math.min(files.length, 500); i++) {
         const file = files[i]
@@ -95,6 +268,7 @@ export default function CombatArena() {
 
         const id = `img-${Date.now()}-${i}`
         const url = URL.createObjectURL(file)
+        const fighterId = await hashImage(file)
 
         // Create thumbnail
         const canvas = document.createElement("canvas")
@@ -115,10 +289,17 @@ export default function CombatArena() {
             const thumbnail = canvas.toDataURL()
             newImages.push({
               id,
+              fighterId,
+              order: batchOrder + i,
               file,
               url,
               processed: true,
               thumbnail,
+              name: file.name.replace(/\.[^.]+$/, ""),
+              teamId: null,
+              stats: null,
+              behaviour: null,
+              strategy: null,
             })
 
             setUploadProgress(((i + 1) / files.length) * 100)
@@ -136,7 +317,7 @@ export default function CombatArena() {
       setArenaSize(calculateArenaSize(totalCount))
       setEntitySize(calculateEntitySize(totalCount))
     },
-    [uploadedImages.length, calculateArenaSize, calculateEntitySize],
+    [uploadedImages.length],
   )
 
   // Remove uploaded image
@@ -149,406 +330,623 @@ export default function CombatArena() {
         return filtered
       })
     },
-    [calculateArenaSize, calculateEntitySize],
+    [],
   )
 
-  // Initialize entities from uploaded images
-  const initializeEntities = useCallback(async () => {
-    const newEntities: Entity[] = []
+  // Cycle an image through no team and each team in turn
+  const cycleTeam = useCallback((id: string) => {
+    setUploadedImages((prev) =>
+      prev.map((img) => {
+        if (img.id !== id) return img
+        const index = TEAMS.findIndex((team) => team.id === img.teamId)
+        return { ...img, teamId: index + 1 < TEAMS.length ? TEAMS[index + 1].id : null }
+      }),
+    )
+  }, [])
 
-    for (const uploadedImg of uploadedImages) {
-      const img = new Image()
-      await new Promise((resolve) => {
-        img.onload = resolve
-        img.src = uploadedImg.url
-      })
+  const splitIntoTeams = useCallback((teamCount: number) => {
+    setUploadedImages((prev) => {
+      const assignments = autoSplitTeams(
+        prev.map((img) => img.id),
+        teamCount,
+      )
+      return prev.map((img) => ({ ...img, teamId: assignments.get(img.id) ?? null }))
+    })
+  }, [])
 
-      // Random position within arena bounds
-      const radius = calculateEntitySize(uploadedImages.length)
-      const x = radius + Math.random() * (arenaSize.width - 2 * radius)
-      const y = radius + Math.random() * (arenaSize.height - 2 * radius)
-
-      // Random velocity - INCREASED SPEED
-      const speed = 2.0 + Math.random() * 4.0 // Changed from 0.5 + Math.random() * 1.5
-      const angle = Math.random() * Math.PI * 2
-
-      // Random neon color
-      const neonColors = ["#00ffff", "#ff00ff", "#ffff00", "#ff0080", "#80ff00", "#0080ff"]
-      const neonColor = neonColors[Math.floor(Math.random() * neonColors.length)]
-
-      newEntities.push({
-        id: uploadedImg.id,
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed,
-        radius,
-        health: 100,
-        maxHealth: 100,
-        image: img,
-        hasBarrier: false,
-        barrierUsed: false,
-        lastDamageTime: 0,
-        comboCount: 0,
-        totalDamage: 0,
-        isDestroyed: false,
-        neonColor,
-      })
-    }
+  const updateImage = useCallback(
+    (id: string, changes: Partial<Pick<UploadedImage, "name" | "stats" | "behaviour" | "strategy">>) => {
+      setUploadedImages((prev) => prev.map((img) => (img.id === id ? { ...img, ...changes } : img)))
+    },
+    [],
+  )
 
-    setEntities(newEntities)
-  }, [uploadedImages, arenaSize, calculateEntitySize])
+  const overBudget = pointBudget && uploadedImages.some((img) => img.stats && !withinBudget(img.stats))
 
-  // Start battle sequence
-  const startBattle = useCallback(async () => {
-    if (uploadedImages.length === 0) return
+  const clearTeams = useCallback(() => {
+    setUploadedImages((prev) => prev.map((img) => ({ ...img, teamId: null })))
+  }, [])
 
-    await initializeEntities()
-    setGameState("COUNTDOWN")
+  // Bring back the roster from the last visit, ahead of anything uploaded while it loaded
+  const restoreRoster = useCallback((stored: RosterImage[]) => {
+    setUploadedImages((prev) => {
+      // Rosters saved before behaviours existed lack them
+      const restored = stored.map((image) => ({
+        ...image,
+        behaviour: image.behaviour ?? null,
+        strategy: image.strategy ?? null,
+        url: URL.createObjectURL(image.file),
+        processed: true,
+      }))
+      const merged = [...restored, ...prev.filter((img) => !stored.some((image) => image.id === img.id))]
+      setArenaSize(calculateArenaSize(merged.length))
+      setEntitySize(calculateEntitySize(merged.length))
+      return merged
+    })
+  }, [])
 
-    // Countdown sequence
-    for (let i = 3; i > 0; i--) {
-      setCountdown(i)
-      await new Promise((resolve) => setTimeout(resolve, 1000))
-    }
+  useRosterStorage(uploadedImages, restoreRoster)
+  const { records, recordBattle, resetRecords } = useFighterRecords()
 
-    setGameState("BATTLE")
-    setBattleStats({ totalCollisions: 0, entitiesDestroyed: 0, battleTime: 0 })
-  }, [uploadedImages, initializeEntities])
+  // Which image each entity is, for career records
+  const fighterIdentities = useMemo(
+    () =>
+      new Map<string, FighterIdentity>(
+        uploadedImages.map((img) => [img.id, { fighterId: img.fighterId, name: img.name, thumbnail: img.thumbnail }]),
+      ),
+    [uploadedImages],
+  )
 
-  // Pause/Resume battle
-  const togglePause = useCallback(() => {
-    setGameState((prev) => (prev === "BATTLE" ? "PAUSED" : "BATTLE"))
+  // Keep the sidebars in sync at a throttled rate; the canvas draws from frameRef every frame
+  const shouldPublish = useCallback((force = false) => {
+    const now = performance.now()
+    if (!force && now - lastPublishRef.current < UI_REFRESH_MS) return false
+    lastPublishRef.current = now
+    return true
   }, [])
 
-  // Stop battle
-  const stopBattle = useCallback(() => {
+  // Spectators get the host's battle from the room instead of a worker of their own
+  const followRoomState = useCallback(
+    (state: BattleState | null, force = false) => {
+      lastStateRef.current = state
+      if (!shouldPublish(force || !state || state.ended)) return
+      setEntities(state ? [...state.entities] : [])
+      setKillFeed(state?.killFeed ?? [])
+      setBattleStats(state ? { ...state.stats } : { totalCollisions: 0, entitiesDestroyed: 0, battleTime: 0 })
+    },
+    [shouldPublish],
+  )
+
+  const followRoomPhase = useCallback(
+    (phase: RoomPhase) => {
+      setGameState(phase.status)
+      setCountdown(phase.countdown)
+      if (phase.market) setMarket(phase.market)
+      // The host stopped its battle or went to watch a replay
+      if (phase.status === "PRE_BATTLE") {
+        setMarket(null)
+        battleConfigRef.current = null
+        frameRef.current = []
+        followRoomState(null)
+      }
+    },
+    [followRoomState],
+  )
+
+  const resetFromRoom = useCallback(() => {
+    battleConfigRef.current = null
+    frameRef.current = []
+    followRoomState(null)
+    setRoomFighters([])
+    setArenaSize(calculateArenaSize(uploadedImages.length))
     setGameState("PRE_BATTLE")
-    setEntities([])
-    setBattleStats({ totalCollisions: 0, entitiesDestroyed: 0, battleTime: 0 })
-  }, [])
+    // Stay out of the room on refresh
+    window.history.replaceState(null, "", window.location.pathname)
+  }, [followRoomState, uploadedImages.length])
+
+  const battleRoom = useBattleRoom({
+    getSnapshot: () => {
+      const config = battleConfigRef.current
+      // A battle's first snapshot arrives before its countdown, so go by the state rather than the game state
+      const live = config !== null && lastStateRef.current !== null && gameState !== "REPLAY"
+      const ids = new Set(config?.entities.map((entity) => entity.id))
+      return {
+        config: live ? config : null,
+        fighters: live
+          ? uploadedImages
+              .filter((img) => ids.has(img.id))
+              .map((img) => ({ id: img.id, name: img.name, src: img.thumbnail }))
+          : [],
+        phase: roomPhase(gameState, countdown, market),
+        state: live ? lastStateRef.current : null,
+      }
+    },
+    onSnapshot: async ({ config, fighters, phase, state }) => {
+      battleConfigRef.current = config
+      frameRef.current = state?.entities ?? []
+      followRoomState(state, true)
+      setGameState(phase.status)
+      setCountdown(phase.countdown)
+      if (phase.market) setMarket(phase.market)
+      setRoomFighters(fighters)
+      if (config) setArenaSize(config.arena)
+      imagesRef.current = await loadImageMap(fighters)
+    },
+    onState: (state) => followRoomState(state),
+    onPhase: followRoomPhase,
+    onClosed: () => {
+      battleRoom.leaveRoom()
+      resetFromRoom()
+    },
+  })
+  const spectating = battleRoom.room?.role === "spectator"
 
-  // Collision detection
-  const checkCollisions = useCallback((entities: Entity[]) => {
-    const activeEntities = entities.filter((e) => !e.isDestroyed)
-    let collisionCount = 0
-
-    for (let i = 0; i < activeEntities.length; i++) {
-      for (let j = i + 1; j < activeEntities.length; j++) {
-        const e1 = activeEntities[i]
-        const e2 = activeEntities[j]
-
-        const dx = e2.x - e1.x
-        const dy = e2.y - e1.y
-        const distance = Math.sqrt(dx * dx + dy * dy)
-
-        if (distance < e1.radius + e2.radius) {
-          collisionCount++
-
-          // Calculate collision velocity for damage
-          const relativeVx = e2.vx - e1.vx
-          const relativeVy = e2.vy - e1.vy
-          const collisionSpeed = Math.sqrt(relativeVx * relativeVx + relativeVy * relativeVy)
-
-          // Calculate damage based on collision speed
-          const baseDamage = Math.floor(5 + collisionSpeed * 10)
-          const damage1 = Math.min(baseDamage + Math.random() * 10, 35)
-          const damage2 = Math.min(baseDamage + Math.random() * 10, 35)
-
-          // Apply damage with barrier check
-          const now = Date.now()
-
-          // Entity 1 damage
-          if (e1.hasBarrier) {
-            e1.hasBarrier = false
-            // Barrier absorbs damage
-          } else {
-            e1.health = Math.max(0, e1.health - damage2)
-            e1.lastDamageTime = now
-
-            // Combo system
-            if (now - e1.lastDamageTime < 2000) {
-              e1.comboCount++
-            } else {
-              e1.comboCount = 1
-            }
-
-            e2.totalDamage += damage2 * Math.min(1.5, 1 + (e1.comboCount - 1) * 0.25)
-          }
+  const leaveRoom = useCallback(() => {
+    battleRoom.leaveRoom()
+    if (spectating) resetFromRoom()
+  }, [battleRoom, spectating, resetFromRoom])
 
-          // Entity 2 damage
-          if (e2.hasBarrier) {
-            e2.hasBarrier = false
-            // Barrier absorbs damage
-          } else {
-            e2.health = Math.max(0, e2.health - damage1)
-            e2.lastDamageTime = now
-
-            // Combo system
-            if (now - e2.lastDamageTime < 2000) {
-              e2.comboCount++
-            } else {
-              e2.comboCount = 1
-            }
-
-            e1.totalDamage += damage1 * Math.min(1.5, 1 + (e2.comboCount - 1) * 0.25)
-          }
+  // Follow a shared room link
+  const { joinRoom } = battleRoom
+  useEffect(() => {
+    const roomId = new URLSearchParams(window.location.search).get("room")
+    if (roomId) joinRoom(roomId)
+  }, [joinRoom])
+
+  const battleWorker = useBattleWorker({
+    onSnapshot: (state) => {
+      lastStateRef.current = state
+      battleRoom.publishState(battleConfigRef.current, state)
+      frameRef.current = state.entities
+      setEntities([...state.entities])
+      setKillFeed(state.killFeed)
+      setBattleStats({ ...state.stats })
 
-          // Activate barrier at 1 HP
-          if (e1.health === 1 && !e1.barrierUsed) {
-            e1.hasBarrier = true
-            e1.barrierUsed = true
-          }
-          if (e2.health === 1 && !e2.barrierUsed) {
-            e2.hasBarrier = true
-            e2.barrierUsed = true
-          }
+      // Check victory condition
+      if (state.ended) {
+        setGameState("ENDED")
 
-          // Mark as destroyed if health reaches 0
-          if (e1.health <= 0) e1.isDestroyed = true
-          if (e2.health <= 0) e2.isDestroyed = true
-
-          // Collision response - MAINTAIN MORE ENERGY
-          const overlap = e1.radius + e2.radius - distance
-          const separationX = (dx / distance) * overlap * 0.5
-          const separationY = (dy / distance) * overlap * 0.5
-
-          e1.x -= separationX
-          e1.y -= separationY
-          e2.x += separationX
-          e2.y += separationY
-
-          // Velocity exchange
-          const tempVx = e1.vx
-          const tempVy = e1.vy
-          e1.vx = e2.vx * 1.2 // Changed from 0.8 to 1.2 for faster bounces
-          e1.vy = e2.vy * 1.2 // Changed from 0.8 to 1.2 for faster bounces
-          e2.vx = tempVx * 1.2 // Changed from 0.8 to 1.2 for faster bounces
-          e2.vy = tempVy * 1.2 // Changed from 0.8 to 1.2 for faster bounces
+        if (resultPendingRef.current) {
+          resultPendingRef.current = false
+          recordBattle(state, fighterIdentities)
+        }
+
+        const matchId = activeMatchRef.current
+        if (matchId) {
+          activeMatchRef.current = null
+          setTournament((prev) => prev && recordMatchResult(prev, matchId, state))
         }
       }
-    }
+    },
+    onFrame: (buffer) => unpackFrame(buffer, frameRef.current),
+    onTimeline: setTimeline,
+    onSteering: (steering) => (steeringRef.current = steering),
+    onCamera: (view) => camera.receive(view),
+    onRenderer: setRendererBackend,
+    onError: (message) => {
+      stopBattle()
+      setBattleError(message)
+    },
+  })
 
-    return collisionCount
-  }, [])
+  // Each viewer steers their own camera; when the worker draws, it runs the camera too
+  const camera = useArenaCamera(arenaSize, (view, focus) => {
+    if (renderInWorkerRef.current) battleWorker.post({ type: "camera", view, focus })
+  })
+  const { sync: syncCamera, update: updateCamera, getView: getCameraView } = camera
+
+  // Hand the current canvas back to the page: stop the worker and remount a fresh canvas. A canvas the page has
+  // drawn on is replaced too, since one with a context can't be transferred to the worker.
+  const releaseCanvas = useCallback(() => {
+    battleWorker.stop()
+    if (renderInWorkerRef.current || rendererRef.current) {
+      renderInWorkerRef.current = false
+      rendererRef.current?.dispose()
+      rendererRef.current = null
+      setCanvasKey((key) => key + 1)
+    }
+  }, [battleWorker])
+
+  // Run a battle in the arena: countdown, then hand over to the worker
+  const launchBattle = useCallback(
+    async (config: BattleConfig) => {
+      const launch = ++launchRef.current
+      const ids = new Set(config.entities.map((entity) => entity.id))
+      const images = await loadImageMap(
+        uploadedImages.filter((img) => ids.has(img.id)).map((img) => ({ id: img.id, src: img.url })),
+      )
+
+      // The canvas must be fresh and sized for this battle before the worker takes it over
+      flushSync(() => {
+        releaseCanvas()
+        setArenaSize(config.arena)
+        setBattleError(null)
+        setTimeline(null)
+        setInspectedId(null)
+      })
 
-  // Health regeneration
-  const applyHealthRegeneration = useCallback((entities: Entity[]) => {
-    const now = Date.now()
-    return entities.map((entity) => {
-      if (
-        !entity.isDestroyed &&
-        entity.health < entity.maxHealth &&
-        entity.health > 0 &&
-        now - entity.lastDamageTime > 3000
-      ) {
-        // Regenerate 1 HP every 5 seconds
-        if (now % 5000 < 16) {
-          // Approximate frame timing
-          entity.health = Math.min(entity.maxHealth, entity.health + 1)
+      imagesRef.current = images
+      battleConfigRef.current = config
+      steeringRef.current = {}
+      resultPendingRef.current = true
+      effectsRigRef.current.reset(config.seed)
+      renderInWorkerRef.current = await battleWorker.start(config, canvasRef.current, images, effects, renderer)
+      syncCamera()
+      if (launch !== launchRef.current) return
+
+      if (predictionsEnabled) {
+        const ratingOf = (id: string) => records.get(fighterIdentities.get(id)?.fighterId ?? "")?.rating
+        setMarket(
+          createPredictionMarket(
+            config.entities.map((entity) => ({ ...entity, rating: ratingOf(entity.id) })),
+            config.seed,
+          ),
+        )
+        setGameState("PREDICTING")
+
+        // Open until the timer runs out or the host closes it early
+        const closed = new Promise<boolean>((resolve) => (closePredictionsRef.current = () => resolve(true)))
+        for (let i = PREDICTION_SECONDS; i > 0; i--) {
+          setCountdown(i)
+          const tick = new Promise<boolean>((resolve) => setTimeout(() => resolve(false), 1000))
+          if (await Promise.race([closed, tick])) break
         }
+        closePredictionsRef.current = null
+        if (launch !== launchRef.current) return
       }
-      return entity
-    })
-  }, [])
 
-  // Game loop
-  const gameLoop = useCallback(() => {
-    if (gameState !== "BATTLE") return
+      setGameState("COUNTDOWN")
 
-    setEntities((prevEntities) => {
-      let updatedEntities = [...prevEntities]
+      // Countdown sequence
+      for (let i = 3; i > 0; i--) {
+        setCountdown(i)
+        await new Promise((resolve) => setTimeout(resolve, 1000))
+        if (launch !== launchRef.current) return
+      }
 
-      // Update positions
-      updatedEntities = updatedEntities.map((entity) => {
-        if (entity.isDestroyed) return entity
+      setGameState("BATTLE")
+    },
+    [
+      uploadedImages,
+      releaseCanvas,
+      battleWorker,
+      syncCamera,
+      effects,
+      renderer,
+      predictionsEnabled,
+      records,
+      fighterIdentities,
+    ],
+  )
 
-        entity.x += entity.vx
-        entity.y += entity.vy
+  // Start battle sequence
+  const startBattle = useCallback(() => {
+    if (uploadedImages.length === 0) return
 
-        // Boundary collision - FASTER WALL BOUNCES
-        if (entity.x - entity.radius <= 0 || entity.x + entity.radius >= arenaSize.width) {
-          entity.vx *= -0.95 // Changed from -0.9 to -0.95 for less energy loss
-          entity.x = Math.max(entity.radius, Math.min(arenaSize.width - entity.radius, entity.x))
-        }
-        if (entity.y - entity.radius <= 0 || entity.y + entity.radius >= arenaSize.height) {
-          entity.vy *= -0.95 // Changed from -0.9 to -0.95 for less energy loss
-          entity.y = Math.max(entity.radius, Math.min(arenaSize.height - entity.radius, entity.y))
-        }
+    launchBattle({
+      seed: randomSeed(),
+      arena: calculateArenaSize(uploadedImages.length),
+      entities: uploadedImages.map((img) => ({
+        id: img.id,
+        ...(img.teamId && { teamId: img.teamId }),
+        ...(img.stats && { stats: img.stats }),
+        ...behaviourSpec(img),
+      })),
+      rules,
+      friendlyFire,
+      pickups,
+      abilities,
+      ranged,
+      map: arenaMap,
+    })
+  }, [uploadedImages, rules, friendlyFire, pickups, abilities, ranged, arenaMap, launchBattle])
 
-        return entity
-      })
+  // Pause/Resume battle
+  const togglePause = useCallback(() => {
+    setGameState((prev) => (prev === "BATTLE" ? "PAUSED" : "BATTLE"))
+  }, [])
 
-      // Check collisions
-      const collisions = checkCollisions(updatedEntities)
-
-      // Apply health regeneration
-      updatedEntities = applyHealthRegeneration(updatedEntities)
-
-      // Apply velocity boost for more dynamic movement
-      updatedEntities = updatedEntities.map((entity) => {
-        if (!entity.isDestroyed) {
-          // Maintain minimum speed for continuous action
-          const currentSpeed = Math.sqrt(entity.vx * entity.vx + entity.vy * entity.vy)
-          if (currentSpeed < 1.5) {
-            const boostFactor = 1.5 / currentSpeed
-            entity.vx *= boostFactor
-            entity.vy *= boostFactor
-          }
+  // Recorded by the engine with the tick it lands on, so the replay repeats it
+  const intervene = useCallback(
+    (intervention: Intervention) => battleWorker.post({ type: "intervene", intervention }),
+    [battleWorker],
+  )
 
-          // Cap maximum speed to prevent chaos
-          if (currentSpeed > 8.0) {
-            const capFactor = 8.0 / currentSpeed
-            entity.vx *= capFactor
-            entity.vy *= capFactor
-          }
-        }
-        return entity
-      })
+  // Stop battle
+  const stopBattle = useCallback(() => {
+    launchRef.current++
+    closePredictionsRef.current?.()
+    setMarket(null)
+    releaseCanvas()
+    setTimeline(null)
+    setShowVideoExport(false)
+    lastStateRef.current = null
+    frameRef.current = []
+    // An unfinished tournament match stays ready to be played again
+    activeMatchRef.current = null
+    setActiveMatchId(null)
+    setArenaSize(calculateArenaSize(uploadedImages.length))
+    setGameState("PRE_BATTLE")
+    setEntities([])
+    setKillFeed([])
+    setBattleStats({ totalCollisions: 0, entitiesDestroyed: 0, battleTime: 0 })
+  }, [releaseCanvas, uploadedImages.length])
 
-      // Update battle stats
-      setBattleStats((prev) => ({
-        ...prev,
-        totalCollisions: prev.totalCollisions + collisions,
-        entitiesDestroyed: updatedEntities.filter((e) => e.isDestroyed).length,
-        battleTime: prev.battleTime + 1,
-      }))
+  // Stat profiles and behaviours carry into every tournament match
+  const profiles = useMemo(
+    () => new Map(uploadedImages.flatMap((img) => (img.stats ? [[img.id, img.stats] as const] : []))),
+    [uploadedImages],
+  )
+  const behaviours = useMemo(() => new Map(uploadedImages.map((img) => [img.id, behaviourSpec(img)])), [uploadedImages])
 
-      // Check victory condition
-      const aliveEntities = updatedEntities.filter((e) => !e.isDestroyed)
-      if (aliveEntities.length <= 1) {
-        setGameState("ENDED")
+  const startTournament = useCallback(
+    (options: Omit<TournamentOptions, "seed">) => {
+      if (overBudget) {
+        setTournamentError("Some builds are over the point budget")
+        return
+      }
+      try {
+        setTournament(createTournament(uploadedImages.map((img) => img.id), { ...options, seed: randomSeed() }))
+        setTournamentError(null)
+      } catch (error) {
+        setTournamentError(error instanceof Error ? error.message : "Could not build the bracket")
+      }
+    },
+    [uploadedImages, overBudget],
+  )
+
+  // Play the next tournament match live in the arena
+  const playNextMatch = useCallback(() => {
+    const match = tournament && nextMatch(tournament)
+    if (!tournament || !match) return
+
+    activeMatchRef.current = match.id
+    setActiveMatchId(match.id)
+    const settings = { rules, profiles, behaviours, pickups, abilities, ranged, map: arenaMap }
+    launchBattle(matchConfig(tournament, match, settings))
+  }, [tournament, rules, profiles, behaviours, pickups, abilities, ranged, arenaMap, launchBattle])
+
+  // Resolve every remaining match headlessly - same seeds, so the same results as watching them. Matches run in the
+  // strategy sandbox, custom strategies never run on the page.
+  const simulateRemainingMatches = useCallback(async () => {
+    if (!tournament) return
+    setIsSimulating(true)
+    setTournamentError(null)
+
+    const sandbox = createStrategySandbox()
+    let current = tournament
+    try {
+      for (let match = nextMatch(current); match; match = nextMatch(current)) {
+        const settings = { rules, profiles, behaviours, pickups, abilities, ranged, map: arenaMap }
+        const result = await sandbox.run(matchConfig(current, match, settings))
+        current = recordMatchResult(current, match.id, result)
+        recordBattle(result, fighterIdentities)
+        setTournament(current)
       }
+    } catch (error) {
+      setTournamentError(error instanceof Error ? error.message : "Could not simulate the remaining matches")
+    } finally {
+      sandbox.dispose()
+      setIsSimulating(false)
+    }
+  }, [
+    tournament,
+    rules,
+    profiles,
+    behaviours,
+    pickups,
+    abilities,
+    ranged,
+    arenaMap,
+    recordBattle,
+    fighterIdentities,
+  ])
+
+  const endTournament = useCallback(() => {
+    setTournament(null)
+    setTournamentError(null)
+  }, [])
 
-      return updatedEntities
-    })
-  }, [gameState, arenaSize, checkCollisions, applyHealthRegeneration])
+  const entityNames = useMemo(() => new Map(uploadedImages.map((img) => [img.id, img.name])), [uploadedImages])
+
+  const fighters = useMemo(
+    () => new Map(uploadedImages.map((img) => [img.id, { name: img.name, thumbnail: img.thumbnail }])),
+    [uploadedImages],
+  )
 
-  // Animation loop
+  // Keep the worker's clock and overlay in step with the game state
   useEffect(() => {
-    const animate = () => {
-      gameLoop()
+    battleWorker.post({ type: "overlay", overlay: arenaOverlay(gameState, countdown) })
+    battleWorker.post({ type: "running", running: gameState === "BATTLE" })
+  }, [gameState, countdown, battleWorker])
 
-      const canvas = canvasRef.current
-      if (!canvas) return
-
-      const ctx = canvas.getContext("2d")!
-      ctx.clearRect(0, 0, canvas.width, canvas.height)
-
-      // Draw arena background
-      ctx.fillStyle = "#0a0a0a"
-      ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-      // Draw grid pattern
-      ctx.strokeStyle = "#1a1a1a"
-      ctx.lineWidth = 1
-      for (let x = 0; x < canvas.width; x += 50) {
-        ctx.beginPath()
-        ctx.moveTo(x, 0)
-        ctx.lineTo(x, canvas.height)
-        ctx.stroke()
-      }
-      for (let y = 0; y < canvas.height; y += 50) {
-        ctx.beginPath()
-        ctx.moveTo(0, y)
-        ctx.lineTo(canvas.width, y)
-        ctx.stroke()
-      }
+  // Effects settings apply mid-battle, wherever the arena is drawn
+  useEffect(() => {
+    effectsRigRef.current.configure(effects)
+    battleWorker.post({ type: "effects", settings: effects })
+  }, [effects, battleWorker])
 
-      // Draw entities
-      entities.forEach((entity) => {
-        if (entity.isDestroyed) return
-
-        ctx.save()
-
-        // Draw neon aura
-        if (gameState === "BATTLE") {
-          const gradient = ctx.createRadialGradient(
-            entity.x,
-            entity.y,
-            entity.radius,
-            entity.x,
-            entity.y,
-            entity.radius + 20,
-          )
-          gradient.addColorStop(0, entity.neonColor + "40")
-          gradient.addColorStop(1, entity.neonColor + "00")
-          ctx.fillStyle = gradient
-          ctx.beginPath()
-          ctx.arc(entity.x, entity.y, entity.radius + 20, 0, Math.PI * 2)
-          ctx.fill()
-        }
+  // A new renderer needs a fresh canvas. The page swaps its own straight away, a worker keeps its backend until
+  // the next battle.
+  useEffect(() => {
+    if (!rendererRef.current || rendererRef.current.canvas !== canvasRef.current) return
+    rendererRef.current.dispose()
+    rendererRef.current = null
+    setCanvasKey((key) => key + 1)
+  }, [renderer])
+
+  // Spectators follow the host's countdown, pauses and results
+  const { publishPhase } = battleRoom
+  useEffect(() => {
+    publishPhase(roomPhase(gameState, countdown, market))
+  }, [gameState, countdown, market, publishPhase])
 
-        // Draw barrier
-        if (entity.hasBarrier) {
-          ctx.strokeStyle = "#00ff00"
-          ctx.lineWidth = 4
-          ctx.setLineDash([5, 5])
-          ctx.beginPath()
-          ctx.arc(entity.x, entity.y, entity.radius + 10, 0, Math.PI * 2)
-          ctx.stroke()
-          ctx.setLineDash([])
-        }
+  // Stakes settle when a battle ends; between battles open stakes come back and old results clear
+  const { settle: settlePrediction, closeRound: closePredictionRound } = predictions
+  useEffect(() => {
+    if (gameState === "ENDED" && lastStateRef.current) settlePrediction(lastStateRef.current)
+    if (gameState === "PRE_BATTLE") closePredictionRound()
+  }, [gameState, settlePrediction, closePredictionRound])
+
+  // Start playing back a recorded battle
+  const startReplay = useCallback(
+    async (replay: BattleReplay) => {
+      imagesRef.current = await loadImageMap(replay.images)
+
+      const player = createReplayPlayer(replay)
+      replayPlayerRef.current = player
+      replayProgressRef.current = 0
+      frameRef.current = player.state.entities
+      effectsRigRef.current.reset(replay.config.seed)
+
+      releaseCanvas()
+      setArenaSize(replay.config.arena)
+      setReplay(replay)
+      setReplayTick(0)
+      setReplayPlaying(true)
+      setEntities([...player.state.entities])
+      setKillFeed([...player.state.killFeed])
+      setBattleStats({ ...player.state.stats })
+      setGameState("REPLAY")
+    },
+    [releaseCanvas],
+  )
 
-        // Draw entity (circular clipped image)
-        ctx.beginPath()
-        ctx.arc(entity.x, entity.y, entity.radius, 0, Math.PI * 2)
-        ctx.clip()
-
-        ctx.drawImage(
-          entity.image,
-          entity.x - entity.radius,
-          entity.y - entity.radius,
-          entity.radius * 2,
-          entity.radius * 2,
-        )
+  // Build a replay of the battle that just finished
+  const recordReplay = useCallback(() => {
+    if (replay) return replay
+
+    const config = battleConfigRef.current
+    const finalState = lastStateRef.current
+    if (!config || !finalState) return null
+
+    const ids = new Set(config.entities.map((entity) => entity.id))
+    const images = uploadedImages
+      .filter((img) => ids.has(img.id))
+      .map((img) => ({ id: img.id, name: img.name, src: img.thumbnail }))
+    return createReplay(config, images, finalState, steeringRef.current)
+  }, [replay, uploadedImages])
+
+  const exportReplay = useCallback(() => {
+    const recorded = recordReplay()
+    if (!recorded) return
+    downloadFile(`battle-${recorded.config.seed}.replay.json`, serializeReplay(recorded), "application/json")
+  }, [recordReplay])
+
+  // Recorded once per opening of the export panel
+  const videoReplay = useMemo(() => (showVideoExport ? recordReplay() : null), [showVideoExport, recordReplay])
+
+  const watchReplay = useCallback(() => {
+    const recorded = recordReplay()
+    if (recorded) startReplay(recorded)
+  }, [recordReplay, startReplay])
+
+  const handleReplayFile = useCallback(
+    async (file: File) => {
+      try {
+        // Custom strategies play back from their recorded answers, a replay never runs their scripts
+        await startReplay(parseReplay(await file.text()))
+      } catch (error) {
+        alert(error instanceof Error ? error.message : "Could not load replay")
+      }
+    },
+    [startReplay],
+  )
 
-        ctx.restore()
-
-        // Draw health bar
-        const barWidth = entity.radius * 2
-        const barHeight = 6
-        const barX = entity.x - barWidth / 2
-        const barY = entity.y - entity.radius - 15
-
-        // Background
-        ctx.fillStyle = "#333"
-        ctx.fillRect(barX, barY, barWidth, barHeight)
-
-        // Health fill
-        const healthPercent = entity.health / entity.maxHealth
-        const healthColor = healthPercent > 0.5 ? "#00ff00" : healthPercent > 0.25 ? "#ffff00" : "#ff0000"
-        ctx.fillStyle = healthColor
-        ctx.fillRect(barX, barY, barWidth * healthPercent, barHeight)
-
-        // Border
-        ctx.strokeStyle = "#fff"
-        ctx.lineWidth = 1
-        ctx.strokeRect(barX, barY, barWidth, barHeight)
-
-        // Health text
-        ctx.fillStyle = "#fff"
-        ctx.font = "10px monospace"
-        ctx.textAlign = "center"
-        ctx.fillText(`${entity.health}`, entity.x, barY - 2)
-      })
+  const seekReplay = useCallback((tick: number) => {
+    const player = replayPlayerRef.current
+    if (!player) return
+
+    player.seek(tick)
+    replayProgressRef.current = 0
+    // Skipping ahead shouldn't set off every hit in between
+    effectsRigRef.current.reset()
+    setReplayTick(player.state.tick)
+    setEntities([...player.state.entities])
+    setKillFeed([...player.state.killFeed])
+    setBattleStats({ ...player.state.stats })
+  }, [])
 
-      // Draw countdown
-      if (gameState === "COUNTDOWN") {
-        ctx.fillStyle = "#fff"
-        ctx.font = "bold 120px Arial"
-        ctx.textAlign = "center"
-        ctx.fillText(countdown === 0 ? "BATTLE BEGINS!" : countdown.toString(), canvas.width / 2, canvas.height / 2)
+  const exitReplay = useCallback(() => {
+    replayPlayerRef.current = null
+    lastStateRef.current = null
+    setShowVideoExport(false)
+    frameRef.current = []
+    setReplay(null)
+    setReplayPlaying(false)
+    setEntities([])
+    setKillFeed([])
+    setBattleStats({ totalCollisions: 0, entitiesDestroyed: 0, battleTime: 0 })
+    setArenaSize(calculateArenaSize(uploadedImages.length))
+    setGameState("PRE_BATTLE")
+  }, [uploadedImages.length])
+
+  // Advance replay playback by the current speed (fractional speeds accumulate across frames)
+  const replayLoop = useCallback(() => {
+    const player = replayPlayerRef.current
+    if (!player || !replayPlaying) return
+
+    replayProgressRef.current += replaySpeed
+    let finished = false
+    while (replayProgressRef.current >= 1) {
+      replayProgressRef.current--
+      if (!player.step()) {
+        finished = true
+        setReplayPlaying(false)
+        break
       }
+    }
 
-      // Draw pause overlay
-      if (gameState === "PAUSED") {
-        ctx.fillStyle = "rgba(0, 0, 0, 0.7)"
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-        ctx.fillStyle = "#fff"
-        ctx.font = "bold 48px Arial"
-        ctx.textAlign = "center"
-        ctx.fillText("BATTLE PAUSED", canvas.width / 2, canvas.height / 2)
+    if (!shouldPublish(finished)) return
+    setReplayTick(player.state.tick)
+    setEntities([...player.state.entities])
+    setKillFeed([...player.state.killFeed])
+    setBattleStats({ ...player.state.stats })
+  }, [replayPlaying, replaySpeed, shouldPublish])
+
+  // Map geometry for the page renderer - the selected map as a preview before a battle
+  const sceneMap = useMemo(() => {
+    const config =
+      gameState === "REPLAY"
+        ? replay?.config
+        : gameState === "PRE_BATTLE"
+          ? { map: arenaMap, arena: arenaSize }
+          : battleConfigRef.current
+    return config?.map ? resolveMap(config.map, config.arena) : null
+  }, [gameState, replay, arenaMap, arenaSize])
+
+  // Animation loop - draws on the page unless the worker owns the canvas
+  const { sampleEntities: sampleRoomEntities } = battleRoom
+  useEffect(() => {
+    const overlay = arenaOverlay(gameState, countdown)
+
+    const animate = () => {
+      if (gameState === "REPLAY") replayLoop()
+      if (spectating) frameRef.current = sampleRoomEntities(performance.now()) ?? frameRef.current
+
+      const canvas = canvasRef.current
+      if (canvas && !renderInWorkerRef.current) {
+        if (rendererRef.current?.canvas !== canvas) {
+          rendererRef.current?.dispose()
+          rendererRef.current = createArenaRenderer(canvas, renderer)
+          setRendererBackend(rendererRef.current.backend)
+        }
+        // Pickups and the safe zone come from the latest snapshot, they change far less often than positions
+        const world = gameState === "REPLAY" ? replayPlayerRef.current?.state : lastStateRef.current
+        updateCamera(frameRef.current, world?.damageEvents ?? [], performance.now())
+        effectsRigRef.current.update(frameRef.current, performance.now(), world?.tick ?? 0)
+        rendererRef.current.render(frameRef.current, imagesRef.current, overlay, {
+          pickups: world?.pickups,
+          map: sceneMap,
+          safeZone: world?.safeZone,
+          frozenZones: world?.frozenZones,
+          projectiles: world?.projectiles,
+          decoys: world?.decoys,
+          interventions: world?.interventions,
+          tick: world?.tick,
+          camera: getCameraView(),
+          effects: effectsRigRef.current,
+        })
       }
 
       animationRef.current = requestAnimationFrame(animate)
@@ -561,7 +959,17 @@ export default function CombatArena() {
         cancelAnimationFrame(animationRef.current)
       }
     }
-  }, [entities, gameState, countdown, gameLoop])
+  }, [
+    gameState,
+    countdown,
+    replayLoop,
+    sceneMap,
+    spectating,
+    sampleRoomEntities,
+    updateCamera,
+    getCameraView,
+    renderer,
+  ])
 
   // Drag and drop handlers
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -578,7 +986,25 @@ export default function CombatArena() {
   )
 
   const aliveEntities = entities.filter((e) => !e.isDestroyed)
-  const winner = aliveEntities.length === 1 ? aliveEntities[0] : null
+  const interventionsActive = !spectating && (gameState === "BATTLE" || gameState === "PAUSED")
+  const inspectedEntity = interventionsActive ? entities.find((e) => e.id === inspectedId) : undefined
+  const followedId = camera.focus.mode === "follow" ? camera.focus.entityId : null
+  // The roster can't change mid-battle or while a bracket is built from it
+  const rosterLocked = gameState !== "PRE_BATTLE" || tournament !== null || spectating
+  // One side left: a lone survivor, or a team whose best survivor is the MVP
+  const aliveSides = new Set(aliveEntities.map(sideOf))
+  const winner =
+    aliveSides.size === 1 ? aliveEntities.reduce((best, e) => (e.totalDamage > best.totalDamage ? e : best)) : null
+  const winningTeam = winner ? findTeam(winner.teamId) : null
+  const winningRoster = winningTeam ? entities.filter((e) => e.teamId === winningTeam.id) : []
+  const imageUrl = (id: string) => imagesRef.current.get(id)?.src ?? uploadedImages.find((img) => img.id === id)?.url
+  const entityName = (id: string) => {
+    const roster: { id: string; name: string }[] =
+      gameState === "REPLAY" && replay ? replay.images : spectating ? roomFighters : uploadedImages
+    return roster.find((img) => img.id === id)?.name || `Entity ${id.slice(-4)}`
+  }
+  const predictionStage = predictionStageOf(gameState, spectating, predictions.ticket !== null, predictions.result !== null)
+  const showVictory = gameState === "ENDED" || (gameState === "REPLAY" && replay !== null && replayTick >= replay.ticks)
 
   return (
     <div className="min-h-screen bg-gray-900 text-white p-4">
@@ -600,7 +1026,7 @@ export default function CombatArena() {
                 Image Arsenal
               </h3>
 
-              {gameState === "PRE_BATTLE" && (
+              {!rosterLocked && (
                 <div
                   className="border-2 border-dashed border-cyan-500 rounded-lg p-6 text-center hover:border-purple-500 transition-colors cursor-pointer"
                   onDragOver={handleDragOver}
@@ -628,15 +1054,97 @@ export default function CombatArena() {
                 </div>
               )}
 
+              {!rosterLocked && uploadedImages.length > 1 && (
+                <div className="mt-4 space-y-2">
+                  <div className="flex items-center gap-1">
+                    <Users className="w-4 h-4 text-gray-400 mr-1" />
+                    {[2, 3, 4].map((count) => (
+                      <Button
+                        key={count}
+                        size="sm"
+                        variant="outline"
+                        onClick={() => splitIntoTeams(count)}
+                        className="px-2 h-7 text-xs"
+                      >
+                        {count} Teams
+                      </Button>
+                    ))}
+                    <Button size="sm" variant="ghost" onClick={clearTeams} className="px-2 h-7 text-xs">
+                      Solo
+                    </Button>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="friendly-fire" className="text-xs text-gray-400">
+                      Friendly fire
+                    </Label>
+                    <Switch id="friendly-fire" checked={friendlyFire} onCheckedChange={setFriendlyFire} />
+                  </div>
+                </div>
+              )}
+
+              {!rosterLocked && uploadedImages.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="point-budget" className="text-xs text-gray-400">
+                      Point budget for custom stats
+                    </Label>
+                    <Switch id="point-budget" checked={pointBudget} onCheckedChange={setPointBudget} />
+                  </div>
+                  {overBudget && <p className="text-[10px] text-red-400">Some builds are over budget</p>}
+                </div>
+              )}
+
               <div className="mt-4 max-h-64 overflow-y-auto space-y-2">
                 {uploadedImages.map((img) => (
-                  <div key={img.id} className="flex items-center gap-2 p-2 bg-gray-700 rounded">
-                    <img src={img.thumbnail || "/placeholder.svg"} alt="" className="w-8 h-8 rounded-full" />
-                    <span className="text-xs flex-1 truncate">{img.file.name}</span>
-                    {gameState === "PRE_BATTLE" && (
-                      <Button size="sm" variant="ghost" onClick={() => removeImage(img.id)} className="p-1 h-auto">
-                        <Trash2 className="w-3 h-3" />
-                      </Button>
+                  <div key={img.id} className="space-y-1">
+                    <div className="flex items-center gap-2 p-2 bg-gray-700 rounded">
+                      <img src={img.thumbnail || "/placeholder.svg"} alt="" className="w-8 h-8 rounded-full" />
+                      <span className="text-xs flex-1 truncate" title={img.file.name}>
+                        {img.name || img.file.name}
+                      </span>
+                      {!rosterLocked && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setEditingImageId((prev) => (prev === img.id ? null : img.id))}
+                          title="Edit name, stats and behaviour"
+                          className={`p-1 h-auto ${img.stats || img.behaviour ? "text-cyan-400" : ""}`}
+                        >
+                          <SlidersHorizontal className="w-3 h-3" />
+                        </Button>
+                      )}
+                      <button
+                        type="button"
+                        disabled={rosterLocked}
+                        onClick={() => cycleTeam(img.id)}
+                        title={findTeam(img.teamId)?.name ?? "No team"}
+                        className="w-3 h-3 rounded-full border border-gray-500 disabled:cursor-default"
+                        style={{ backgroundColor: findTeam(img.teamId)?.color ?? "transparent" }}
+                      />
+                      {!rosterLocked && (
+                        <Button size="sm" variant="ghost" onClick={() => removeImage(img.id)} className="p-1 h-auto">
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      )}
+                    </div>
+                    {!rosterLocked && editingImageId === img.id && (
+                      <StatProfileEditor
+                        id={img.id}
+                        name={img.name}
+                        stats={img.stats}
+                        baseHealth={rules.maxHealth}
+                        budgetMode={pointBudget}
+                        onNameChange={(name) => updateImage(img.id, { name })}
+                        onStatsChange={(stats) => updateImage(img.id, { stats })}
+                      />
+                    )}
+                    {!rosterLocked && editingImageId === img.id && (
+                      <BehaviourEditor
+                        id={img.id}
+                        behaviour={img.behaviour}
+                        strategy={img.strategy}
+                        onChange={(changes) => updateImage(img.id, changes)}
+                      />
                     )}
                   </div>
                 ))}
@@ -650,6 +1158,8 @@ export default function CombatArena() {
                 <p>Entity size: ~{Math.round(entitySize)}px</p>
               </div>
             </Card>
+
+            <LeaderboardPanel records={records} onReset={resetRecords} />
           </div>
 
           {/* Center - Battle Arena */}
@@ -662,9 +1172,10 @@ export default function CombatArena() {
                 </h3>
 
                 <div className="flex gap-2">
-                  {gameState === "PRE_BATTLE" && uploadedImages.length > 0 && (
+                  {!spectating && gameState === "PRE_BATTLE" && !tournament && uploadedImages.length > 0 && (
                     <Button
                       onClick={startBattle}
+                      disabled={overBudget}
                       className="bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700 animate-pulse"
                     >
                       <Play className="w-4 h-4 mr-2" />
@@ -672,7 +1183,13 @@ export default function CombatArena() {
                     </Button>
                   )}
 
-                  {(gameState === "BATTLE" || gameState === "PAUSED") && (
+                  {!spectating && gameState === "PREDICTING" && (
+                    <Button onClick={stopBattle} variant="destructive">
+                      <Square className="w-4 h-4" />
+                    </Button>
+                  )}
+
+                  {!spectating && (gameState === "BATTLE" || gameState === "PAUSED") && (
                     <>
                       <Button onClick={togglePause} variant="outline">
                         {gameState === "PAUSED" ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
@@ -682,11 +1199,64 @@ export default function CombatArena() {
                       </Button>
                     </>
                   )}
+
+                  {!spectating && gameState === "PRE_BATTLE" && (
+                    <>
+                      <Button variant="outline" onClick={() => document.getElementById("replay-input")?.click()}>
+                        <Film className="w-4 h-4 mr-2" />
+                        Load Replay
+                      </Button>
+                      <input
+                        id="replay-input"
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0]
+                          e.target.value = ""
+                          if (file) handleReplayFile(file)
+                        }}
+                      />
+                    </>
+                  )}
+
+                  {!spectating && gameState === "ENDED" && (
+                    <Button onClick={watchReplay} variant="outline">
+                      <Film className="w-4 h-4 mr-2" />
+                      Watch Replay
+                    </Button>
+                  )}
+
+                  {!spectating && (gameState === "ENDED" || gameState === "REPLAY") && (
+                    <>
+                      <Button onClick={exportReplay} variant="outline" title="Export replay">
+                        <Download className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        onClick={() => setShowVideoExport((prev) => !prev)}
+                        variant={showVideoExport ? "default" : "outline"}
+                        title="Export video"
+                      >
+                        <Clapperboard className="w-4 h-4" />
+                      </Button>
+                      <Button onClick={gameState === "REPLAY" ? exitReplay : stopBattle} variant="destructive">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
                 </div>
               </div>
 
-              <div className="relative">
+              {battleError && <p className="text-xs text-red-400 mb-2">Battle stopped: {battleError}</p>}
+
+              <div
+                ref={camera.viewportRef}
+                className="relative"
+                style={{ touchAction: camera.zoomed ? "none" : undefined }}
+                {...camera.viewportHandlers}
+              >
                 <canvas
+                  key={canvasKey}
                   ref={canvasRef}
                   width={arenaSize.width}
                   height={arenaSize.height}
@@ -694,13 +1264,94 @@ export default function CombatArena() {
                   style={{ aspectRatio: `${arenaSize.width}/${arenaSize.height}` }}
                 />
 
-                {gameState === "ENDED" && winner && (
+                {interventionsActive && (
+                  <InterventionLayer
+                    arena={arenaSize}
+                    getView={getCameraView}
+                    tool={interventionTool}
+                    getEntities={() => frameRef.current}
+                    onIntervene={intervene}
+                    onInspect={setInspectedId}
+                  />
+                )}
+
+                {!showVictory && <KillFeed events={killFeed} nameOf={entityName} imageOf={imageUrl} />}
+
+                <CameraControls
+                  focus={camera.focus}
+                  zoomed={camera.zoomed}
+                  nameOf={entityName}
+                  onZoom={(factor) => camera.zoomBy(factor)}
+                  onReset={camera.reset}
+                  onDirect={camera.direct}
+                  onStopFollowing={() => camera.follow(null)}
+                />
+
+                {camera.zoomed && (
+                  <Minimap
+                    arena={arenaSize}
+                    getView={getCameraView}
+                    getEntities={() => frameRef.current}
+                    onCenter={camera.centerOn}
+                  />
+                )}
+
+                {inspectedEntity && (
+                  <EntityInspector
+                    entity={inspectedEntity}
+                    time={battleStats.battleTime * TICK_MS}
+                    nameOf={entityName}
+                    imageOf={imageUrl}
+                    following={followedId === inspectedEntity.id}
+                    onFollow={(follow) => camera.follow(follow ? inspectedEntity.id : null)}
+                    onClose={() => setInspectedId(null)}
+                  />
+                )}
+
+                {gameState === "PREDICTING" && (
+                  <div className="absolute inset-x-0 top-4 flex justify-center pointer-events-none">
+                    <div className="bg-black/70 border border-yellow-400 rounded-lg px-4 py-2 text-center">
+                      <p className="text-lg font-bold text-yellow-400">PLACE YOUR PREDICTIONS</p>
+                      <p className="text-sm text-gray-300">Countdown in {countdown}s</p>
+                    </div>
+                  </div>
+                )}
+
+                {showVictory && winner && winningTeam && (
+                  <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center rounded-lg">
+                    <div className="text-center">
+                      <Trophy className="w-16 h-16 mx-auto mb-4" style={{ color: winningTeam.color }} />
+                      <h2 className="text-3xl font-bold mb-2">TEAM VICTORY!</h2>
+                      <p className="text-lg mb-3" style={{ color: winningTeam.color }}>
+                        {winningTeam.name}
+                      </p>
+                      <div className="flex flex-wrap justify-center gap-2 max-w-md mx-auto mb-3">
+                        {winningRoster.map((member) => (
+                          <img
+                            key={member.id}
+                            src={imageUrl(member.id) || "/placeholder.svg"}
+                            alt=""
+                            title={member.isDestroyed ? "Fallen" : "Survivor"}
+                            className={`w-10 h-10 rounded-full border-2 ${member.isDestroyed ? "opacity-40 grayscale" : ""}`}
+                            style={{ borderColor: winningTeam.color }}
+                          />
+                        ))}
+                      </div>
+                      <p className="text-sm text-gray-400">
+                        MVP Damage Dealt: {Math.round(winner.totalDamage)} ·{" "}
+                        {winningRoster.filter((member) => !member.isDestroyed).length}/{winningRoster.length} survived
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {showVictory && winner && !winningTeam && (
                   <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center rounded-lg">
                     <div className="text-center">
                       <Trophy className="w-16 h-16 mx-auto mb-4 text-yellow-400" />
                       <h2 className="text-3xl font-bold mb-2">VICTORY!</h2>
                       <img
-                        src={winner.image.src || "/placeholder.svg"}
+                        src={imageUrl(winner.id) || "/placeholder.svg"}
                         alt="Winner"
                         className="w-20 h-20 rounded-full mx-auto mb-2"
                       />
@@ -710,7 +1361,87 @@ export default function CombatArena() {
                   </div>
                 )}
               </div>
+
+              {interventionsActive && (
+                <InterventionToolbar
+                  tool={interventionTool}
+                  paused={gameState === "PAUSED"}
+                  onChange={setInterventionTool}
+                />
+              )}
+
+              {gameState === "REPLAY" && replay && (
+                <ReplayControls
+                  tick={replayTick}
+                  duration={replay.ticks}
+                  playing={replayPlaying}
+                  speed={replaySpeed}
+                  onTogglePlay={() => {
+                    if (!replayPlaying && replayTick >= replay.ticks) seekReplay(0)
+                    setReplayPlaying((prev) => !prev)
+                  }}
+                  onSeek={seekReplay}
+                  onSpeedChange={setReplaySpeed}
+                />
+              )}
+
+              {(gameState === "ENDED" || gameState === "REPLAY") && videoReplay && (
+                <VideoExportPanel
+                  replay={videoReplay}
+                  images={imagesRef.current}
+                  onClose={() => setShowVideoExport(false)}
+                />
+              )}
+
+              <RoomPanel
+                room={battleRoom.room}
+                peerId={battleRoom.peerId}
+                spectators={battleRoom.spectators}
+                messages={battleRoom.messages}
+                onHost={battleRoom.hostRoom}
+                onLeave={leaveRoom}
+                onSend={battleRoom.sendChat}
+              />
             </Card>
+
+            {predictionStage && (
+              <PredictionPanel
+                stage={predictionStage}
+                enabled={predictionsEnabled}
+                onEnabledChange={setPredictionsEnabled}
+                market={market}
+                secondsLeft={countdown}
+                points={predictions.points}
+                ticket={predictions.ticket}
+                result={predictions.result}
+                nameOf={entityName}
+                imageOf={imageUrl}
+                onPlace={predictions.placeTicket}
+                onStartNow={spectating ? undefined : () => closePredictionsRef.current?.()}
+                onResetPoints={predictions.resetPoints}
+              />
+            )}
+
+            {gameState === "ENDED" && timeline && lastStateRef.current && (
+              <BattleReport timeline={timeline} state={lastStateRef.current} names={entityNames} />
+            )}
+
+            {!spectating && (
+              <div className="mt-6">
+                <TournamentPanel
+                  tournament={tournament}
+                  fighters={fighters}
+                  activeMatchId={activeMatchId}
+                  busy={gameState !== "PRE_BATTLE"}
+                  isSimulating={isSimulating}
+                  error={tournamentError}
+                  onCreate={startTournament}
+                  onPlayNext={playNextMatch}
+                  onSimulateRest={simulateRemainingMatches}
+                  onReset={endTournament}
+                />
+              </div>
+            )}
           </div>
 
           {/* Right Sidebar - Stats & Controls */}
@@ -760,26 +1491,59 @@ export default function CombatArena() {
 
               <div className="max-h-64 overflow-y-auto space-y-2">
                 {entities.slice(0, 10).map((entity) => (
-                  <div key={entity.id} className={`p-2 rounded ${entity.isDestroyed ? "bg-red-900" : "bg-gray-700"}`}>
+                  <div
+                    key={entity.id}
+                    onClick={() => camera.follow(followedId === entity.id || entity.isDestroyed ? null : entity.id)}
+                    title="Follow with the camera"
+                    className={`p-2 rounded cursor-pointer ${entity.isDestroyed ? "bg-red-900" : "bg-gray-700"} ${
+                      followedId === entity.id ? "ring-1 ring-cyan-400" : ""
+                    }`}
+                  >
                     <div className="flex items-center gap-2 mb-1">
-                      <img src={entity.image.src || "/placeholder.svg"} alt="" className="w-6 h-6 rounded-full" />
-                      <span className="text-xs flex-1 truncate">Entity {entity.id.slice(-4)}</span>
+                      <img
+                        src={imageUrl(entity.id) || "/placeholder.svg"}
+                        alt=""
+                        className="w-6 h-6 rounded-full border-2"
+                        style={{ borderColor: findTeam(entity.teamId)?.color ?? "transparent" }}
+                      />
+                      <span className="text-xs flex-1 truncate">{entityName(entity.id)}</span>
+                      {!entity.isDestroyed && (
+                        <AbilityIcons abilities={entity.abilities} time={battleStats.battleTime * TICK_MS} />
+                      )}
                       {entity.hasBarrier && <Shield className="w-3 h-3 text-green-400" />}
                     </div>
                     <div className="flex justify-between text-xs">
                       <span
                         className={
-                          entity.health > 25
+                          entity.health > entity.maxHealth * 0.25
                             ? "text-green-400"
-                            : entity.health > 10
+                            : entity.health > entity.maxHealth * 0.1
                               ? "text-yellow-400"
                               : "text-red-400"
                         }
                       >
-                        HP: {entity.health}/100
+                        HP: {entity.health}/{entity.maxHealth}
+                      </span>
+                      <span className="text-gray-400">
+                        K/A: {entity.kills}/{entity.assists}
                       </span>
                       <span className="text-gray-400">DMG: {Math.round(entity.totalDamage)}</span>
                     </div>
+                    {!entity.isDestroyed && entity.effects.length > 0 && (
+                      <div className="flex gap-1 mt-1">
+                        {entity.effects.map((effect) => (
+                          <Badge
+                            key={effect.kind}
+                            variant="outline"
+                            className="px-1 py-0 text-[10px]"
+                            style={{ color: PICKUP_KINDS[effect.kind].color, borderColor: PICKUP_KINDS[effect.kind].color }}
+                          >
+                            {PICKUP_KINDS[effect.kind].glyph} {PICKUP_KINDS[effect.kind].name}{" "}
+                            {Math.max(0, Math.ceil((effect.expiresAt - battleStats.battleTime * TICK_MS) / 1000))}s
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
 
@@ -789,35 +1553,36 @@ export default function CombatArena() {
               </div>
             </Card>
 
-            <Card className="bg-gray-800 border-gray-700 p-4">
-              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-                <Settings className="w-5 h-5" />
-                Game Features
-              </h3>
-
-              <div className="space-y-2 text-sm">
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-green-400 rounded-full"></div>
-                  <span>Health Regeneration System</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
-                  <span>Defensive Barrier Protection</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-purple-400 rounded-full"></div>
-                  <span>Combo Damage Multipliers</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-yellow-400 rounded-full"></div>
-                  <span>Velocity-Based Damage</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-cyan-400 rounded-full"></div>
-                  <span>Professional Neon Effects</span>
-                </div>
-              </div>
-            </Card>
+            <RulesPanel
+              rules={rules}
+              disabled={gameState !== "PRE_BATTLE"}
+              onChange={updateRules}
+              onPreset={applyPreset}
+            />
+
+            <MapPanel
+              map={arenaMap}
+              customMaps={customMaps}
+              disabled={gameState !== "PRE_BATTLE"}
+              onSelect={setArenaMap}
+              onImport={(map) => {
+                setCustomMaps((prev) => [...prev, map])
+                setArenaMap(map)
+              }}
+            />
+
+            <PickupsPanel pickups={pickups} disabled={gameState !== "PRE_BATTLE"} onChange={updatePickups} />
+            <AbilitiesPanel abilities={abilities} disabled={gameState !== "PRE_BATTLE"} onChange={updateAbilities} />
+            <RangedPanel ranged={ranged} disabled={gameState !== "PRE_BATTLE"} onChange={updateRanged} />
+            <EffectsPanel
+              effects={effects}
+              renderer={renderer}
+              backend={rendererBackend}
+              onChange={updateEffects}
+              onRendererChange={updateRenderer}
+            />
+
+            {gameState === "PRE_BATTLE" && <BenchmarkPanel />}
           </div>
         </div>
       </div>
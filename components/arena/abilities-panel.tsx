@@ -0,0 +1,85 @@
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Sparkles } from "lucide-react"
+import { ABILITIES, ABILITY_IDS, type AbilitySettings } from "@/lib/battle/abilities"
+import { ABILITY_ICONS } from "@/components/arena/ability-icons"
+
+interface AbilitiesPanelProps {
+  abilities: AbilitySettings
+  disabled: boolean
+  onChange: (abilities: AbilitySettings) => void
+}
+
+export function AbilitiesPanel({ abilities, disabled, onChange }: AbilitiesPanelProps) {
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Sparkles className="w-5 h-5" />
+        Abilities
+        <Switch
+          className="ml-auto"
+          checked={abilities.enabled}
+          disabled={disabled}
+          onCheckedChange={(enabled) => onChange({ ...abilities, enabled })}
+        />
+      </h3>
+
+      {abilities.enabled && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-gray-400">Per fighter</Label>
+            <div className="flex gap-1">
+              {[1, 2].map((count) => (
+                <Button
+                  key={count}
+                  size="sm"
+                  variant={abilities.perEntity === count ? "default" : "outline"}
+                  disabled={disabled}
+                  onClick={() => onChange({ ...abilities, perEntity: count })}
+                  className="px-2 h-7 text-xs"
+                >
+                  {count}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-400">
+              <Label className="text-xs text-gray-400">Cooldowns</Label>
+              <span>×{abilities.cooldownScale.toFixed(2)}</span>
+            </div>
+            <Slider
+              min={0.25}
+              max={4}
+              step={0.25}
+              value={[abilities.cooldownScale]}
+              disabled={disabled}
+              onValueChange={([cooldownScale]) => onChange({ ...abilities, cooldownScale })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            {ABILITY_IDS.map((id) => {
+              const { name, color, cooldownMs, trigger } = ABILITIES[id]
+              const Icon = ABILITY_ICONS[id]
+              return (
+                <div key={id} className="flex items-center gap-2 text-xs">
+                  <Icon className="w-3 h-3 shrink-0" style={{ color }} />
+                  <span style={{ color }}>{name}</span>
+                  <span className="flex-1 truncate text-gray-500">{trigger}</span>
+                  <span className="text-gray-400">{((cooldownMs * abilities.cooldownScale) / 1000).toFixed(1)}s</span>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import { Asterisk, Copy, Crosshair, HeartPulse, Waves, Wind, type LucideIcon } from "lucide-react"
+import { ABILITIES, type AbilityId } from "@/lib/battle/abilities"
+import type { AbilityState } from "@/lib/battle/types"
+
+export const ABILITY_ICONS: Record<AbilityId, LucideIcon> = {
+  dash: Wind,
+  knockback: Waves,
+  regen: HeartPulse,
+  thorns: Asterisk,
+  decoy: Copy,
+  projectile: Crosshair,
+}
+
+const SIZE = 18
+const RING_RADIUS = 8
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS
+
+interface AbilityIconsProps {
+  abilities: readonly AbilityState[]
+  // Battle time (ms)
+  time: number
+}
+
+// One icon per ability, ringed by how far it has come off cooldown and lit up while it's active
+export function AbilityIcons({ abilities, time }: AbilityIconsProps) {
+  return (
+    <div className="flex gap-1">
+      {abilities.map((ability) => {
+        const { name, color } = ABILITIES[ability.id]
+        const Icon = ABILITY_ICONS[ability.id]
+        const remaining = Math.max(0, ability.readyAt - time)
+        const ready = remaining === 0
+        const active = ability.activeUntil > time
+        const progress = 1 - remaining / ability.cooldownMs
+
+        return (
+          <div
+            key={ability.id}
+            className="relative"
+            style={{ width: SIZE, height: SIZE }}
+            title={`${name}${ready ? " - ready" : ` - ${Math.ceil(remaining / 1000)}s`}`}
+          >
+            <svg width={SIZE} height={SIZE} className="absolute inset-0 -rotate-90">
+              <circle cx={SIZE / 2} cy={SIZE / 2} r={RING_RADIUS} fill="none" stroke="#374151" strokeWidth={2} />
+              <circle
+                cx={SIZE / 2}
+                cy={SIZE / 2}
+                r={RING_RADIUS}
+                fill={active ? `${color}40` : "none"}
+                stroke={color}
+                strokeWidth={2}
+                strokeDasharray={`${RING_LENGTH * progress} ${RING_LENGTH}`}
+              />
+            </svg>
+            <Icon
+              className="absolute inset-0 m-auto w-2.5 h-2.5"
+              style={{ color: ready || active ? color : "#6b7280" }}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
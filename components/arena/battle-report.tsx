@@ -0,0 +1,185 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { BarChart3, Download, Skull } from "lucide-react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { TICK_RATE } from "@/lib/battle/engine"
+import { buildBattleReport, reportToCsv } from "@/lib/battle/report"
+import type { BattleTimeline } from "@/lib/battle/timeline"
+import type { BattleState } from "@/lib/battle/types"
+import { downloadFile } from "@/lib/download"
+
+// Charts get slow with thousands of points, long battles are thinned to about this many
+const MAX_CHART_POINTS = 300
+const LEADERBOARD_SIZE = 10
+const HEALTH_LINES = 5
+
+const AXIS_STYLE = { fontSize: 10, fill: "#9ca3af" }
+const TOOLTIP_STYLE = { backgroundColor: "#111827", border: "1px solid #374151", fontSize: 12 }
+
+function formatSeconds(seconds: number) {
+  const whole = Math.floor(seconds)
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, "0")}`
+}
+
+interface BattleReportProps {
+  timeline: BattleTimeline
+  state: BattleState
+  names: ReadonlyMap<string, string>
+}
+
+export function BattleReport({ timeline, state, names }: BattleReportProps) {
+  const report = useMemo(() => buildBattleReport(timeline, state, names), [timeline, state, names])
+
+  const chartSamples = useMemo(() => {
+    const stride = Math.max(1, Math.ceil(timeline.samples.length / MAX_CHART_POINTS))
+    return timeline.samples.filter((_, i) => i % stride === 0 || i === timeline.samples.length - 1)
+  }, [timeline])
+
+  const survival = chartSamples.map((sample) => ({ time: sample.tick / TICK_RATE, alive: sample.alive }))
+
+  const leaderboard = [...report.entities]
+    .sort((a, b) => b.totalDamage - a.totalDamage)
+    .slice(0, LEADERBOARD_SIZE)
+    .map((entity) => ({ name: entity.name, damage: entity.totalDamage }))
+
+  // Health lines for the best finishers
+  const topEntities = report.entities.slice(0, HEALTH_LINES)
+  const columns = topEntities.map((entity) => timeline.entityIds.indexOf(entity.id))
+  const health = chartSamples.map((sample) => ({
+    time: sample.tick / TICK_RATE,
+    ...Object.fromEntries(topEntities.map((entity, i) => [entity.id, sample.health[columns[i]]])),
+  }))
+  const colors = new Map(state.entities.map((entity) => [entity.id, entity.neonColor]))
+
+  const nameOf = (id: string | null) => (id ? (names.get(id) ?? id) : "the arena")
+
+  const downloadJson = () =>
+    downloadFile(`battle-report-${Date.now()}.json`, JSON.stringify({ report, timeline }), "application/json")
+  const downloadCsv = () => downloadFile(`battle-report-${Date.now()}.csv`, reportToCsv(report), "text/csv")
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4 mt-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <BarChart3 className="w-5 h-5" />
+          Battle Report
+        </h3>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={downloadJson}>
+            <Download className="w-3 h-3 mr-1" />
+            JSON
+          </Button>
+          <Button size="sm" variant="outline" onClick={downloadCsv}>
+            <Download className="w-3 h-3 mr-1" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-sm text-gray-400 mb-2">Survival</h4>
+          <ResponsiveContainer width="100%" height={180}>
+            <LineChart data={survival}>
+              <CartesianGrid stroke="#1f2937" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={[0, "dataMax"]}
+                tickFormatter={formatSeconds}
+                tick={AXIS_STYLE}
+              />
+              <YAxis allowDecimals={false} tick={AXIS_STYLE} width={30} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} labelFormatter={(time) => formatSeconds(Number(time))} />
+              <Line type="stepAfter" dataKey="alive" stroke="#22d3ee" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h4 className="text-sm text-gray-400 mb-2">Damage Leaderboard</h4>
+          <ResponsiveContainer width="100%" height={180}>
+            <BarChart data={leaderboard} layout="vertical">
+              <CartesianGrid stroke="#1f2937" />
+              <XAxis type="number" tick={AXIS_STYLE} />
+              <YAxis type="category" dataKey="name" tick={AXIS_STYLE} width={80} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: "#1f2937" }} />
+              <Bar dataKey="damage" fill="#a855f7" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h4 className="text-sm text-gray-400 mb-2">Health Over Time</h4>
+          <ResponsiveContainer width="100%" height={180}>
+            <LineChart data={health}>
+              <CartesianGrid stroke="#1f2937" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={[0, "dataMax"]}
+                tickFormatter={formatSeconds}
+                tick={AXIS_STYLE}
+              />
+              <YAxis tick={AXIS_STYLE} width={30} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} labelFormatter={(time) => formatSeconds(Number(time))} />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              {topEntities.map((entity) => (
+                <Line
+                  key={entity.id}
+                  type="monotone"
+                  dataKey={entity.id}
+                  name={entity.name}
+                  stroke={colors.get(entity.id)}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h4 className="text-sm text-gray-400 mb-2 flex items-center gap-1">
+            <Skull className="w-4 h-4" />
+            Kill Feed
+          </h4>
+          <div className="h-[180px] overflow-y-auto space-y-1 text-xs">
+            {timeline.eliminations.length === 0 && <p className="text-gray-500">No eliminations</p>}
+            {timeline.eliminations.map((event) => (
+              <div key={event.victimId} className="flex gap-2 bg-gray-700 rounded px-2 py-1">
+                <span className="font-mono text-gray-400">{formatSeconds(event.tick / TICK_RATE)}</span>
+                <span className="truncate">
+                  <span className="text-cyan-400">{nameOf(event.killerId)}</span> eliminated{" "}
+                  <span className="text-red-400">{nameOf(event.victimId)}</span>
+                  {event.assistIds.length > 0 && (
+                    <span className="text-gray-400"> (assists: {event.assistIds.map(nameOf).join(", ")})</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400 mt-4">
+        {formatSeconds(report.durationSeconds)} · {report.totalCollisions} collisions · {timeline.eliminations.length}{" "}
+        eliminations
+      </p>
+    </Card>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { BEHAVIOURS, MAX_STRATEGY_LENGTH, STRATEGY_TEMPLATE, type BehaviourId } from "@/lib/battle/behaviours"
+import { createStrategySandbox } from "@/lib/battle/sandbox"
+
+interface BehaviourEditorProps {
+  id: string
+  behaviour: BehaviourId | null
+  strategy: string | null
+  onChange: (changes: { behaviour: BehaviourId | null; strategy: string | null }) => void
+}
+
+const BEHAVIOUR_IDS = Object.keys(BEHAVIOURS) as BehaviourId[]
+
+// Picks a fighter's steering behaviour. A custom strategy only takes effect once it compiles and survives a dry run,
+// which happens in a worker so a runaway script can't freeze the page.
+export function BehaviourEditor({ id, behaviour, strategy, onChange }: BehaviourEditorProps) {
+  const [scriptOpen, setScriptOpen] = useState(behaviour === "custom")
+  const [draft, setDraft] = useState(strategy ?? STRATEGY_TEMPLATE)
+  const [error, setError] = useState<string | null>(null)
+  const [checking, setChecking] = useState(false)
+
+  const select = (next: BehaviourId | null) => {
+    setScriptOpen(next === "custom")
+    setError(null)
+    // The script is kept when switching away, so switching back needs no re-apply
+    if (next !== "custom" || strategy) onChange({ behaviour: next, strategy })
+  }
+
+  const apply = async () => {
+    setChecking(true)
+    const sandbox = createStrategySandbox()
+    try {
+      const problem = await sandbox.check(draft)
+      setError(problem)
+      if (!problem) onChange({ behaviour: "custom", strategy: draft })
+    } finally {
+      sandbox.dispose()
+      setChecking(false)
+    }
+  }
+
+  const selected = scriptOpen ? "custom" : behaviour
+  const description = selected ? BEHAVIOURS[selected].description : "Flies straight and bounces"
+
+  return (
+    <div className="space-y-2 p-2 bg-gray-900 rounded">
+      <Label className="text-xs text-gray-400">Behaviour</Label>
+      <div className="flex flex-wrap gap-1">
+        <Button
+          size="sm"
+          variant={selected === null ? "default" : "outline"}
+          onClick={() => select(null)}
+          className="px-2 h-7 text-xs"
+        >
+          Ballistic
+        </Button>
+        {BEHAVIOUR_IDS.map((behaviourId) => (
+          <Button
+            key={behaviourId}
+            size="sm"
+            variant={selected === behaviourId ? "default" : "outline"}
+            onClick={() => select(behaviourId)}
+            className="px-2 h-7 text-xs"
+          >
+            {BEHAVIOURS[behaviourId].name}
+          </Button>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500">{description}</p>
+
+      {scriptOpen && (
+        <div className="space-y-1">
+          <Label htmlFor={`strategy-${id}`} className="text-xs text-gray-400">
+            Strategy (self, world) =&gt; {"{ x, y }"} or null
+          </Label>
+          <textarea
+            id={`strategy-${id}`}
+            value={draft}
+            maxLength={MAX_STRATEGY_LENGTH}
+            spellCheck={false}
+            rows={10}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full rounded border border-gray-600 bg-gray-700 p-2 font-mono text-[10px] leading-snug"
+          />
+          {error && <p className="text-[10px] text-red-400 break-words">{error}</p>}
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-gray-500">
+              {behaviour === "custom" && draft === strategy ? "Applied" : "Not applied yet"}
+            </span>
+            <Button size="sm" variant="outline" onClick={apply} disabled={checking} className="px-2 h-7 text-xs">
+              {checking ? "Checking..." : "Apply"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
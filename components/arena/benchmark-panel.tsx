@@ -0,0 +1,77 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Gauge } from "lucide-react"
+import { TICK_RATE } from "@/lib/battle/engine"
+import { BENCHMARK_ENTITY_COUNTS, benchmarkEngine, type BenchmarkResult } from "@/lib/battle/benchmark"
+
+interface BenchmarkRow {
+  entityCount: number
+  grid?: BenchmarkResult
+  naive?: BenchmarkResult
+}
+
+export function BenchmarkPanel() {
+  const [rows, setRows] = useState<BenchmarkRow[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+
+  const runBenchmark = useCallback(async () => {
+    setIsRunning(true)
+    setRows(BENCHMARK_ENTITY_COUNTS.map((entityCount) => ({ entityCount })))
+
+    for (const entityCount of BENCHMARK_ENTITY_COUNTS) {
+      for (const broadphase of ["grid", "naive"] as const) {
+        // Yield so the table can update between runs
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        const result = benchmarkEngine(entityCount, broadphase)
+        setRows((prev) => prev.map((row) => (row.entityCount === entityCount ? { ...row, [broadphase]: result } : row)))
+      }
+    }
+
+    setIsRunning(false)
+  }, [])
+
+  const formatResult = (result?: BenchmarkResult) => {
+    if (!result) return <span className="text-gray-500">—</span>
+    const fast = result.ticksPerSecond >= TICK_RATE
+    return (
+      <Badge variant="outline" className={fast ? "text-green-400 border-green-400" : "text-red-400 border-red-400"}>
+        {Math.round(result.ticksPerSecond).toLocaleString()}
+      </Badge>
+    )
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Gauge className="w-5 h-5" />
+        Engine Benchmark
+      </h3>
+
+      <Button onClick={runBenchmark} disabled={isRunning} variant="outline" size="sm" className="w-full">
+        {isRunning ? "Running..." : "Measure ticks/second"}
+      </Button>
+
+      {rows.length > 0 && (
+        <div className="mt-4 space-y-2 text-sm">
+          <div className="grid grid-cols-3 text-xs text-gray-400">
+            <span>Entities</span>
+            <span>Grid</span>
+            <span>Naive</span>
+          </div>
+          {rows.map((row) => (
+            <div key={row.entityCount} className="grid grid-cols-3 items-center">
+              <span>{row.entityCount}</span>
+              {formatResult(row.grid)}
+              {formatResult(row.naive)}
+            </div>
+          ))}
+          <p className="text-xs text-gray-400">Needs {TICK_RATE} ticks/s for real-time play.</p>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Camera, Crosshair, Maximize, X, ZoomIn, ZoomOut } from "lucide-react"
+import type { CameraFocus } from "@/lib/render/camera"
+
+// Each button press zooms by this factor
+const BUTTON_ZOOM_STEP = 1.5
+
+interface CameraControlsProps {
+  focus: CameraFocus
+  zoomed: boolean
+  nameOf: (id: string) => string
+  onZoom: (factor: number) => void
+  onReset: () => void
+  onDirect: (on: boolean) => void
+  onStopFollowing: () => void
+}
+
+export function CameraControls({
+  focus,
+  zoomed,
+  nameOf,
+  onZoom,
+  onReset,
+  onDirect,
+  onStopFollowing,
+}: CameraControlsProps) {
+  const directing = focus.mode === "director"
+
+  // Presses here shouldn't start a pan on the viewport underneath
+  return (
+    <div className="absolute top-2 left-2 flex items-center gap-1" onPointerDown={(e) => e.stopPropagation()}>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onZoom(BUTTON_ZOOM_STEP)}
+        className="h-7 w-7 p-0"
+        title="Zoom in"
+      >
+        <ZoomIn className="w-4 h-4" />
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onZoom(1 / BUTTON_ZOOM_STEP)}
+        disabled={!zoomed}
+        className="h-7 w-7 p-0"
+        title="Zoom out"
+      >
+        <ZoomOut className="w-4 h-4" />
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={onReset}
+        disabled={!zoomed && focus.mode === "free"}
+        className="h-7 w-7 p-0"
+        title="Show the whole arena"
+      >
+        <Maximize className="w-4 h-4" />
+      </Button>
+      <Button
+        size="sm"
+        variant={directing ? "default" : "outline"}
+        onClick={() => onDirect(!directing)}
+        className="h-7 text-xs"
+        title="Cut to the biggest fight automatically"
+      >
+        <Camera className="w-4 h-4 mr-1" />
+        Director
+      </Button>
+      {focus.mode === "follow" && (
+        <div className="flex items-center gap-1 bg-black/70 border border-cyan-400 rounded px-2 h-7 text-xs text-cyan-400">
+          <Crosshair className="w-3 h-3" />
+          <span className="truncate max-w-[8rem]">{nameOf(focus.entityId)}</span>
+          <button type="button" onClick={onStopFollowing} className="text-gray-400 hover:text-white">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Zap } from "lucide-react"
+import { EFFECTS_QUALITIES, type EffectsQuality, type EffectsSettings } from "@/lib/render/effects"
+import { RENDERER_PREFERENCES, type RendererBackend, type RendererPreference } from "@/lib/render/renderer"
+
+interface EffectsPanelProps {
+  effects: EffectsSettings
+  renderer: RendererPreference
+  // The backend actually drawing, once the arena has been drawn
+  backend: RendererBackend | null
+  onChange: (effects: EffectsSettings) => void
+  onRendererChange: (renderer: RendererPreference) => void
+}
+
+// Purely visual, so it can change mid-battle - except the renderer, which a running worker keeps until the next battle
+export function EffectsPanel({ effects, renderer, backend, onChange, onRendererChange }: EffectsPanelProps) {
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Zap className="w-5 h-5" />
+        Graphics
+      </h3>
+
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <div className="flex gap-1">
+            {(Object.keys(EFFECTS_QUALITIES) as EffectsQuality[]).map((quality) => (
+              <Button
+                key={quality}
+                size="sm"
+                variant={effects.quality === quality ? "default" : "outline"}
+                onClick={() => onChange({ ...effects, quality })}
+                className="flex-1 px-2 h-7 text-xs"
+              >
+                {EFFECTS_QUALITIES[quality].name}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">{EFFECTS_QUALITIES[effects.quality].description}</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="effects-shake" className="text-xs text-gray-400">
+            Screen shake on big hits
+          </Label>
+          <Switch
+            id="effects-shake"
+            checked={effects.screenShake}
+            disabled={effects.quality === "off"}
+            onCheckedChange={(screenShake) => onChange({ ...effects, screenShake })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-gray-400">Renderer</Label>
+            {backend && <span className="text-xs text-gray-500">Using {RENDERER_PREFERENCES[backend].name}</span>}
+          </div>
+          <div className="flex gap-1">
+            {(Object.keys(RENDERER_PREFERENCES) as RendererPreference[]).map((preference) => (
+              <Button
+                key={preference}
+                size="sm"
+                variant={renderer === preference ? "default" : "outline"}
+                onClick={() => onRendererChange(preference)}
+                className="flex-1 px-2 h-7 text-xs"
+              >
+                {RENDERER_PREFERENCES[preference].name}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">{RENDERER_PREFERENCES[renderer].description}</p>
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Crosshair, Shield, X } from "lucide-react"
+import { PICKUP_KINDS } from "@/lib/battle/pickups"
+import { PROJECTILE_KINDS } from "@/lib/battle/projectiles"
+import { AbilityIcons } from "@/components/arena/ability-icons"
+import { findTeam } from "@/lib/battle/teams"
+import type { Entity } from "@/lib/battle/types"
+
+interface EntityInspectorProps {
+  entity: Entity
+  // Battle time (ms), for effect timers
+  time: number
+  nameOf: (id: string) => string
+  imageOf: (id: string) => string | undefined
+  following: boolean
+  onFollow: (follow: boolean) => void
+  onClose: () => void
+}
+
+export function EntityInspector({
+  entity,
+  time,
+  nameOf,
+  imageOf,
+  following,
+  onFollow,
+  onClose,
+}: EntityInspectorProps) {
+  const team = findTeam(entity.teamId)
+  const rows: [string, string][] = [
+    ["Health", `${Math.round(entity.health)}/${entity.maxHealth}`],
+    ["Armor", `×${entity.armor.toFixed(2)}`],
+    ["Damage", `×${entity.damageMultiplier.toFixed(2)}`],
+    ["Speed", `${Math.hypot(entity.vx, entity.vy).toFixed(1)}/${entity.maxSpeed.toFixed(1)}`],
+    ["Size", `${Math.round(entity.radius * 2)}px`],
+    ["K/A", `${entity.kills}/${entity.assists}`],
+    ["Dealt", `${Math.round(entity.totalDamage)}`],
+    ["Combo", `${entity.comboCount}`],
+  ]
+  if (entity.weapon) rows.push(["Weapon", PROJECTILE_KINDS[entity.weapon].name])
+
+  return (
+    <div
+      className="absolute bottom-2 left-2 w-56 bg-black/80 border border-gray-600 rounded-lg p-3 text-xs"
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <img
+          src={imageOf(entity.id) || "/placeholder.svg"}
+          alt=""
+          className={`w-8 h-8 rounded-full border-2 ${entity.isDestroyed ? "grayscale" : ""}`}
+          style={{ borderColor: team?.color ?? entity.neonColor }}
+        />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold truncate">{nameOf(entity.id)}</p>
+          <p className="text-gray-400">{team?.name ?? "No team"}</p>
+        </div>
+        {!entity.isDestroyed && (
+          <Button
+            size="sm"
+            variant={following ? "default" : "ghost"}
+            onClick={() => onFollow(!following)}
+            className="h-6 w-6 p-0"
+            title={following ? "Stop following" : "Follow with the camera"}
+          >
+            <Crosshair className="w-3 h-3" />
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={onClose} className="h-6 w-6 p-0">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {entity.isDestroyed ? (
+        <p className="text-red-400">
+          Eliminated{entity.eliminatedBy ? ` by ${nameOf(entity.eliminatedBy)}` : " by the arena"}
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between">
+              <span className="text-gray-400">{label}</span>
+              <span className="font-mono">{value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!entity.isDestroyed && (entity.hasBarrier || entity.effects.length > 0) && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {entity.hasBarrier && (
+            <Badge variant="outline" className="px-1 py-0 text-[10px] text-green-400 border-green-400">
+              <Shield className="w-3 h-3 mr-1" />
+              Barrier
+            </Badge>
+          )}
+          {entity.effects.map((effect) => (
+            <Badge
+              key={effect.kind}
+              variant="outline"
+              className="px-1 py-0 text-[10px]"
+              style={{ color: PICKUP_KINDS[effect.kind].color, borderColor: PICKUP_KINDS[effect.kind].color }}
+            >
+              {PICKUP_KINDS[effect.kind].glyph} {PICKUP_KINDS[effect.kind].name}{" "}
+              {Math.max(0, Math.ceil((effect.expiresAt - time) / 1000))}s
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {!entity.isDestroyed && entity.abilities.length > 0 && (
+        <div className="mt-2">
+          <AbilityIcons abilities={entity.abilities} time={time} />
+        </div>
+      )}
+    </div>
+  )
+}
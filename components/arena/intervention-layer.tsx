@@ -0,0 +1,152 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import {
+  FREEZE_MS,
+  FREEZE_RADIUS,
+  INTERVENTION_TOOLS,
+  SHOCKWAVE_DAMAGE,
+  SHOCKWAVE_FORCE,
+  SHOCKWAVE_RADIUS,
+  type Intervention,
+  type InterventionTool,
+} from "@/lib/battle/interventions"
+import type { ArenaSize, Entity } from "@/lib/battle/types"
+import { viewToArena, visibleRect, type CameraView } from "@/lib/render/camera"
+
+// Arena pixels of drag per unit of fling speed
+const DRAG_PER_SPEED = 8
+// Fighters keep moving between snapshots, so they are a little easier to grab than their outline
+const GRAB_MARGIN = 12
+
+interface Point {
+  x: number
+  y: number
+}
+
+interface InterventionLayerProps {
+  arena: ArenaSize
+  getView: () => CameraView
+  tool: InterventionTool
+  // Latest known positions, read when the pointer goes down
+  getEntities: () => readonly Entity[]
+  onIntervene: (intervention: Intervention) => void
+  onInspect: (id: string | null) => void
+}
+
+// Sits over the arena canvas and turns clicks and drags into interventions, in arena coordinates.
+// Presses it doesn't use fall through to the viewport, which pans the camera.
+export function InterventionLayer({
+  arena,
+  getView,
+  tool,
+  getEntities,
+  onIntervene,
+  onInspect,
+}: InterventionLayerProps) {
+  const [pointer, setPointer] = useState<Point | null>(null)
+  const [drag, setDrag] = useState<(Point & { entityId: string }) | null>(null)
+
+  const toArena = (e: React.PointerEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return viewToArena(getView(), arena, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height)
+  }
+
+  // Topmost (last drawn) fighter under the point
+  const entityAt = (point: Point) => {
+    const entities = getEntities()
+    for (let i = entities.length - 1; i >= 0; i--) {
+      const entity = entities[i]
+      if (entity.isDestroyed) continue
+      if (Math.hypot(entity.x - point.x, entity.y - point.y) <= entity.radius + GRAB_MARGIN) return entity
+    }
+    return null
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return
+    const point = toArena(e)
+    const entity = entityAt(point)
+
+    switch (tool) {
+      case "inspect":
+        onInspect(entity?.id ?? null)
+        if (!entity) return
+        break
+      case "fling":
+        if (!entity) return
+        e.currentTarget.setPointerCapture(e.pointerId)
+        setDrag({ entityId: entity.id, ...point })
+        break
+      case "barrier":
+        if (!entity) return
+        onIntervene({ kind: "barrier", entityId: entity.id })
+        break
+      case "shockwave":
+        onIntervene({
+          kind: "shockwave",
+          ...point,
+          radius: SHOCKWAVE_RADIUS,
+          force: SHOCKWAVE_FORCE,
+          damage: SHOCKWAVE_DAMAGE,
+        })
+        break
+      case "freeze":
+        onIntervene({ kind: "freeze", ...point, radius: FREEZE_RADIUS, durationMs: FREEZE_MS })
+        break
+    }
+    e.stopPropagation()
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return
+    setDrag(null)
+
+    const point = toArena(e)
+    const dx = point.x - drag.x
+    const dy = point.y - drag.y
+    // A click without a drag would just stop the fighter
+    if (Math.hypot(dx, dy) < DRAG_PER_SPEED) return
+    onIntervene({ kind: "fling", entityId: drag.entityId, vx: dx / DRAG_PER_SPEED, vy: dy / DRAG_PER_SPEED })
+  }
+
+  const areaRadius = tool === "shockwave" ? SHOCKWAVE_RADIUS : tool === "freeze" ? FREEZE_RADIUS : null
+  const { color } = INTERVENTION_TOOLS[tool]
+  const rect = visibleRect(getView(), arena)
+
+  return (
+    <div
+      className="absolute inset-0 rounded-lg"
+      style={{ cursor: tool === "inspect" ? "pointer" : "crosshair", touchAction: "none" }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={(e) => setPointer(toArena(e))}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+      onPointerLeave={() => setPointer(null)}
+    >
+      <svg
+        viewBox={`${rect.x} ${rect.y} ${rect.width} ${rect.height}`}
+        className="w-full h-full pointer-events-none"
+      >
+        {pointer && areaRadius !== null && (
+          <circle
+            cx={pointer.x}
+            cy={pointer.y}
+            r={areaRadius}
+            fill={`${color}20`}
+            stroke={color}
+            strokeWidth={2}
+            strokeDasharray="8 6"
+          />
+        )}
+        {drag && pointer && (
+          <>
+            <circle cx={drag.x} cy={drag.y} r={6} fill={color} />
+            <line x1={drag.x} y1={drag.y} x2={pointer.x} y2={pointer.y} stroke={color} strokeWidth={3} />
+          </>
+        )}
+      </svg>
+    </div>
+  )
+}
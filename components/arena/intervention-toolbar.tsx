@@ -0,0 +1,47 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Bomb, Hand, Search, Shield, Snowflake, type LucideIcon } from "lucide-react"
+import { INTERVENTION_TOOLS, type InterventionTool } from "@/lib/battle/interventions"
+
+const TOOL_ICONS: Record<InterventionTool, LucideIcon> = {
+  inspect: Search,
+  fling: Hand,
+  shockwave: Bomb,
+  barrier: Shield,
+  freeze: Snowflake,
+}
+
+interface InterventionToolbarProps {
+  tool: InterventionTool
+  // Interventions wait for the battle to resume
+  paused: boolean
+  onChange: (tool: InterventionTool) => void
+}
+
+export function InterventionToolbar({ tool, paused, onChange }: InterventionToolbarProps) {
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2">
+      {(Object.keys(INTERVENTION_TOOLS) as InterventionTool[]).map((id) => {
+        const Icon = TOOL_ICONS[id]
+        const { name, color } = INTERVENTION_TOOLS[id]
+        return (
+          <Button
+            key={id}
+            size="sm"
+            variant={tool === id ? "default" : "outline"}
+            onClick={() => onChange(id)}
+            className="h-8"
+          >
+            <Icon className="w-4 h-4 mr-1" style={{ color }} />
+            {name}
+          </Button>
+        )
+      })}
+      <span className="text-xs text-gray-400 ml-auto">
+        {INTERVENTION_TOOLS[tool].hint}
+        {paused && tool !== "inspect" && " - takes effect on resume"}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import { Skull } from "lucide-react"
+import type { KillEvent } from "@/lib/battle/types"
+
+// Only the latest eliminations fit over the arena
+const VISIBLE_KILLS = 6
+
+interface KillFeedProps {
+  events: readonly KillEvent[]
+  nameOf: (id: string) => string
+  imageOf: (id: string) => string | undefined
+}
+
+export function KillFeed({ events, nameOf, imageOf }: KillFeedProps) {
+  if (events.length === 0) return null
+
+  const latest = events.slice(-VISIBLE_KILLS).reverse()
+
+  return (
+    <div className="absolute top-2 right-2 w-56 space-y-1 pointer-events-none">
+      {latest.map((event, i) => (
+        <div
+          key={`${event.tick}-${event.victimId}`}
+          className="flex items-center gap-1 bg-black/70 border border-gray-700 rounded px-2 py-1 text-[11px]"
+          style={{ opacity: 1 - i * 0.12 }}
+        >
+          {event.killerId ? (
+            <>
+              <img src={imageOf(event.killerId) || "/placeholder.svg"} alt="" className="w-4 h-4 rounded-full" />
+              <span className="text-cyan-400 truncate max-w-[5rem]">{nameOf(event.killerId)}</span>
+            </>
+          ) : (
+            <span className="text-orange-400">Arena</span>
+          )}
+          {event.assistIds.length > 0 && <span className="text-gray-400">+{event.assistIds.length}</span>}
+          <Skull className="w-3 h-3 text-red-400 shrink-0" />
+          <img src={imageOf(event.victimId) || "/placeholder.svg"} alt="" className="w-4 h-4 rounded-full grayscale" />
+          <span className="text-red-400 truncate max-w-[5rem]">{nameOf(event.victimId)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
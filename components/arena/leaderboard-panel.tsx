@@ -0,0 +1,105 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Trophy } from "lucide-react"
+import type { FighterRecord } from "@/lib/storage/fighter-records"
+
+// Longer careers are a click away
+const COLLAPSED_ROWS = 10
+
+interface LeaderboardPanelProps {
+  records: ReadonlyMap<string, FighterRecord>
+  onReset: () => void
+}
+
+export function LeaderboardPanel({ records, onReset }: LeaderboardPanelProps) {
+  const [showAll, setShowAll] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const ranked = useMemo(() => [...records.values()].sort((a, b) => b.rating - a.rating || b.wins - a.wins), [records])
+  const visible = showAll ? ranked : ranked.slice(0, COLLAPSED_ROWS)
+
+  const reset = () => {
+    if (confirm("Forget every fighter's record?")) onReset()
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Trophy className="w-5 h-5" />
+          Leaderboard
+        </h3>
+        {ranked.length > 0 && (
+          <Button size="sm" variant="ghost" onClick={reset} className="px-2 h-7 text-xs">
+            Reset
+          </Button>
+        )}
+      </div>
+
+      {ranked.length === 0 ? (
+        <p className="text-sm text-gray-500">Finished battles build each fighter's record here.</p>
+      ) : (
+        <div className="space-y-1 text-sm">
+          <div className="grid grid-cols-[1.5rem_1fr_3rem_3.5rem] gap-2 text-xs text-gray-400">
+            <span>#</span>
+            <span>Fighter</span>
+            <span className="text-right">Elo</span>
+            <span className="text-right">W-L</span>
+          </div>
+          {visible.map((record, i) => (
+            <div key={record.fighterId}>
+              <button
+                type="button"
+                onClick={() => setExpandedId((id) => (id === record.fighterId ? null : record.fighterId))}
+                className="w-full grid grid-cols-[1.5rem_1fr_3rem_3.5rem] gap-2 items-center bg-gray-700 rounded px-1 py-1 text-left hover:bg-gray-600"
+              >
+                <span className="text-gray-400">{i + 1}</span>
+                <span className="flex items-center gap-2 min-w-0">
+                  <img src={record.thumbnail || "/placeholder.svg"} alt="" className="w-5 h-5 rounded-full shrink-0" />
+                  <span className="truncate">{record.name}</span>
+                </span>
+                <span className="text-right font-mono text-cyan-400">{Math.round(record.rating)}</span>
+                <span className="text-right font-mono text-xs">
+                  {record.wins}-{record.losses}
+                </span>
+              </button>
+
+              {expandedId === record.fighterId && (
+                <div className="px-2 py-2 text-xs text-gray-300 space-y-2">
+                  <div className="grid grid-cols-2 gap-1">
+                    <span>Battles: {record.battles}</span>
+                    <span>Best: #{record.bestPlacement ?? "—"}</span>
+                    <span>Kills: {record.kills}</span>
+                    <span>Avg damage: {Math.round(record.totalDamage / Math.max(1, record.battles))}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {[...record.history].reverse().map((entry, i) => (
+                      <Badge
+                        key={`${entry.at}-${i}`}
+                        variant="outline"
+                        title={`${new Date(entry.at).toLocaleString()} · ${entry.kills} kills · ${entry.damage} damage`}
+                        className={entry.won ? "text-green-400 border-green-400" : "text-red-400 border-red-400"}
+                      >
+                        #{entry.placement}/{entry.entrants} {entry.ratingChange >= 0 ? "+" : ""}
+                        {Math.round(entry.ratingChange)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+          {ranked.length > COLLAPSED_ROWS && (
+            <Button size="sm" variant="ghost" onClick={() => setShowAll((all) => !all)} className="w-full h-7 text-xs">
+              {showAll ? "Show top 10" : `Show all ${ranked.length}`}
+            </Button>
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Download, MapIcon, Upload } from "lucide-react"
+import { ARENA_MAPS, validateArenaMap, type ArenaMap } from "@/lib/battle/maps"
+import { describeValidationError } from "@/lib/battle/validation"
+import { downloadFile } from "@/lib/download"
+
+interface MapPanelProps {
+  map: ArenaMap
+  customMaps: ArenaMap[]
+  disabled: boolean
+  onSelect: (map: ArenaMap) => void
+  onImport: (map: ArenaMap) => void
+}
+
+export function MapPanel({ map, customMaps, disabled, onSelect, onImport }: MapPanelProps) {
+  const [error, setError] = useState<string | null>(null)
+  const maps = [...Object.values(ARENA_MAPS), ...customMaps]
+
+  const importFile = async (file: File) => {
+    let data: unknown
+    try {
+      data = JSON.parse(await file.text())
+    } catch {
+      setError("Map file is not valid JSON")
+      return
+    }
+
+    const result = validateArenaMap(data)
+    if (!result.success) {
+      setError(`Invalid map: ${describeValidationError(result.error)}`)
+      return
+    }
+    setError(null)
+    onImport(result.data)
+  }
+
+  const exportMap = () => {
+    const slug = map.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")
+    downloadFile(`${slug}.map.json`, JSON.stringify(map, null, 2), "application/json")
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <MapIcon className="w-5 h-5" />
+        Arena Map
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        {maps.map((option, i) => (
+          <Button
+            key={`${option.name}-${i}`}
+            size="sm"
+            variant={option === map ? "default" : "outline"}
+            disabled={disabled}
+            onClick={() => onSelect(option)}
+            title={option.description}
+            className="truncate"
+          >
+            {option.name}
+          </Button>
+        ))}
+      </div>
+
+      {map.description && <p className="text-xs text-gray-400 mt-3">{map.description}</p>}
+
+      <div className="flex gap-2 mt-3">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={disabled}
+          onClick={() => document.getElementById("map-input")?.click()}
+          className="flex-1"
+        >
+          <Upload className="w-3 h-3 mr-1" />
+          Import
+        </Button>
+        <Button size="sm" variant="outline" onClick={exportMap} className="flex-1">
+          <Download className="w-3 h-3 mr-1" />
+          Export
+        </Button>
+        <input
+          id="map-input"
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ""
+            if (file) importFile(file)
+          }}
+        />
+      </div>
+
+      {error && <p className="text-[10px] text-red-400 mt-2">{error}</p>}
+    </Card>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef } from "react"
+import type { ArenaSize, Entity } from "@/lib/battle/types"
+import { visibleRect, type CameraView } from "@/lib/render/camera"
+
+const MINIMAP_WIDTH = 180
+
+interface MinimapProps {
+  arena: ArenaSize
+  getView: () => CameraView
+  getEntities: () => readonly Entity[]
+  onCenter: (point: { x: number; y: number }) => void
+}
+
+// The whole arena in the corner while zoomed in: fighters as dots and the camera's view as a frame.
+// Click or drag on it to move the camera.
+export function Minimap({ arena, getView, getEntities, onCenter }: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const height = Math.round((MINIMAP_WIDTH * arena.height) / arena.width)
+
+  useEffect(() => {
+    let frame = 0
+    const draw = () => {
+      const ctx = canvasRef.current?.getContext("2d")
+      if (ctx) {
+        const scale = MINIMAP_WIDTH / arena.width
+        ctx.clearRect(0, 0, MINIMAP_WIDTH, height)
+        ctx.fillStyle = "rgba(10, 10, 10, 0.85)"
+        ctx.fillRect(0, 0, MINIMAP_WIDTH, height)
+
+        for (const entity of getEntities()) {
+          if (entity.isDestroyed) continue
+          ctx.fillStyle = entity.neonColor
+          ctx.beginPath()
+          ctx.arc(entity.x * scale, entity.y * scale, Math.max(1.5, entity.radius * scale), 0, Math.PI * 2)
+          ctx.fill()
+        }
+
+        const rect = visibleRect(getView(), arena)
+        ctx.strokeStyle = "#fff"
+        ctx.lineWidth = 1.5
+        ctx.strokeRect(rect.x * scale, rect.y * scale, rect.width * scale, rect.height * scale)
+      }
+      frame = requestAnimationFrame(draw)
+    }
+
+    draw()
+    return () => cancelAnimationFrame(frame)
+  }, [arena, height, getView, getEntities])
+
+  const center = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    onCenter({
+      x: ((e.clientX - rect.left) / rect.width) * arena.width,
+      y: ((e.clientY - rect.top) / rect.height) * arena.height,
+    })
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={MINIMAP_WIDTH}
+      height={height}
+      className="absolute bottom-2 right-2 border border-gray-600 rounded cursor-pointer"
+      style={{ touchAction: "none" }}
+      onPointerDown={(e) => {
+        // Keep the viewport from starting a pan underneath
+        e.stopPropagation()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        center(e)
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) center(e)
+      }}
+    />
+  )
+}
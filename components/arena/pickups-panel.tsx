@@ -0,0 +1,90 @@
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Gift } from "lucide-react"
+import { PICKUP_KINDS, validatePickupSettings, type PickupKind, type PickupSettings } from "@/lib/battle/pickups"
+
+interface PickupsPanelProps {
+  pickups: PickupSettings
+  disabled: boolean
+  onChange: (pickups: PickupSettings) => void
+}
+
+export function PickupsPanel({ pickups, disabled, onChange }: PickupsPanelProps) {
+  // Sliders stay in range, so the only invalid change is zeroing every weight - ignore it
+  const update = (next: PickupSettings) => {
+    const result = validatePickupSettings(next)
+    if (result.success) onChange(result.data)
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Gift className="w-5 h-5" />
+        Power-ups
+        <Switch
+          className="ml-auto"
+          checked={pickups.enabled}
+          disabled={disabled}
+          onCheckedChange={(enabled) => update({ ...pickups, enabled })}
+        />
+      </h3>
+
+      {pickups.enabled && (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-400">
+              <Label className="text-xs text-gray-400">Spawn every</Label>
+              <span>{(pickups.spawnIntervalMs / 1000).toFixed(1)}s</span>
+            </div>
+            <Slider
+              min={500}
+              max={20000}
+              step={500}
+              value={[pickups.spawnIntervalMs]}
+              disabled={disabled}
+              onValueChange={([spawnIntervalMs]) => update({ ...pickups, spawnIntervalMs })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-400">
+              <Label className="text-xs text-gray-400">Max on the field</Label>
+              <span>{pickups.maxActive}</span>
+            </div>
+            <Slider
+              min={1}
+              max={20}
+              step={1}
+              value={[pickups.maxActive]}
+              disabled={disabled}
+              onValueChange={([maxActive]) => update({ ...pickups, maxActive })}
+            />
+          </div>
+
+          {(Object.keys(PICKUP_KINDS) as PickupKind[]).map((kind) => (
+            <div key={kind} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span style={{ color: PICKUP_KINDS[kind].color }}>
+                  {PICKUP_KINDS[kind].glyph} {PICKUP_KINDS[kind].name}
+                </span>
+                <span className="text-gray-400">weight {pickups.weights[kind]}</span>
+              </div>
+              <Slider
+                min={0}
+                max={10}
+                step={1}
+                value={[pickups.weights[kind]]}
+                disabled={disabled}
+                onValueChange={([weight]) => update({ ...pickups, weights: { ...pickups.weights, [kind]: weight } })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,246 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Check, Coins, Timer, X } from "lucide-react"
+import {
+  PREDICTION_STAKES,
+  TOP_PICKS,
+  createTicket,
+  type PredictionMarket,
+  type PredictionMode,
+  type PredictionResult,
+  type PredictionTicket,
+} from "@/lib/battle/predictions"
+
+// setup: before a battle, open: picks are being taken, live: the battle is on, results: after it ended
+export type PredictionStage = "setup" | "open" | "live" | "results"
+
+interface PredictionPanelProps {
+  stage: PredictionStage
+  enabled: boolean
+  // Only the host decides whether battles open with a prediction round
+  onEnabledChange?: (enabled: boolean) => void
+  market: PredictionMarket | null
+  secondsLeft: number
+  points: number
+  ticket: PredictionTicket | null
+  result: PredictionResult | null
+  nameOf: (id: string) => string
+  imageOf: (id: string) => string | undefined
+  onPlace: (ticket: PredictionTicket) => void
+  // Host only: close predictions and start the countdown
+  onStartNow?: () => void
+  onResetPoints: () => void
+}
+
+function formatChance(chance: number) {
+  return chance < 0.01 ? "<1%" : `${Math.round(chance * 100)}%`
+}
+
+export function PredictionPanel({
+  stage,
+  enabled,
+  onEnabledChange,
+  market,
+  secondsLeft,
+  points,
+  ticket,
+  result,
+  nameOf,
+  imageOf,
+  onPlace,
+  onStartNow,
+  onResetPoints,
+}: PredictionPanelProps) {
+  const [mode, setMode] = useState<PredictionMode>("champion")
+  const [picks, setPicks] = useState<string[]>([])
+  const [stake, setStake] = useState(PREDICTION_STAKES[1])
+
+  const needed = mode === "champion" ? 1 : TOP_PICKS
+  // With three sides or fewer everyone makes the top 3
+  const canPickTop = market?.entrants.some((entrant) => entrant.top3Chance < 1) ?? false
+  const affordable = PREDICTION_STAKES.filter((amount) => amount <= points)
+
+  const changeMode = (next: PredictionMode) => {
+    setMode(next)
+    setPicks([])
+  }
+
+  const togglePick = (id: string) => {
+    setPicks((prev) => {
+      if (prev.includes(id)) return prev.filter((pick) => pick !== id)
+      if (needed === 1) return [id]
+      return prev.length < needed ? [...prev, id] : prev
+    })
+  }
+
+  const lockIn = () => {
+    if (!market || picks.length !== needed || stake > points) return
+    onPlace(createTicket(market, mode, picks, stake))
+    setPicks([])
+  }
+
+  const potentialPayout = (t: PredictionTicket) =>
+    Math.round(t.odds.reduce((sum, odds) => sum + (t.stake / t.picks.length) * odds, 0))
+
+  const ticketSummary = (t: PredictionTicket) => (
+    <div className="text-sm space-y-1">
+      <p className="text-gray-400">
+        {t.mode === "champion" ? "Champion" : `Top ${TOP_PICKS}`} · {t.stake} pts staked
+      </p>
+      {t.picks.map((id, i) => (
+        <div key={id} className="flex items-center gap-2">
+          <img src={imageOf(id) || "/placeholder.svg"} alt="" className="w-5 h-5 rounded-full" />
+          <span className="truncate">{nameOf(id)}</span>
+          <span className="ml-auto font-mono text-yellow-400">×{t.odds[i].toFixed(2)}</span>
+          {result &&
+            (result.correct.includes(id) ? (
+              <Check className="w-4 h-4 text-green-400" />
+            ) : (
+              <X className="w-4 h-4 text-red-400" />
+            ))}
+        </div>
+      ))}
+    </div>
+  )
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4 mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Coins className="w-5 h-5" />
+          Predictions
+        </h3>
+        <div className="flex items-center gap-2">
+          {stage === "open" && (
+            <Badge variant="outline" className="text-cyan-400 border-cyan-400">
+              <Timer className="w-3 h-3 mr-1" />
+              {secondsLeft}s
+            </Badge>
+          )}
+          <Badge variant="outline" className="text-yellow-400 border-yellow-400">
+            {points} pts
+          </Badge>
+        </div>
+      </div>
+
+      {stage === "setup" && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="prediction-round" className="text-sm text-gray-400">
+            Open a prediction round before each battle
+          </Label>
+          <Switch id="prediction-round" checked={enabled} onCheckedChange={onEnabledChange} />
+        </div>
+      )}
+
+      {stage === "open" && market && !ticket && (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant={mode === "champion" ? "default" : "outline"}
+              onClick={() => changeMode("champion")}
+            >
+              Champion
+            </Button>
+            {canPickTop && (
+              <Button size="sm" variant={mode === "top3" ? "default" : "outline"} onClick={() => changeMode("top3")}>
+                Top {TOP_PICKS}
+              </Button>
+            )}
+            <span className="ml-auto text-xs text-gray-400 self-center">
+              {picks.length}/{needed} picked
+            </span>
+          </div>
+
+          <div className="max-h-56 overflow-y-auto space-y-1">
+            {market.entrants.map((entrant) => {
+              const picked = picks.includes(entrant.id)
+              return (
+                <button
+                  key={entrant.id}
+                  type="button"
+                  onClick={() => togglePick(entrant.id)}
+                  className={`w-full flex items-center gap-2 rounded px-2 py-1 text-sm text-left ${
+                    picked ? "bg-purple-700" : "bg-gray-700 hover:bg-gray-600"
+                  }`}
+                >
+                  <img src={imageOf(entrant.id) || "/placeholder.svg"} alt="" className="w-6 h-6 rounded-full" />
+                  <span className="truncate flex-1">{nameOf(entrant.id)}</span>
+                  <span className="text-xs text-gray-400">
+                    {formatChance(mode === "champion" ? entrant.winChance : entrant.top3Chance)}
+                  </span>
+                  <span className="font-mono text-yellow-400 w-14 text-right">
+                    ×{(mode === "champion" ? entrant.winOdds : entrant.top3Odds).toFixed(2)}
+                  </span>
+                </button>
+              )
+            })}
+          </div>
+
+          {affordable.length === 0 ? (
+            <div className="flex items-center justify-between text-sm text-gray-400">
+              <span>Out of points</span>
+              <Button size="sm" variant="outline" onClick={onResetPoints}>
+                Reset points
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              {affordable.map((amount) => (
+                <Button
+                  key={amount}
+                  size="sm"
+                  variant={stake === amount ? "default" : "outline"}
+                  onClick={() => setStake(amount)}
+                  className="px-2 h-7 text-xs"
+                >
+                  {amount}
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                onClick={lockIn}
+                disabled={picks.length !== needed || stake > points}
+                className="ml-auto bg-gradient-to-r from-cyan-500 to-purple-600"
+              >
+                Lock In
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {(stage === "open" || stage === "live") && ticket && (
+        <div className="space-y-2">
+          {ticketSummary(ticket)}
+          <p className="text-xs text-gray-400">Pays up to {potentialPayout(ticket)} pts</p>
+        </div>
+      )}
+
+      {stage === "open" && onStartNow && (
+        <Button size="sm" variant="outline" onClick={onStartNow} className="w-full mt-3">
+          Close predictions and start
+        </Button>
+      )}
+
+      {stage === "results" && result && (
+        <div className="space-y-2">
+          {ticketSummary(result.ticket)}
+          <p className={`text-sm font-semibold ${result.payout > 0 ? "text-green-400" : "text-red-400"}`}>
+            {result.payout > 0
+              ? `Won ${result.payout} pts (${result.payout - result.ticket.stake >= 0 ? "+" : ""}${
+                  result.payout - result.ticket.stake
+                } net)`
+              : `Lost ${result.ticket.stake} pts`}
+          </p>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Target } from "lucide-react"
+import { PROJECTILE_KINDS, type RangedSettings } from "@/lib/battle/projectiles"
+
+const WEAPONS: { id: RangedSettings["weapon"]; label: string }[] = [
+  { id: "bullet", label: PROJECTILE_KINDS.bullet.name },
+  { id: "orb", label: PROJECTILE_KINDS.orb.name },
+  { id: "mixed", label: "Mixed" },
+]
+
+interface RangedPanelProps {
+  ranged: RangedSettings
+  disabled: boolean
+  onChange: (ranged: RangedSettings) => void
+}
+
+export function RangedPanel({ ranged, disabled, onChange }: RangedPanelProps) {
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Target className="w-5 h-5" />
+        Ranged Weapons
+        <Switch
+          className="ml-auto"
+          checked={ranged.enabled}
+          disabled={disabled}
+          onCheckedChange={(enabled) => onChange({ ...ranged, enabled })}
+        />
+      </h3>
+
+      {ranged.enabled && (
+        <div className="space-y-3">
+          <div className="flex gap-1">
+            {WEAPONS.map(({ id, label }) => (
+              <Button
+                key={id}
+                size="sm"
+                variant={ranged.weapon === id ? "default" : "outline"}
+                disabled={disabled}
+                onClick={() => onChange({ ...ranged, weapon: id })}
+                className="flex-1 px-2 h-7 text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-400">
+              <Label className="text-xs text-gray-400">Fire interval</Label>
+              <span>{(ranged.fireIntervalMs / 1000).toFixed(2)}s</span>
+            </div>
+            <Slider
+              min={250}
+              max={10000}
+              step={250}
+              value={[ranged.fireIntervalMs]}
+              disabled={disabled}
+              onValueChange={([fireIntervalMs]) => onChange({ ...ranged, fireIntervalMs })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-400">
+              <Label className="text-xs text-gray-400">Range</Label>
+              <span>{ranged.range}px</span>
+            </div>
+            <Slider
+              min={100}
+              max={2000}
+              step={50}
+              value={[ranged.range]}
+              disabled={disabled}
+              onValueChange={([range]) => onChange({ ...ranged, range })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-400">
+              <Label className="text-xs text-gray-400">Damage</Label>
+              <span>×{ranged.damageScale.toFixed(2)}</span>
+            </div>
+            <Slider
+              min={0}
+              max={3}
+              step={0.25}
+              value={[ranged.damageScale]}
+              disabled={disabled}
+              onValueChange={([damageScale]) => onChange({ ...ranged, damageScale })}
+            />
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
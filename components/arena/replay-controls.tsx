@@ -0,0 +1,74 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Play, Pause, Rewind, SkipBack } from "lucide-react"
+import { TICK_RATE } from "@/lib/battle/engine"
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4]
+
+// Rewind button jumps back this far
+const REWIND_TICKS = TICK_RATE * 5
+
+interface ReplayControlsProps {
+  tick: number
+  duration: number
+  playing: boolean
+  speed: number
+  onTogglePlay: () => void
+  onSeek: (tick: number) => void
+  onSpeedChange: (speed: number) => void
+}
+
+function formatTicks(ticks: number) {
+  const seconds = Math.floor(ticks / TICK_RATE)
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`
+}
+
+export function ReplayControls({
+  tick,
+  duration,
+  playing,
+  speed,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange,
+}: ReplayControlsProps) {
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-mono text-gray-400 w-10">{formatTicks(tick)}</span>
+        <Slider value={[tick]} min={0} max={duration} step={1} onValueChange={([value]) => onSeek(value)} />
+        <span className="text-xs font-mono text-gray-400 w-10 text-right">{formatTicks(duration)}</span>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => onSeek(0)} title="Restart">
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onSeek(tick - REWIND_TICKS)} title="Rewind 5s">
+            <Rewind className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={onTogglePlay}>
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+        </div>
+
+        <div className="flex gap-1">
+          {PLAYBACK_SPEEDS.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={value === speed ? "default" : "ghost"}
+              onClick={() => onSpeedChange(value)}
+              className="px-2 text-xs"
+            >
+              {value}x
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
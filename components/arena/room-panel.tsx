@@ -0,0 +1,134 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Eye, LogOut, Radio, Send, Share2 } from "lucide-react"
+import { MAX_CHAT_LENGTH, ROOM_REACTIONS, type ChatMessage } from "@/lib/rooms/protocol"
+import type { RoomRole } from "@/hooks/use-battle-room"
+
+interface RoomPanelProps {
+  room: { id: string; role: RoomRole } | null
+  peerId: string
+  spectators: number
+  messages: ChatMessage[]
+  onHost: () => void
+  onLeave: () => void
+  onSend: (kind: ChatMessage["kind"], text: string) => void
+}
+
+export function RoomPanel({ room, peerId, spectators, messages, onHost, onLeave, onSend }: RoomPanelProps) {
+  const [draft, setDraft] = useState("")
+  const [copied, setCopied] = useState(false)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight })
+  }, [messages])
+
+  if (!room) {
+    return (
+      <div className="mt-3 flex items-center justify-between text-sm text-gray-400">
+        <span>Battles are only visible in this tab.</span>
+        <Button size="sm" variant="outline" onClick={onHost}>
+          <Radio className="w-4 h-4 mr-2" />
+          Open Battle Room
+        </Button>
+      </div>
+    )
+  }
+
+  const copyLink = async () => {
+    const url = new URL(window.location.href)
+    url.search = new URLSearchParams({ room: room.id }).toString()
+    try {
+      await navigator.clipboard.writeText(url.toString())
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // Clipboard access can be denied, the link is still shown in the prompt
+      prompt("Room link", url.toString())
+    }
+  }
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSend("text", draft)
+    setDraft("")
+  }
+
+  return (
+    <div className="mt-3 border border-gray-700 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <Badge
+          variant="outline"
+          className={room.role === "host" ? "text-red-400 border-red-400" : "text-cyan-400 border-cyan-400"}
+        >
+          {room.role === "host" ? "LIVE" : "SPECTATING"}
+        </Badge>
+        <span className="font-mono text-gray-400">#{room.id}</span>
+        <span className="flex items-center gap-1 text-gray-400">
+          <Eye className="w-4 h-4" />
+          {spectators} watching
+        </span>
+        <div className="ml-auto flex gap-2">
+          <Button size="sm" variant="outline" onClick={copyLink} className="h-7 text-xs">
+            <Share2 className="w-3 h-3 mr-1" />
+            {copied ? "Copied!" : "Copy Link"}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onLeave} className="h-7 text-xs">
+            <LogOut className="w-3 h-3 mr-1" />
+            {room.role === "host" ? "Close Room" : "Leave"}
+          </Button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="h-24 overflow-y-auto space-y-1 text-xs">
+        {messages.length === 0 && <p className="text-gray-500">No messages yet</p>}
+        {messages.map((message) =>
+          message.kind === "reaction" ? (
+            <div key={message.id} className="text-gray-400">
+              {message.author} reacted <span className="text-base">{message.text}</span>
+            </div>
+          ) : (
+            <div key={message.id}>
+              <span className={message.peerId === peerId ? "text-purple-400" : "text-cyan-400"}>
+                {message.author}:
+              </span>{" "}
+              {message.text}
+            </div>
+          ),
+        )}
+      </div>
+
+      <div className="flex items-center gap-1">
+        {ROOM_REACTIONS.map((reaction) => (
+          <Button
+            key={reaction}
+            size="sm"
+            variant="ghost"
+            onClick={() => onSend("reaction", reaction)}
+            className="px-2 h-7 text-base"
+          >
+            {reaction}
+          </Button>
+        ))}
+        <form onSubmit={submit} className="flex flex-1 gap-1 ml-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_CHAT_LENGTH}
+            placeholder="Say something..."
+            className="h-7 text-xs bg-gray-700 border-gray-600"
+          />
+          <Button type="submit" size="sm" variant="outline" disabled={!draft.trim()} className="h-7 px-2">
+            <Send className="w-3 h-3" />
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
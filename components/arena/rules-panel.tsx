@@ -0,0 +1,137 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Settings } from "lucide-react"
+import {
+  RULE_PRESETS,
+  matchRulePreset,
+  validateRuleSet,
+  type RulePresetId,
+  type RuleSet,
+} from "@/lib/battle/rules"
+
+type NumericRuleKey = Exclude<keyof RuleSet, "barrierEnabled">
+
+const RULE_FIELDS: { key: NumericRuleKey; label: string; step: number; unit?: string }[] = [
+  { key: "maxHealth", label: "Max health", step: 10, unit: "HP" },
+  { key: "damageCap", label: "Damage cap", step: 1, unit: "HP" },
+  { key: "impactDamageScale", label: "Impact damage", step: 0.1, unit: "×" },
+  { key: "regenDelayMs", label: "Regen delay", step: 100, unit: "ms" },
+  { key: "regenIntervalMs", label: "Regen every", step: 100, unit: "ms" },
+  { key: "regenAmount", label: "Regen amount", step: 1, unit: "HP" },
+  { key: "comboWindowMs", label: "Combo window", step: 100, unit: "ms" },
+  { key: "comboStep", label: "Combo step", step: 0.05, unit: "×" },
+  { key: "comboMultiplierCap", label: "Combo cap", step: 0.05, unit: "×" },
+  { key: "barrierThreshold", label: "Barrier at", step: 1, unit: "HP" },
+  { key: "restitution", label: "Bounce", step: 0.05 },
+  { key: "wallRestitution", label: "Wall bounce", step: 0.05 },
+]
+
+const toDraft = (rules: RuleSet) =>
+  Object.fromEntries(RULE_FIELDS.map(({ key }) => [key, String(rules[key])])) as Record<NumericRuleKey, string>
+
+interface RulesPanelProps {
+  rules: RuleSet
+  disabled: boolean
+  onChange: (rules: RuleSet) => void
+  onPreset: (id: RulePresetId) => void
+}
+
+export function RulesPanel({ rules, disabled, onChange, onPreset }: RulesPanelProps) {
+  const [draft, setDraft] = useState(() => toDraft(rules))
+  const [errors, setErrors] = useState<Partial<Record<keyof RuleSet, string>>>({})
+  const presetId = matchRulePreset(rules)
+
+  // Reset the form when the rules change from outside (presets, storage), but keep
+  // in-progress input like "1." that already matches the current value
+  useEffect(() => {
+    setDraft((prev) => (RULE_FIELDS.some(({ key }) => Number(prev[key]) !== rules[key]) ? toDraft(rules) : prev))
+    setErrors({})
+  }, [rules])
+
+  const updateField = (key: NumericRuleKey, value: string) => {
+    setDraft((prev) => ({ ...prev, [key]: value }))
+
+    const number = Number(value)
+    if (value.trim() === "" || Number.isNaN(number)) {
+      setErrors({ [key]: "Enter a number" })
+      return
+    }
+
+    const result = validateRuleSet({ ...rules, [key]: number })
+    if (result.success) {
+      onChange(result.data)
+    } else {
+      setErrors(Object.fromEntries(result.error.issues.map((issue) => [issue.path[0], issue.message])))
+    }
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Settings className="w-5 h-5" />
+        Rule Set
+        {!presetId && (
+          <Badge variant="outline" className="ml-auto text-purple-400 border-purple-400">
+            Custom
+          </Badge>
+        )}
+      </h3>
+
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {(Object.keys(RULE_PRESETS) as RulePresetId[]).map((id) => (
+          <Button
+            key={id}
+            size="sm"
+            variant={id === presetId ? "default" : "outline"}
+            disabled={disabled}
+            onClick={() => onPreset(id)}
+            title={RULE_PRESETS[id].description}
+          >
+            {RULE_PRESETS[id].name}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+        {RULE_FIELDS.map(({ key, label, step, unit }) => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={`rule-${key}`} className="text-xs text-gray-400">
+              {label}
+              {unit && <span className="text-gray-500">({unit})</span>}
+            </Label>
+            <Input
+              id={`rule-${key}`}
+              type="number"
+              step={step}
+              value={draft[key]}
+              disabled={disabled}
+              aria-invalid={errors[key] ? true : undefined}
+              onChange={(e) => updateField(key, e.target.value)}
+              className="h-7 bg-gray-700 border-gray-600 text-xs"
+            />
+            {errors[key] && <p className="text-[10px] text-red-400">{errors[key]}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-3">
+        <Label htmlFor="rule-barrierEnabled" className="text-xs text-gray-400">
+          Defensive barrier
+        </Label>
+        <Switch
+          id="rule-barrierEnabled"
+          checked={rules.barrierEnabled}
+          disabled={disabled}
+          onCheckedChange={(barrierEnabled) => onChange({ ...rules, barrierEnabled })}
+        />
+      </div>
+    </Card>
+  )
+}
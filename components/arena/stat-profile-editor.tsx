@@ -0,0 +1,104 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import {
+  BASE_STAT_PROFILE,
+  STAT_FIELDS,
+  STAT_POINT_BUDGET,
+  profileCost,
+  statRange,
+  type StatKey,
+  type StatProfile,
+} from "@/lib/battle/profiles"
+
+interface StatProfileEditorProps {
+  id: string
+  name: string
+  stats: StatProfile | null
+  // Rule set max health, shown next to the health multiplier
+  baseHealth: number
+  budgetMode: boolean
+  onNameChange: (name: string) => void
+  onStatsChange: (stats: StatProfile | null) => void
+}
+
+export function StatProfileEditor({
+  id,
+  name,
+  stats,
+  baseHealth,
+  budgetMode,
+  onNameChange,
+  onStatsChange,
+}: StatProfileEditorProps) {
+  const cost = stats ? profileCost(stats) : 0
+
+  const updateStat = (key: StatKey, value: number) => {
+    const next = { ...(stats ?? BASE_STAT_PROFILE), [key]: value }
+    // In budget mode, refuse changes that push an affordable build over budget (lowering is always fine)
+    const nextCost = profileCost(next)
+    if (budgetMode && nextCost > STAT_POINT_BUDGET && nextCost > cost) return
+    onStatsChange(next)
+  }
+
+  return (
+    <div className="space-y-2 p-2 bg-gray-900 rounded">
+      <div className="space-y-1">
+        <Label htmlFor={`name-${id}`} className="text-xs text-gray-400">
+          Name
+        </Label>
+        <Input
+          id={`name-${id}`}
+          value={name}
+          maxLength={40}
+          onChange={(e) => onNameChange(e.target.value)}
+          className="h-7 bg-gray-700 border-gray-600 text-xs"
+        />
+      </div>
+
+      {STAT_FIELDS.map(({ key, label, step, unit }) => {
+        const { min, max } = statRange(key)
+        const value = (stats ?? BASE_STAT_PROFILE)[key]
+        return (
+          <div key={key} className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-400">
+              <span>{label}</span>
+              <span>
+                {key === "health" ? `${Math.round(baseHealth * value)} HP` : `${value} ${unit}`}
+              </span>
+            </div>
+            <Slider
+              min={min}
+              max={max}
+              step={step}
+              value={[value]}
+              onValueChange={([next]) => updateStat(key, Number(next.toFixed(2)))}
+            />
+          </div>
+        )
+      })}
+
+      <div className="flex items-center justify-between pt-1">
+        {budgetMode ? (
+          <Badge
+            variant="outline"
+            className={cost > STAT_POINT_BUDGET ? "text-red-400 border-red-400" : "text-cyan-400 border-cyan-400"}
+          >
+            {cost}/{STAT_POINT_BUDGET} points
+          </Badge>
+        ) : (
+          <span className="text-xs text-gray-500">{stats ? "Custom stats" : "Random size and speed"}</span>
+        )}
+        {stats && (
+          <Button size="sm" variant="ghost" onClick={() => onStatsChange(null)} className="px-2 h-7 text-xs">
+            Reset
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
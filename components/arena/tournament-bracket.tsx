@@ -0,0 +1,98 @@
+"use client"
+
+import type { MatchBracket, Tournament, TournamentMatch } from "@/lib/battle/tournament"
+
+export interface FighterInfo {
+  name: string
+  thumbnail: string
+}
+
+const BRACKET_LABELS: Record<MatchBracket, string> = {
+  winners: "Round",
+  losers: "Losers Round",
+  "grand-final": "Grand Final",
+  "round-robin": "Round",
+}
+
+interface TournamentBracketProps {
+  tournament: Tournament
+  fighters: Map<string, FighterInfo>
+  activeMatchId: string | null
+}
+
+function MatchCard({
+  match,
+  fighters,
+  active,
+}: {
+  match: TournamentMatch
+  fighters: Map<string, FighterInfo>
+  active: boolean
+}) {
+  return (
+    <div
+      className={`rounded border p-1.5 space-y-1 w-36 ${
+        active ? "border-cyan-400 bg-cyan-950" : match.status === "ready" ? "border-purple-500 bg-gray-700" : "border-gray-600 bg-gray-700"
+      }`}
+    >
+      {match.entrants.map((entrant, i) => {
+        if (entrant === undefined) {
+          return (
+            <p key={i} className="text-[10px] text-gray-500 italic h-5 leading-5">
+              TBD
+            </p>
+          )
+        }
+        if (entrant === null) {
+          return (
+            <p key={i} className="text-[10px] text-gray-600 italic h-5 leading-5">
+              bye
+            </p>
+          )
+        }
+
+        const fighter = fighters.get(entrant)
+        const isWinner = match.status === "complete" && match.winnerId === entrant
+        const isLoser = match.status === "complete" && !isWinner
+        return (
+          <div key={i} className="flex items-center gap-1 h-5">
+            <img src={fighter?.thumbnail || "/placeholder.svg"} alt="" className="w-4 h-4 rounded-full" />
+            <span
+              className={`text-[10px] flex-1 truncate ${
+                isWinner ? "text-green-400 font-semibold" : isLoser ? "text-gray-500 line-through" : ""
+              }`}
+            >
+              {fighter?.name ?? entrant}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// Matches laid out in columns, one per bracket round
+export function TournamentBracket({ tournament, fighters, activeMatchId }: TournamentBracketProps) {
+  const columns = new Map<string, { label: string; matches: TournamentMatch[] }>()
+  for (const match of tournament.matches) {
+    const key = `${match.bracket}-${match.round}`
+    const label = match.bracket === "grand-final" ? BRACKET_LABELS[match.bracket] : `${BRACKET_LABELS[match.bracket]} ${match.round}`
+    if (!columns.has(key)) columns.set(key, { label, matches: [] })
+    columns.get(key)!.matches.push(match)
+  }
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {[...columns.entries()].map(([key, column]) => (
+        <div key={key} className="flex flex-col gap-2 shrink-0">
+          <p className="text-xs text-gray-400 font-medium">{column.label}</p>
+          <div className="flex flex-col justify-around gap-2 flex-1">
+            {column.matches.map((match) => (
+              <MatchCard key={match.id} match={match} fighters={fighters} active={match.id === activeMatchId} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Crown, FastForward, Play, Swords, X } from "lucide-react"
+import { TournamentBracket, type FighterInfo } from "@/components/arena/tournament-bracket"
+import {
+  MAX_GROUP_SIZE,
+  MIN_GROUP_SIZE,
+  TOURNAMENT_FORMATS,
+  computeStandings,
+  isTournamentComplete,
+  nextMatch,
+  tournamentChampion,
+  type SeedingMode,
+  type Tournament,
+  type TournamentFormat,
+  type TournamentOptions,
+} from "@/lib/battle/tournament"
+
+interface TournamentPanelProps {
+  tournament: Tournament | null
+  fighters: Map<string, FighterInfo>
+  activeMatchId: string | null
+  // A battle is running, so no new match can start
+  busy: boolean
+  isSimulating: boolean
+  error: string | null
+  onCreate: (options: Omit<TournamentOptions, "seed">) => void
+  onPlayNext: () => void
+  onSimulateRest: () => void
+  onReset: () => void
+}
+
+const SEEDING_LABELS: Record<SeedingMode, string> = { upload: "Upload order", random: "Random draw" }
+
+export function TournamentPanel({
+  tournament,
+  fighters,
+  activeMatchId,
+  busy,
+  isSimulating,
+  error,
+  onCreate,
+  onPlayNext,
+  onSimulateRest,
+  onReset,
+}: TournamentPanelProps) {
+  const [format, setFormat] = useState<TournamentFormat>("single")
+  const [groupSize, setGroupSize] = useState(2)
+  const [seeding, setSeeding] = useState<SeedingMode>("random")
+
+  if (!tournament) {
+    return (
+      <Card className="bg-gray-800 border-gray-700 p-4">
+        <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Swords className="w-5 h-5" />
+          Tournament
+        </h3>
+
+        <div className="space-y-3 text-sm">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(TOURNAMENT_FORMATS) as TournamentFormat[]).map((id) => (
+              <Button key={id} size="sm" variant={id === format ? "default" : "outline"} onClick={() => setFormat(id)}>
+                {TOURNAMENT_FORMATS[id].name}
+              </Button>
+            ))}
+          </div>
+
+          {format === "single" && (
+            <div className="flex items-center gap-2">
+              <span className="text-gray-400 text-xs">Fighters per match:</span>
+              {Array.from({ length: MAX_GROUP_SIZE - MIN_GROUP_SIZE + 1 }, (_, i) => MIN_GROUP_SIZE + i).map((size) => (
+                <Button
+                  key={size}
+                  size="sm"
+                  variant={size === groupSize ? "default" : "ghost"}
+                  onClick={() => setGroupSize(size)}
+                  className="px-2 text-xs"
+                >
+                  {size === 2 ? "1v1" : size}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <span className="text-gray-400 text-xs">Seeding:</span>
+            {(Object.keys(SEEDING_LABELS) as SeedingMode[]).map((id) => (
+              <Button
+                key={id}
+                size="sm"
+                variant={id === seeding ? "default" : "ghost"}
+                onClick={() => setSeeding(id)}
+                className="px-2 text-xs"
+              >
+                {SEEDING_LABELS[id]}
+              </Button>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-400">
+            Up to {TOURNAMENT_FORMATS[format].maxParticipants} fighters. Uses every image in the arsenal.
+          </p>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          <Button
+            onClick={() => onCreate({ format, groupSize, seeding })}
+            disabled={busy || fighters.size < 2}
+            className="w-full bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-600 hover:to-purple-700"
+          >
+            <Swords className="w-4 h-4 mr-2" />
+            Build Bracket
+          </Button>
+        </div>
+      </Card>
+    )
+  }
+
+  const upcoming = nextMatch(tournament)
+  const complete = isTournamentComplete(tournament)
+  const championId = tournamentChampion(tournament)
+  const champion = championId ? fighters.get(championId) : null
+  const standings = computeStandings(tournament)
+
+  return (
+    <Card className="bg-gray-800 border-gray-700 p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Swords className="w-5 h-5" />
+          {TOURNAMENT_FORMATS[tournament.options.format].name}
+        </h3>
+
+        <div className="flex gap-2">
+          {!complete && (
+            <>
+              <Button size="sm" onClick={onPlayNext} disabled={busy || isSimulating || !upcoming}>
+                <Play className="w-4 h-4 mr-1" />
+                Next Match
+              </Button>
+              <Button size="sm" variant="outline" onClick={onSimulateRest} disabled={busy || isSimulating}>
+                <FastForward className="w-4 h-4 mr-1" />
+                {isSimulating ? "Simulating..." : "Simulate Rest"}
+              </Button>
+            </>
+          )}
+          <Button size="sm" variant="destructive" onClick={onReset} disabled={busy} title="End tournament">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {champion && (
+        <div className="flex items-center gap-3 mb-4 p-3 rounded bg-yellow-950 border border-yellow-600">
+          <Crown className="w-6 h-6 text-yellow-400" />
+          <img src={champion.thumbnail || "/placeholder.svg"} alt="" className="w-10 h-10 rounded-full" />
+          <div>
+            <p className="text-xs text-yellow-400">Tournament Champion</p>
+            <p className="font-semibold truncate">{champion.name}</p>
+          </div>
+        </div>
+      )}
+
+      <TournamentBracket tournament={tournament} fighters={fighters} activeMatchId={activeMatchId} />
+
+      <div className="mt-4">
+        <h4 className="text-sm font-semibold mb-2">Standings</h4>
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {standings.map((standing) => {
+            const fighter = fighters.get(standing.participantId)
+            return (
+              <div key={standing.participantId} className="flex items-center gap-2 text-xs p-1 rounded bg-gray-700">
+                <span className="w-6 text-gray-400">#{standing.rank}</span>
+                <img src={fighter?.thumbnail || "/placeholder.svg"} alt="" className="w-5 h-5 rounded-full" />
+                <span className={`flex-1 truncate ${standing.eliminated ? "text-gray-500" : ""}`}>
+                  {fighter?.name ?? standing.participantId}
+                </span>
+                <Badge variant="outline" className="text-green-400 border-green-400">
+                  {standing.wins}W
+                </Badge>
+                <Badge variant="outline" className="text-red-400 border-red-400">
+                  {standing.losses}L
+                </Badge>
+                <span className="w-12 text-right text-gray-400">{Math.round(standing.damage)}</span>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </Card>
+  )
+}
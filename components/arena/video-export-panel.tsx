@@ -0,0 +1,203 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Clapperboard, X } from "lucide-react"
+import { TICK_RATE } from "@/lib/battle/engine"
+import type { BattleReplay } from "@/lib/battle/replay"
+import { downloadFile } from "@/lib/download"
+import {
+  VIDEO_FPS,
+  VIDEO_RESOLUTIONS,
+  exportBattleVideo,
+  supportsWebm,
+  type VideoExportOptions,
+  type VideoFormat,
+} from "@/lib/video/export-video"
+
+interface VideoExportPanelProps {
+  replay: BattleReplay
+  images: ReadonlyMap<string, CanvasImageSource>
+  onClose: () => void
+}
+
+export function VideoExportPanel({ replay, images, onClose }: VideoExportPanelProps) {
+  const duration = Math.max(1, Math.ceil(replay.ticks / TICK_RATE))
+  const [webm, setWebm] = useState(false)
+  const [options, setOptions] = useState<VideoExportOptions>({
+    format: "gif",
+    width: VIDEO_RESOLUTIONS[0].width,
+    fps: VIDEO_FPS[0],
+    lastSeconds: Math.min(10, duration),
+    includeVictory: true,
+    effects: true,
+  })
+  const [progress, setProgress] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Feature detection needs the browser, so decide after mount
+  useEffect(() => {
+    const available = supportsWebm()
+    setWebm(available)
+    if (available) setOptions((prev) => ({ ...prev, format: "webm" }))
+  }, [])
+
+  // Cancel a running export when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const update = (changes: Partial<VideoExportOptions>) => setOptions((prev) => ({ ...prev, ...changes }))
+
+  const startExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setProgress(0)
+
+    try {
+      const blob = await exportBattleVideo(replay, images, options, {
+        onProgress: setProgress,
+        signal: controller.signal,
+      })
+      downloadFile(`battle-${replay.config.seed}.${options.format}`, blob, blob.type)
+    } catch (error) {
+      if (!controller.signal.aborted) setError(error instanceof Error ? error.message : "Export failed")
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const exporting = progress !== null
+
+  return (
+    <div className="mt-4 p-3 bg-gray-900 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold flex items-center gap-2">
+          <Clapperboard className="w-4 h-4" />
+          Export Video
+        </h4>
+        <Button size="sm" variant="ghost" onClick={onClose} className="p-1 h-auto">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-xs">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-400">Format</Label>
+          <div className="flex gap-1">
+            {(["webm", "gif"] as VideoFormat[]).map((format) => (
+              <Button
+                key={format}
+                size="sm"
+                variant={options.format === format ? "default" : "outline"}
+                disabled={exporting || (format === "webm" && !webm)}
+                onClick={() => update({ format })}
+                className="h-7 px-2 text-xs uppercase"
+              >
+                {format}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-400">Resolution</Label>
+          <div className="flex gap-1">
+            {VIDEO_RESOLUTIONS.map(({ label, width }) => (
+              <Button
+                key={width}
+                size="sm"
+                variant={options.width === width ? "default" : "outline"}
+                disabled={exporting}
+                onClick={() => update({ width })}
+                className="h-7 px-2 text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-400">Frame rate</Label>
+          <div className="flex gap-1">
+            {VIDEO_FPS.map((fps) => (
+              <Button
+                key={fps}
+                size="sm"
+                variant={options.fps === fps ? "default" : "outline"}
+                disabled={exporting}
+                onClick={() => update({ fps })}
+                className="h-7 px-2 text-xs"
+              >
+                {fps}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>Length</span>
+          <span>{options.lastSeconds === null ? `Whole battle (${duration}s)` : `Final ${options.lastSeconds}s`}</span>
+        </div>
+        <Slider
+          min={1}
+          max={duration}
+          step={1}
+          value={[options.lastSeconds ?? duration]}
+          disabled={exporting}
+          onValueChange={([seconds]) => update({ lastSeconds: seconds >= duration ? null : seconds })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="video-victory" className="text-xs text-gray-400">
+          End on the victory screen
+        </Label>
+        <Switch
+          id="video-victory"
+          checked={options.includeVictory}
+          disabled={exporting}
+          onCheckedChange={(includeVictory) => update({ includeVictory })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="video-effects" className="text-xs text-gray-400">
+          Hit effects
+        </Label>
+        <Switch
+          id="video-effects"
+          checked={options.effects}
+          disabled={exporting}
+          onCheckedChange={(effects) => update({ effects })}
+        />
+      </div>
+
+      {exporting ? (
+        <div className="flex items-center gap-3">
+          <Progress value={progress * 100} className="flex-1" />
+          <Button size="sm" variant="outline" onClick={() => abortRef.current?.abort()}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button size="sm" onClick={startExport} className="w-full">
+          Export {options.format.toUpperCase()}
+        </Button>
+      )}
+
+      {options.format === "webm" && !exporting && (
+        <p className="text-[10px] text-gray-500">WebM records in real time, keep this tab in the foreground.</p>
+      )}
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+"use client"
+
+import { DEFAULT_ABILITY_SETTINGS, abilitySettingsSchema } from "@/lib/battle/abilities"
+import { usePersistedSetting } from "@/hooks/use-persisted-setting"
+
+// Ability settings, persisted to localStorage
+export function useAbilitySettings() {
+  const [abilities, updateAbilities] = usePersistedSetting(
+    "combat-arena:abilities",
+    abilitySettingsSchema,
+    DEFAULT_ABILITY_SETTINGS,
+  )
+  return { abilities, updateAbilities }
+}
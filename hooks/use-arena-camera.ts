@@ -0,0 +1,203 @@
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { ArenaSize, DamageEvent, Entity } from "@/lib/battle/types"
+import {
+  FOLLOW_ZOOM,
+  FREE_FOCUS,
+  MIN_ZOOM,
+  createCameraRig,
+  overview,
+  viewToArena,
+  zoomAround,
+  type CameraFocus,
+  type CameraView,
+} from "@/lib/render/camera"
+
+// A wheel notch (100 deltaY) zooms by this factor
+const WHEEL_ZOOM_STEP = 1.2
+// Pointer travel (px) before a press turns into a pan rather than a click
+const PAN_THRESHOLD = 4
+
+interface PanGesture {
+  pointerId: number
+  clientX: number
+  clientY: number
+  view: CameraView
+  panning: boolean
+}
+
+// The viewer's camera over the arena: wheel zoom and drag-to-pan on the viewport, follow and director modes.
+// When the page draws, call update() every frame; when the battle worker draws, every change goes out through
+// onChange and the worker reports where its camera moved through receive().
+export function useArenaCamera(arena: ArenaSize, onChange: (view: CameraView, focus: CameraFocus) => void) {
+  const { width, height } = arena
+  const rigRef = useRef(createCameraRig(arena))
+  const focusRef = useRef<CameraFocus>(FREE_FOCUS)
+  const [focus, setFocus] = useState<CameraFocus>(FREE_FOCUS)
+  const [zoomed, setZoomed] = useState(false)
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const panRef = useRef<PanGesture | null>(null)
+  const onChangeRef = useRef(onChange)
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  })
+
+  // A resized arena starts from the overview, keeping the focus
+  useEffect(() => {
+    rigRef.current = createCameraRig({ width, height })
+    rigRef.current.setFocus(focusRef.current)
+    setZoomed(false)
+  }, [width, height])
+
+  const apply = useCallback((view: CameraView, next: CameraFocus) => {
+    const rig = rigRef.current
+    rig.setView(view)
+    if (next !== focusRef.current) rig.setFocus(next)
+    focusRef.current = next
+    setFocus(next)
+    setZoomed(rig.view.zoom > MIN_ZOOM)
+    onChangeRef.current({ ...rig.view }, next)
+  }, [])
+
+  // Read when drawing, it changes without re-rendering
+  const getView = useCallback(() => rigRef.current.view, [])
+
+  // Re-send the camera, for a freshly started worker
+  const sync = useCallback(() => onChangeRef.current({ ...rigRef.current.view }, focusRef.current), [])
+
+  // Zooming by hand ends the director's control, a followed fighter stays followed
+  const zoomBy = useCallback(
+    (factor: number, point?: { x: number; y: number }) => {
+      const { view } = rigRef.current
+      const next = focusRef.current.mode === "director" ? FREE_FOCUS : focusRef.current
+      apply(zoomAround(view, { width, height }, factor, point ?? view), next)
+    },
+    [apply, width, height],
+  )
+
+  const follow = useCallback(
+    (entityId: string | null) => {
+      const { view } = rigRef.current
+      if (!entityId) {
+        apply(view, FREE_FOCUS)
+        return
+      }
+      apply({ ...view, zoom: Math.max(view.zoom, FOLLOW_ZOOM) }, { mode: "follow", entityId })
+    },
+    [apply],
+  )
+
+  const direct = useCallback(
+    (on: boolean) => apply(rigRef.current.view, on ? { mode: "director" } : FREE_FOCUS),
+    [apply],
+  )
+
+  const reset = useCallback(() => apply(overview({ width, height }), FREE_FOCUS), [apply, width, height])
+
+  const centerOn = useCallback(
+    (point: { x: number; y: number }) => apply({ ...rigRef.current.view, ...point }, FREE_FOCUS),
+    [apply],
+  )
+
+  // Where the worker's camera went while following or directing
+  const receive = useCallback((view: CameraView) => {
+    rigRef.current.setView(view)
+    setZoomed(view.zoom > MIN_ZOOM)
+  }, [])
+
+  const update = useCallback((entities: readonly Entity[], damageEvents: readonly DamageEvent[], now: number) => {
+    const rig = rigRef.current
+    if (rig.update(entities, damageEvents, now)) setZoomed(rig.view.zoom > MIN_ZOOM)
+  }, [])
+
+  // Arena point under the pointer
+  const toArena = useCallback(
+    (e: { clientX: number; clientY: number }, element: Element) => {
+      const rect = element.getBoundingClientRect()
+      return viewToArena(
+        rigRef.current.view,
+        { width, height },
+        (e.clientX - rect.left) / rect.width,
+        (e.clientY - rect.top) / rect.height,
+      )
+    },
+    [width, height],
+  )
+
+  // Non-passive, so the page doesn't scroll while zooming
+  useEffect(() => {
+    const element = viewportRef.current
+    if (!element) return
+
+    const handleWheel = (e: WheelEvent) => {
+      const factor = WHEEL_ZOOM_STEP ** (-e.deltaY / 100)
+      // Fully zoomed out, scrolling on moves the page as usual
+      if (factor < 1 && rigRef.current.view.zoom <= MIN_ZOOM) return
+      e.preventDefault()
+      zoomBy(factor, toArena(e, element))
+    }
+
+    element.addEventListener("wheel", handleWheel, { passive: false })
+    return () => element.removeEventListener("wheel", handleWheel)
+  }, [zoomBy, toArena])
+
+  // Tools on the canvas stop propagation for the presses they handle, the rest pan the view
+  const viewportHandlers = useMemo(
+    () => ({
+      onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.button !== 0 && e.button !== 1) return
+        const { clientX, clientY, pointerId } = e
+        panRef.current = { pointerId, clientX, clientY, view: { ...rigRef.current.view }, panning: false }
+      },
+      onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+        const pan = panRef.current
+        if (!pan || pan.pointerId !== e.pointerId || pan.view.zoom <= MIN_ZOOM) return
+
+        const dx = e.clientX - pan.clientX
+        const dy = e.clientY - pan.clientY
+        if (!pan.panning) {
+          if (Math.hypot(dx, dy) < PAN_THRESHOLD) return
+          pan.panning = true
+          e.currentTarget.setPointerCapture(e.pointerId)
+        }
+
+        const rect = e.currentTarget.getBoundingClientRect()
+        apply(
+          {
+            x: pan.view.x - (dx / rect.width) * (width / pan.view.zoom),
+            y: pan.view.y - (dy / rect.height) * (height / pan.view.zoom),
+            zoom: pan.view.zoom,
+          },
+          FREE_FOCUS,
+        )
+      },
+      onPointerUp: () => {
+        panRef.current = null
+      },
+      onPointerCancel: () => {
+        panRef.current = null
+      },
+    }),
+    [apply, width, height],
+  )
+
+  return {
+    getView,
+    focus,
+    zoomed,
+    viewportRef,
+    viewportHandlers,
+    zoomBy,
+    follow,
+    direct,
+    reset,
+    centerOn,
+    receive,
+    update,
+    sync,
+    toArena,
+  }
+}
@@ -0,0 +1,290 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { BattleConfig, BattleState, Entity } from "@/lib/battle/types"
+import { applyDelta, diffState, interpolateEntities } from "@/lib/rooms/delta"
+import {
+  MAX_CHAT_LENGTH,
+  isHostMessage,
+  type ChatMessage,
+  type RoomMessage,
+  type RoomPhase,
+} from "@/lib/rooms/protocol"
+import { connectRoom, createRoomId, type RoomTransport } from "@/lib/rooms/transport"
+
+// Spectators check in this often; the host forgets them after a few missed check-ins
+const HEARTBEAT_MS = 5000
+const PEER_TIMEOUT_MS = HEARTBEAT_MS * 3
+const MAX_CHAT_MESSAGES = 50
+
+export type RoomRole = "host" | "spectator"
+
+export type RoomSnapshot = Omit<Extract<RoomMessage, { type: "snapshot" }>, "type" | "peerId">
+
+interface BattleRoomHandlers {
+  // Host: the full picture for spectators that just joined or fell out of sync
+  getSnapshot: () => RoomSnapshot
+  // Spectator: a fresh start, then every state the host streams
+  onSnapshot: (snapshot: RoomSnapshot) => void
+  onState: (state: BattleState) => void
+  onPhase: (phase: RoomPhase) => void
+  // Spectator: the host closed the room
+  onClosed: () => void
+}
+
+// Shared battle room: the host streams its battle, spectators follow it and everyone chats
+export function useBattleRoom(handlers: BattleRoomHandlers) {
+  const [room, setRoom] = useState<{ id: string; role: RoomRole } | null>(null)
+  const [spectators, setSpectators] = useState(0)
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [peerId] = useState(createRoomId)
+
+  const transportRef = useRef<RoomTransport | null>(null)
+  const handlersRef = useRef(handlers)
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  // Host: last time each spectator was heard from, and what they were last sent
+  const peersRef = useRef(new Map<string, number>())
+  const sentRef = useRef<{ config: BattleConfig | null; state: BattleState | null } | null>(null)
+
+  // Spectator: peer id of the room's host, taken from its first snapshot
+  const hostRef = useRef<string | null>(null)
+
+  // Spectator: the two latest states, drawn in between so 10 updates a second still look smooth
+  const streamRef = useRef<{ previous: BattleState; current: BattleState; arrivedAt: number; interval: number } | null>(
+    null,
+  )
+
+  const send = useCallback((message: RoomMessage) => transportRef.current?.send(message), [])
+
+  const addMessage = useCallback((message: ChatMessage) => {
+    setMessages((prev) => [...prev, message].slice(-MAX_CHAT_MESSAGES))
+  }, [])
+
+  const updatePresence = useCallback(() => {
+    setSpectators(peersRef.current.size)
+    send({ type: "presence", peerId, spectators: peersRef.current.size })
+  }, [send, peerId])
+
+  const sendSnapshot = useCallback(() => {
+    const snapshot = handlersRef.current.getSnapshot()
+    send({ type: "snapshot", peerId, ...snapshot })
+    // Deltas are diffed against a copy - the page keeps writing worker frames into its own state
+    sentRef.current = { config: snapshot.config, state: snapshot.state && structuredClone(snapshot.state) }
+  }, [send, peerId])
+
+  const handleHostMessage = useCallback(
+    (message: RoomMessage) => {
+      switch (message.type) {
+        case "join":
+          peersRef.current.set(message.peerId, Date.now())
+          updatePresence()
+          sendSnapshot()
+          break
+        case "heartbeat": {
+          const known = peersRef.current.has(message.peerId)
+          peersRef.current.set(message.peerId, Date.now())
+          if (!known) updatePresence()
+          break
+        }
+        case "leave":
+          if (peersRef.current.delete(message.peerId)) updatePresence()
+          break
+        case "chat":
+          addMessage(message.message)
+          break
+      }
+    },
+    [updatePresence, sendSnapshot, addMessage],
+  )
+
+  const handleSpectatorMessage = useCallback(
+    (message: RoomMessage) => {
+      // Only the host streams the battle or closes the room, anyone else sending those is ignored
+      if (isHostMessage(message)) {
+        if (message.type === "snapshot") hostRef.current ??= message.peerId
+        if (message.peerId !== hostRef.current) return
+      }
+      switch (message.type) {
+        case "snapshot":
+          streamRef.current = message.state
+            ? { previous: message.state, current: message.state, arrivedAt: performance.now(), interval: 1 }
+            : null
+          handlersRef.current.onSnapshot(message)
+          break
+        case "delta": {
+          const stream = streamRef.current
+          if (!stream) break
+          const next = applyDelta(stream.current, message.delta)
+          if (!next) {
+            // Missed an update - ask the host for a fresh snapshot
+            streamRef.current = null
+            send({ type: "join", peerId })
+            break
+          }
+          const now = performance.now()
+          streamRef.current = { previous: stream.current, current: next, arrivedAt: now, interval: now - stream.arrivedAt }
+          handlersRef.current.onState(next)
+          break
+        }
+        case "phase":
+          // Nothing left to stream until the host's next battle sends a fresh snapshot
+          if (message.phase.status === "PRE_BATTLE") streamRef.current = null
+          handlersRef.current.onPhase(message.phase)
+          break
+        case "presence":
+          setSpectators(message.spectators)
+          break
+        case "chat":
+          addMessage(message.message)
+          break
+        case "closed":
+          handlersRef.current.onClosed()
+          break
+      }
+    },
+    [send, peerId, addMessage],
+  )
+
+  const disconnect = useCallback(() => {
+    transportRef.current?.close()
+    transportRef.current = null
+    peersRef.current.clear()
+    sentRef.current = null
+    hostRef.current = null
+    streamRef.current = null
+    setRoom(null)
+    setSpectators(0)
+    setMessages([])
+  }, [])
+
+  // Open a new room with this tab as the host, returns its id
+  const hostRoom = useCallback(() => {
+    disconnect()
+    const id = createRoomId()
+    transportRef.current = connectRoom(id, handleHostMessage)
+    setRoom({ id, role: "host" })
+    return id
+  }, [disconnect, handleHostMessage])
+
+  const joinRoom = useCallback(
+    (id: string) => {
+      disconnect()
+      transportRef.current = connectRoom(id, handleSpectatorMessage)
+      setRoom({ id, role: "spectator" })
+      send({ type: "join", peerId })
+    },
+    [disconnect, handleSpectatorMessage, send, peerId],
+  )
+
+  const leaveRoom = useCallback(() => {
+    if (room) send({ type: room.role === "host" ? "closed" : "leave", peerId })
+    disconnect()
+  }, [room, send, peerId, disconnect])
+
+  // Spectators check in, the host forgets spectators that went quiet
+  useEffect(() => {
+    if (!room) return
+    const timer = setInterval(() => {
+      if (room.role === "spectator") {
+        send({ type: "heartbeat", peerId })
+        return
+      }
+      const cutoff = Date.now() - PEER_TIMEOUT_MS
+      let removed = false
+      for (const [id, lastSeen] of peersRef.current) {
+        if (lastSeen < cutoff) removed = peersRef.current.delete(id)
+      }
+      if (removed) updatePresence()
+    }, HEARTBEAT_MS)
+    return () => clearInterval(timer)
+  }, [room, send, peerId, updatePresence])
+
+  // Say goodbye when the tab goes away
+  useEffect(() => {
+    window.addEventListener("pagehide", leaveRoom)
+    return () => window.removeEventListener("pagehide", leaveRoom)
+  }, [leaveRoom])
+
+  useEffect(() => () => transportRef.current?.close(), [])
+
+  // Host: stream the latest battle state, as a delta when spectators already have the one before
+  const publishState = useCallback(
+    (config: BattleConfig | null, state: BattleState) => {
+      if (room?.role !== "host" || peersRef.current.size === 0) return
+
+      const sent = sentRef.current
+      if (!sent?.state || sent.config !== config || state.tick < sent.state.tick) {
+        sendSnapshot()
+        return
+      }
+      send({ type: "delta", peerId, delta: diffState(sent.state, state) })
+      sent.state = structuredClone(state)
+    },
+    [room, send, sendSnapshot, peerId],
+  )
+
+  const publishPhase = useCallback(
+    (phase: RoomPhase) => {
+      if (room?.role === "host") send({ type: "phase", peerId, phase })
+    },
+    [room, send, peerId],
+  )
+
+  // Spectator: entities to draw right now, between the two latest states
+  const sampleEntities = useCallback((now: number): Entity[] | null => {
+    const stream = streamRef.current
+    if (!stream) return null
+    const t = Math.min(1, (now - stream.arrivedAt) / Math.max(1, stream.interval))
+    return interpolateEntities(stream.previous.entities, stream.current.entities, t)
+  }, [])
+
+  const sendChat = useCallback(
+    (kind: ChatMessage["kind"], text: string) => {
+      const trimmed = text.trim().slice(0, MAX_CHAT_LENGTH)
+      if (!room || !trimmed) return
+      const message: ChatMessage = {
+        id: createRoomId(),
+        peerId,
+        author: room.role === "host" ? "Host" : `Spectator ${peerId.slice(0, 4)}`,
+        kind,
+        text: trimmed,
+        at: Date.now(),
+      }
+      send({ type: "chat", message })
+      addMessage(message)
+    },
+    [room, peerId, send, addMessage],
+  )
+
+  return useMemo(
+    () => ({
+      room,
+      peerId,
+      spectators,
+      messages,
+      hostRoom,
+      joinRoom,
+      leaveRoom,
+      publishState,
+      publishPhase,
+      sampleEntities,
+      sendChat,
+    }),
+    [
+      room,
+      peerId,
+      spectators,
+      messages,
+      hostRoom,
+      joinRoom,
+      leaveRoom,
+      publishState,
+      publishPhase,
+      sampleEntities,
+      sendChat,
+    ],
+  )
+}
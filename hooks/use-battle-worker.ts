@@ -0,0 +1,151 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef } from "react"
+import type { RecordedSteering } from "@/lib/battle/behaviours"
+import type { BattleTimeline } from "@/lib/battle/timeline"
+import type { BattleConfig, BattleState } from "@/lib/battle/types"
+import type { CameraView } from "@/lib/render/camera"
+import type { EffectsSettings } from "@/lib/render/effects"
+import type { RendererBackend, RendererPreference } from "@/lib/render/renderer"
+import type { WorkerRequest, WorkerResponse } from "@/lib/battle/worker-protocol"
+
+interface BattleWorkerHandlers {
+  onSnapshot: (state: BattleState) => void
+  onFrame: (buffer: Float32Array) => void
+  onTimeline: (timeline: BattleTimeline) => void
+  onSteering: (steering: RecordedSteering) => void
+  onCamera: (view: CameraView) => void
+  onRenderer: (backend: RendererBackend) => void
+  // The battle can't go on, the worker has already been stopped
+  onError: (message: string) => void
+}
+
+// A running battle whose worker goes this long without a word is stuck, most likely in a custom strategy
+const STALL_TIMEOUT_MS = 2000
+
+// Owns the battle worker for the current battle
+export function useBattleWorker(handlers: BattleWorkerHandlers) {
+  const workerRef = useRef<Worker | null>(null)
+  const handlersRef = useRef(handlers)
+  // Watchdog state: whether the battle clock runs, when the worker last spoke and how to end it
+  const runningRef = useRef(false)
+  const lastHeardRef = useRef(0)
+  const failRef = useRef<((message: string) => void) | null>(null)
+
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    runningRef.current = false
+    failRef.current = null
+  }, [])
+
+  const post = useCallback((message: WorkerRequest) => {
+    if (message.type === "running") {
+      runningRef.current = message.running
+      lastHeardRef.current = performance.now()
+    }
+    workerRef.current?.postMessage(message)
+  }, [])
+
+  // Start a battle in a fresh worker; resolves to true when the worker draws the canvas itself
+  const start = useCallback(
+    async (
+      config: BattleConfig,
+      canvas: HTMLCanvasElement | null,
+      images: Map<string, HTMLImageElement>,
+      effects: EffectsSettings,
+      renderer: RendererPreference,
+    ) => {
+      stop()
+
+      const worker = new Worker(new URL("../lib/battle/battle.worker.ts", import.meta.url))
+      // Only the current battle's worker may end it, a newer start may have replaced this one already
+      const fail = (message: string) => {
+        if (workerRef.current !== worker) return
+        stop()
+        handlersRef.current.onError(message)
+      }
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data
+        lastHeardRef.current = performance.now()
+        switch (message.type) {
+          case "snapshot":
+            // The worker stops ticking once the battle ends, silence from then on is expected
+            if (message.state.ended) runningRef.current = false
+            handlersRef.current.onSnapshot(message.state)
+            break
+          case "frame":
+            handlersRef.current.onFrame(message.buffer)
+            break
+          case "timeline":
+            handlersRef.current.onTimeline(message.timeline)
+            break
+          case "steering":
+            handlersRef.current.onSteering(message.steering)
+            break
+          case "camera":
+            handlersRef.current.onCamera(message.view)
+            break
+          case "renderer":
+            handlersRef.current.onRenderer(message.backend)
+            break
+          case "error":
+            fail(message.message)
+            break
+        }
+      }
+      // Errors thrown outside the worker's own guards, like a failed script load
+      worker.onerror = (event) => {
+        event.preventDefault()
+        fail(event.message || "The battle worker crashed")
+      }
+      worker.onmessageerror = () => fail("Could not read a message from the battle worker")
+      workerRef.current = worker
+      failRef.current = fail
+
+      try {
+        // A canvas can only hand over control once, callers must remount it between battles
+        const offscreen =
+          canvas && typeof canvas.transferControlToOffscreen === "function" ? canvas.transferControlToOffscreen() : null
+        const bitmaps = offscreen
+          ? await Promise.all([...images].map(async ([id, img]) => ({ id, bitmap: await createImageBitmap(img) })))
+          : []
+
+        const transfer: Transferable[] = bitmaps.map(({ bitmap }) => bitmap)
+        if (offscreen) transfer.push(offscreen)
+        worker.postMessage(
+          { type: "init", config, canvas: offscreen, images: bitmaps, effects, renderer } satisfies WorkerRequest,
+          transfer,
+        )
+
+        return offscreen !== null
+      } catch (error) {
+        fail(error instanceof Error ? error.message : "Could not start the battle worker")
+        return false
+      }
+    },
+    [stop],
+  )
+
+  // A worker can't interrupt a script stuck in a loop, so the page ends the whole battle when the ticks stop coming
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const now = performance.now()
+      // Hidden tabs pause the worker's frames, that isn't a hang
+      if (document.hidden || !runningRef.current) lastHeardRef.current = now
+      else if (now - lastHeardRef.current > STALL_TIMEOUT_MS) {
+        failRef.current?.("The battle stopped responding, a custom strategy may be stuck in a loop")
+      }
+    }, STALL_TIMEOUT_MS / 4)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Terminate the worker when the page unmounts
+  useEffect(() => stop, [stop])
+
+  return useMemo(() => ({ start, post, stop }), [start, post, stop])
+}
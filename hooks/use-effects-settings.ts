@@ -0,0 +1,14 @@
+"use client"
+
+import { DEFAULT_EFFECTS_SETTINGS, effectsSettingsSchema } from "@/lib/render/effects"
+import { usePersistedSetting } from "@/hooks/use-persisted-setting"
+
+// Visual effects settings, persisted to localStorage
+export function useEffectsSettings() {
+  const [effects, updateEffects] = usePersistedSetting(
+    "combat-arena:effects",
+    effectsSettingsSchema,
+    DEFAULT_EFFECTS_SETTINGS,
+  )
+  return { effects, updateEffects }
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { BattleState } from "@/lib/battle/types"
+import { isIndexedDbAvailable } from "@/lib/storage/indexed-db"
+import {
+  applyBattleResult,
+  clearFighterRecords,
+  loadFighterRecords,
+  saveFighterRecords,
+  type FighterIdentity,
+  type FighterRecord,
+} from "@/lib/storage/fighter-records"
+
+// Career records for every fighter that has battled, persisted to IndexedDB
+export function useFighterRecords() {
+  const [records, setRecords] = useState<ReadonlyMap<string, FighterRecord>>(new Map())
+  // Battles can finish back to back (simulated tournaments), so updates build on the latest records, not a render
+  const recordsRef = useRef(records)
+
+  const publish = useCallback((next: ReadonlyMap<string, FighterRecord>) => {
+    recordsRef.current = next
+    setRecords(next)
+  }, [])
+
+  useEffect(() => {
+    if (!isIndexedDbAvailable()) return
+
+    loadFighterRecords()
+      .then((stored) => {
+        // Battles recorded while loading win over what was stored
+        publish(new Map([...stored.map((record) => [record.fighterId, record] as const), ...recordsRef.current]))
+      })
+      .catch(() => {
+        // Unreadable storage starts fresh records for this session
+      })
+  }, [publish])
+
+  const recordBattle = useCallback(
+    (state: Pick<BattleState, "entities" | "killFeed" | "ended">, fighters: ReadonlyMap<string, FighterIdentity>) => {
+      const updated = applyBattleResult(recordsRef.current, state, fighters)
+      if (updated.length === 0) return
+
+      publish(new Map([...recordsRef.current, ...updated.map((record) => [record.fighterId, record] as const)]))
+      saveFighterRecords(updated).catch(() => {
+        // Storage can be full or disabled, the leaderboard still updates for this session
+      })
+    },
+    [publish],
+  )
+
+  const resetRecords = useCallback(() => {
+    publish(new Map())
+    clearFighterRecords().catch(() => {
+      // The old records come back after a refresh
+    })
+  }, [publish])
+
+  return { records, recordBattle, resetRecords }
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { z } from "zod"
+
+// A setting persisted to localStorage, restored only while it still matches the schema
+export function usePersistedSetting<T>(key: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, fallback: T) {
+  const [value, setValue] = useState<T>(fallback)
+
+  // Restore after mount so server and client render the same defaults
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(key)
+      if (!stored) return
+      const result = schema.safeParse(JSON.parse(stored))
+      if (result.success) setValue(result.data)
+    } catch {
+      // Ignore unreadable storage and keep the default
+    }
+  }, [key, schema])
+
+  const update = useCallback(
+    (next: T) => {
+      setValue(next)
+      try {
+        localStorage.setItem(key, JSON.stringify(next))
+      } catch {
+        // Storage can be full or disabled, the setting still applies for this session
+      }
+    },
+    [key],
+  )
+
+  return [value, update] as const
+}
@@ -0,0 +1,14 @@
+"use client"
+
+import { DEFAULT_PICKUP_SETTINGS, pickupSettingsSchema } from "@/lib/battle/pickups"
+import { usePersistedSetting } from "@/hooks/use-persisted-setting"
+
+// Pickup spawn settings, persisted to localStorage
+export function usePickupSettings() {
+  const [pickups, updatePickups] = usePersistedSetting(
+    "combat-arena:pickups",
+    pickupSettingsSchema,
+    DEFAULT_PICKUP_SETTINGS,
+  )
+  return { pickups, updatePickups }
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { useCallback, useState } from "react"
+import { z } from "zod"
+import { usePersistedSetting } from "@/hooks/use-persisted-setting"
+import {
+  STARTING_POINTS,
+  settlePrediction,
+  type PredictionResult,
+  type PredictionTicket,
+} from "@/lib/battle/predictions"
+import type { BattleState } from "@/lib/battle/types"
+
+// A spent balance of 0 is real, going bust doesn't refill it
+const pointsSchema = z.number().finite().nonnegative()
+
+// This viewer's virtual points (persisted to localStorage) and their ticket for the current battle
+export function usePredictions() {
+  const [points, updatePoints] = usePersistedSetting("combat-arena:prediction-points", pointsSchema, STARTING_POINTS)
+  const [ticket, setTicket] = useState<PredictionTicket | null>(null)
+  const [result, setResult] = useState<PredictionResult | null>(null)
+
+  const placeTicket = useCallback(
+    (next: PredictionTicket) => {
+      if (ticket || next.stake > points) return
+      setTicket(next)
+      updatePoints(points - next.stake)
+    },
+    [ticket, points, updatePoints],
+  )
+
+  // Pay out once the battle is over
+  const settle = useCallback(
+    (state: Pick<BattleState, "entities" | "killFeed" | "ended">) => {
+      if (!ticket || result) return
+      const settled = settlePrediction(ticket, state)
+      setResult(settled)
+      updatePoints(points + settled.payout)
+    },
+    [ticket, result, points, updatePoints],
+  )
+
+  // Between battles: an unsettled stake comes back (the battle was stopped), and the last result is cleared
+  const closeRound = useCallback(() => {
+    if (ticket && !result) updatePoints(points + ticket.stake)
+    setTicket(null)
+    setResult(null)
+  }, [ticket, result, points, updatePoints])
+
+  const resetPoints = useCallback(() => updatePoints(STARTING_POINTS), [updatePoints])
+
+  return { points, ticket, result, placeTicket, settle, closeRound, resetPoints }
+}
@@ -0,0 +1,14 @@
+"use client"
+
+import { DEFAULT_RANGED_SETTINGS, rangedSettingsSchema } from "@/lib/battle/projectiles"
+import { usePersistedSetting } from "@/hooks/use-persisted-setting"
+
+// Ranged weapon settings, persisted to localStorage
+export function useRangedSettings() {
+  const [ranged, updateRanged] = usePersistedSetting(
+    "combat-arena:ranged",
+    rangedSettingsSchema,
+    DEFAULT_RANGED_SETTINGS,
+  )
+  return { ranged, updateRanged }
+}
@@ -0,0 +1,10 @@
+"use client"
+
+import { rendererPreferenceSchema } from "@/lib/render/renderer"
+import { usePersistedSetting } from "@/hooks/use-persisted-setting"
+
+// Preferred arena renderer, persisted to localStorage
+export function useRendererPreference() {
+  const [renderer, updateRenderer] = usePersistedSetting("combat-arena:renderer", rendererPreferenceSchema, "auto")
+  return { renderer, updateRenderer }
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { isIndexedDbAvailable } from "@/lib/storage/indexed-db"
+import {
+  isRosterImageChanged,
+  loadRoster,
+  removeRosterImages,
+  saveRosterImages,
+  type RosterImage,
+} from "@/lib/storage/roster"
+
+// Keeps the uploaded roster in IndexedDB: restores it once after mount, then writes only what changed
+export function useRosterStorage(images: readonly RosterImage[], onRestore: (images: RosterImage[]) => void) {
+  const [restored, setRestored] = useState(false)
+  // What the database holds, by id
+  const savedRef = useRef(new Map<string, RosterImage>())
+  const onRestoreRef = useRef(onRestore)
+  onRestoreRef.current = onRestore
+
+  useEffect(() => {
+    if (!isIndexedDbAvailable()) return
+
+    let cancelled = false
+    loadRoster()
+      .then((stored) => {
+        if (cancelled) return
+        savedRef.current = new Map(stored.map((image) => [image.id, image]))
+        if (stored.length > 0) onRestoreRef.current(stored)
+      })
+      .catch(() => {
+        // Unreadable storage starts an empty roster that still saves from here on
+      })
+      .finally(() => {
+        if (!cancelled) setRestored(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Saving before the restore finished would delete the stored roster
+  useEffect(() => {
+    if (!restored) return
+
+    const current = new Map(images.map((image) => [image.id, image]))
+    // The page's copies of restored images are new objects, so compare what would be stored
+    const changed = images.filter((image) => isRosterImageChanged(savedRef.current.get(image.id), image))
+    const removed = [...savedRef.current.keys()].filter((id) => !current.has(id))
+    savedRef.current = current
+
+    if (changed.length > 0) {
+      saveRosterImages(changed).catch(() => {
+        // Storage can be full or disabled, the roster still works for this session
+      })
+    }
+    if (removed.length > 0) {
+      removeRosterImages(removed).catch(() => {
+        // A failed delete only brings the image back after a refresh
+      })
+    }
+  }, [images, restored])
+
+  return { restored }
+}
@@ -0,0 +1,14 @@
+"use client"
+
+import { useCallback } from "react"
+import { DEFAULT_RULES, RULE_PRESETS, ruleSetSchema, type RulePresetId } from "@/lib/battle/rules"
+import { usePersistedSetting } from "@/hooks/use-persisted-setting"
+
+// Active rule set, persisted to localStorage
+export function useRuleSet() {
+  const [rules, updateRules] = usePersistedSetting("combat-arena:rule-set", ruleSetSchema, DEFAULT_RULES)
+
+  const applyPreset = useCallback((id: RulePresetId) => updateRules(RULE_PRESETS[id].rules), [updateRules])
+
+  return { rules, updateRules, applyPreset }
+}
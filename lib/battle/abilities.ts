@@ -0,0 +1,60 @@
+import { z } from "zod"
+
+export type AbilityId = "dash" | "knockback" | "regen" | "thorns" | "decoy" | "projectile"
+
+// Each ability fires on its own as soon as it's off cooldown and its trigger holds
+export const ABILITIES: Record<
+  AbilityId,
+  { name: string; color: string; cooldownMs: number; durationMs: number; trigger: string }
+> = {
+  dash: { name: "Dash", color: "#00ffff", cooldownMs: 5000, durationMs: 0, trigger: "An enemy is in range" },
+  knockback: {
+    name: "Knockback",
+    color: "#ff8000",
+    cooldownMs: 7000,
+    durationMs: 0,
+    trigger: "Crowded, or cornered while hurt",
+  },
+  regen: { name: "Regen", color: "#00ff80", cooldownMs: 12000, durationMs: 4000, trigger: "Below half health" },
+  thorns: { name: "Thorns", color: "#ff0080", cooldownMs: 10000, durationMs: 3000, trigger: "Taking a hit" },
+  decoy: { name: "Decoy", color: "#c080ff", cooldownMs: 15000, durationMs: 4000, trigger: "Hurt with an enemy close" },
+  projectile: { name: "Bolt", color: "#ffff00", cooldownMs: 2500, durationMs: 0, trigger: "An enemy is in range" },
+}
+
+export const ABILITY_IDS = Object.keys(ABILITIES) as AbilityId[]
+
+// Dash: burst of speed towards the nearest enemy
+export const DASH_RANGE = 350
+export const DASH_SPEED = 18
+// Knockback: push nearby enemies away and chip them
+export const KNOCKBACK_RADIUS = 140
+export const KNOCKBACK_FORCE = 12
+export const KNOCKBACK_DAMAGE = 5
+// Regen: share of max health restored over the ability's duration
+export const REGEN_FRACTION = 0.25
+// Thorns: share of contact damage sent back to the attacker
+export const THORNS_REFLECT = 0.5
+// Decoy: triggers below this share of health, with an enemy this close
+export const DECOY_HEALTH = 0.35
+export const DECOY_RANGE = 250
+// Bolt: straight shot at the nearest enemy, leading its movement (see PROJECTILE_KINDS)
+export const BOLT_RANGE = 450
+
+// How long the one-off abilities (dash, knockback, bolt) flash on the canvas
+export const ABILITY_FLASH_MS = 300
+
+export const abilitySettingsSchema = z.object({
+  enabled: z.boolean(),
+  // Distinct abilities rolled for each fighter
+  perEntity: z.number().int().min(1).max(2),
+  // Multiplies every cooldown, lower is more hectic
+  cooldownScale: z.number().min(0.25).max(4),
+})
+
+export type AbilitySettings = z.infer<typeof abilitySettingsSchema>
+
+export const DEFAULT_ABILITY_SETTINGS: AbilitySettings = {
+  enabled: true,
+  perEntity: 1,
+  cooldownScale: 1,
+}
@@ -0,0 +1,22 @@
+import type { ArenaSize } from "./types"
+
+// Calculate optimal arena size based on entity count
+export function calculateArenaSize(entityCount: number): ArenaSize {
+  if (entityCount <= 50) return { width: 1200, height: 800 }
+  if (entityCount <= 150) return { width: 1600, height: 1000 }
+  if (entityCount <= 300) return { width: 1920, height: 1200 }
+  return { width: 2560, height: 1440 }
+}
+
+// Calculate entity size based on count
+export function calculateEntitySize(entityCount: number, random: () => number = Math.random) {
+  if (entityCount <= 100) return 60 + random() * 20
+  if (entityCount <= 250) return 50 + random() * 20
+  if (entityCount <= 400) return 40 + random() * 20
+  return 35 + random() * 20
+}
+
+// Upper bound of calculateEntitySize for a given count
+export function maxEntitySize(entityCount: number) {
+  return calculateEntitySize(entityCount, () => 1)
+}
@@ -0,0 +1,172 @@
+import { z } from "zod"
+
+import { abilitySettingsSchema } from "./abilities"
+import { calculateArenaSize } from "./arena"
+import { behaviourIdSchema } from "./behaviours"
+import { DEFAULT_MAX_TICKS, ENGINE_VERSION, TICK_RATE, createBattleEngine } from "./engine"
+import { interventionEventSchema } from "./interventions"
+import { ARENA_MAPS, arenaMapSchema, type ArenaMapId } from "./maps"
+import { pickupSettingsSchema } from "./pickups"
+import { rangedSettingsSchema } from "./projectiles"
+import { statProfileSchema } from "./profiles"
+import { createReplay, type BattleReplay } from "./replay"
+import { buildBattleReport, type EntityReport } from "./report"
+import { randomSeed } from "./rng"
+import { RULE_PRESETS, ruleSetSchema, type RulePresetId } from "./rules"
+import { createTimelineRecorder, type BattleTimeline } from "./timeline"
+import type { BattleConfig } from "./types"
+
+// Headless battles requested over HTTP (app/api/battles)
+
+// Same cap as the upload UI
+export const MAX_ROSTER_SIZE = 500
+const MAX_ARENA_SIDE = 4096
+const MAX_INTERVENTIONS = 1000
+// Fighter-ticks one request may ask for (roster size × maxTicks), so a single request can't hold the server for
+// minutes: a full 500 roster gets 4000 ticks, a 50 fighter one the whole default limit
+export const MAX_BATTLE_WORK = 2_000_000
+// Wall-clock limit on a single simulation, checked every second of battle time
+export const BATTLE_DEADLINE_MS = 10_000
+
+const presetIds = Object.keys(RULE_PRESETS) as [RulePresetId, ...RulePresetId[]]
+const mapIds = Object.keys(ARENA_MAPS) as [ArenaMapId, ...ArenaMapId[]]
+
+const battleRequestSchema = z.object({
+  roster: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().optional(),
+        // Image reference (URL or data URL) - carried into the replay, never fetched on the server
+        src: z.string().optional(),
+        teamId: z.string().optional(),
+        stats: statProfileSchema.optional(),
+        // Built-in behaviours only - the server never runs user strategy scripts
+        behaviour: behaviourIdSchema.exclude(["custom"]).optional(),
+      }),
+    )
+    .min(1)
+    .max(MAX_ROSTER_SIZE)
+    .refine((roster) => new Set(roster.map((entry) => entry.id)).size === roster.length, "Roster ids must be unique"),
+  // Random when left out; the response always says which seed ran
+  seed: z.number().int().nonnegative().max(0xffffffff).optional(),
+  // A preset id or a full rule set
+  rules: z.union([z.enum(presetIds), ruleSetSchema]).optional(),
+  friendlyFire: z.boolean().optional(),
+  pickups: pickupSettingsSchema.optional(),
+  abilities: abilitySettingsSchema.optional(),
+  ranged: rangedSettingsSchema.optional(),
+  // A built-in map id or a full map
+  map: z.union([z.enum(mapIds), arenaMapSchema]).optional(),
+  // Sized for the roster like the UI when left out
+  arena: z
+    .object({
+      width: z.number().positive().max(MAX_ARENA_SIDE),
+      height: z.number().positive().max(MAX_ARENA_SIDE),
+    })
+    .optional(),
+  // Scripted god-mode interventions, each applied on its tick
+  interventions: z.array(interventionEventSchema).max(MAX_INTERVENTIONS).optional(),
+  // Battles still running after this many ticks are cut short (ended: false)
+  maxTicks: z.number().int().positive().max(DEFAULT_MAX_TICKS).optional(),
+  // The timeline can be large, so it is opt-in
+  includeTimeline: z.boolean().optional(),
+})
+
+export type BattleRequest = z.infer<typeof battleRequestSchema>
+
+export interface BattleResponse {
+  engineVersion: number
+  seed: number
+  result: {
+    ended: boolean
+    // Cut short by BATTLE_DEADLINE_MS rather than maxTicks
+    timedOut: boolean
+    ticks: number
+    durationSeconds: number
+    totalCollisions: number
+    winnerId: string | null
+    winningTeamId: string | null
+    // Best finisher first
+    placements: EntityReport[]
+  }
+  replay: BattleReplay
+  timeline?: BattleTimeline
+}
+
+// Validate untrusted input (API request bodies)
+export function validateBattleRequest(input: unknown) {
+  return battleRequestSchema.safeParse(input)
+}
+
+// Fighter-ticks the request asks for, checked against MAX_BATTLE_WORK before it runs
+export function requestWork(request: BattleRequest) {
+  return request.roster.length * (request.maxTicks ?? DEFAULT_MAX_TICKS)
+}
+
+export function requestConfig(request: BattleRequest): BattleConfig {
+  const { roster, rules, map } = request
+  return {
+    seed: request.seed ?? randomSeed(),
+    arena: request.arena ?? calculateArenaSize(roster.length),
+    entities: roster.map(({ id, teamId, stats, behaviour }) => ({
+      id,
+      ...(teamId && { teamId }),
+      ...(stats && { stats }),
+      ...(behaviour && { behaviour }),
+    })),
+    ...(rules && { rules: typeof rules === "string" ? RULE_PRESETS[rules].rules : rules }),
+    ...(request.friendlyFire !== undefined && { friendlyFire: request.friendlyFire }),
+    ...(request.pickups && { pickups: request.pickups }),
+    ...(request.abilities && { abilities: request.abilities }),
+    ...(request.ranged && { ranged: request.ranged }),
+    ...(map && { map: typeof map === "string" ? ARENA_MAPS[map] : map }),
+    ...(request.interventions && { interventions: request.interventions }),
+  }
+}
+
+// Run a requested battle to the end and package the results with a replay the arena can load
+export function runBattleRequest(request: BattleRequest): BattleResponse {
+  const config = requestConfig(request)
+  const engine = createBattleEngine(config)
+  const recorder = createTimelineRecorder(engine.state)
+
+  const maxTicks = request.maxTicks ?? DEFAULT_MAX_TICKS
+  const deadline = Date.now() + BATTLE_DEADLINE_MS
+  let timedOut = false
+  while (!engine.state.ended && engine.state.tick < maxTicks) {
+    engine.step()
+    recorder.record(engine.state)
+    if (engine.state.tick % TICK_RATE === 0 && Date.now() > deadline) {
+      timedOut = true
+      break
+    }
+  }
+
+  const { state } = engine
+  const names = new Map(request.roster.map((entry) => [entry.id, entry.name ?? entry.id]))
+  const report = buildBattleReport(recorder.timeline, state, names)
+  // Fighters without an image reference play back with the stock placeholder
+  const images = request.roster.map((entry) => ({
+    id: entry.id,
+    name: entry.name ?? entry.id,
+    src: entry.src ?? "/placeholder.svg",
+  }))
+
+  return {
+    engineVersion: ENGINE_VERSION,
+    seed: config.seed,
+    result: {
+      ended: state.ended,
+      timedOut,
+      ticks: state.tick,
+      durationSeconds: state.tick / TICK_RATE,
+      totalCollisions: state.stats.totalCollisions,
+      winnerId: state.winnerId,
+      winningTeamId: state.winningTeamId,
+      placements: report.entities,
+    },
+    replay: createReplay(config, images, state),
+    ...(request.includeTimeline && { timeline: recorder.timeline }),
+  }
+}
@@ -0,0 +1,192 @@
+// Runs the battle engine off the main thread and, when an OffscreenCanvas is
+// provided, draws the arena too. The page only hears back through throttled
+// snapshots (plus packed frames if it has to draw).
+
+import { IDLE_OVERLAY, type ArenaOverlay } from "../render/arena-renderer"
+import { createCameraRig, type CameraRig } from "../render/camera"
+import { createEffectsRig, type EffectsRig } from "../render/effects"
+import { createArenaRenderer, type ArenaRenderer } from "../render/renderer"
+import { createBattleEngine, TICK_MS, type BattleEngine } from "./engine"
+import { packFrame } from "./snapshot"
+import { createTimelineRecorder, type TimelineRecorder } from "./timeline"
+import type { WorkerRequest, WorkerResponse } from "./worker-protocol"
+
+const worker = self as unknown as Worker
+
+// Catch-up limit after a slow frame, beyond that simulated time is dropped
+const MAX_STEPS_PER_FRAME = 5
+const SNAPSHOT_INTERVAL_MS = 100
+
+let engine: BattleEngine | null = null
+let recorder: TimelineRecorder | null = null
+let renderer: ArenaRenderer | null = null
+let images = new Map<string, ImageBitmap>()
+let overlay: ArenaOverlay = IDLE_OVERLAY
+let camera: CameraRig | null = null
+let effects: EffectsRig | null = null
+let running = false
+let lastFrameTime = 0
+let accumulator = 0
+let lastSnapshotTime = 0
+let settling = false
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => worker.postMessage(message, transfer)
+
+// Stop everything and tell the page, which would otherwise wait on a battle that never moves again
+const fail = (error: unknown) => {
+  running = false
+  settling = false
+  engine = null
+  post({ type: "error", message: error instanceof Error ? error.message : "The battle worker failed" })
+}
+
+const nextFrame = (callback: () => void) => {
+  const run = () => {
+    try {
+      callback()
+    } catch (error) {
+      fail(error)
+    }
+  }
+  if (typeof requestAnimationFrame === "function") requestAnimationFrame(run)
+  else setTimeout(run, TICK_MS)
+}
+
+const render = () => {
+  if (!engine || !renderer) return
+  const { state, map } = engine
+  effects?.update(state.entities, performance.now(), state.tick)
+  renderer.render(state.entities, images, overlay, {
+    pickups: state.pickups,
+    map,
+    safeZone: state.safeZone,
+    frozenZones: state.frozenZones,
+    projectiles: state.projectiles,
+    decoys: state.decoys,
+    interventions: state.interventions,
+    tick: state.tick,
+    camera: camera?.view,
+    effects: effects ?? undefined,
+  })
+}
+
+// Keep drawing while paused or after the battle ends until the last effects have played out
+const settle = () => {
+  if (running || !effects?.active) {
+    settling = false
+    return
+  }
+  render()
+  nextFrame(settle)
+}
+
+const startSettling = () => {
+  if (settling || !renderer) return
+  settling = true
+  nextFrame(settle)
+}
+
+const publish = () => {
+  if (!engine) return
+
+  if (renderer) {
+    render()
+  } else {
+    const buffer = packFrame(engine.state.entities)
+    post({ type: "frame", buffer }, [buffer.buffer])
+  }
+
+  const now = performance.now()
+  if (engine.state.ended || now - lastSnapshotTime >= SNAPSHOT_INTERVAL_MS) {
+    lastSnapshotTime = now
+    post({ type: "snapshot", state: engine.state })
+  }
+}
+
+const frame = () => {
+  if (!running || !engine) return
+
+  const now = performance.now()
+  accumulator = Math.min(accumulator + now - lastFrameTime, TICK_MS * MAX_STEPS_PER_FRAME)
+  lastFrameTime = now
+
+  let stepped = false
+  while (accumulator >= TICK_MS && !engine.state.ended) {
+    engine.step()
+    recorder?.record(engine.state)
+    accumulator -= TICK_MS
+    stepped = true
+  }
+  if (stepped) {
+    if (renderer && camera?.update(engine.state.entities, engine.state.damageEvents, now)) {
+      post({ type: "camera", view: { ...camera.view } })
+    }
+    publish()
+  }
+
+  if (engine.state.ended) {
+    running = false
+    if (recorder) post({ type: "timeline", timeline: recorder.timeline })
+    post({ type: "steering", steering: engine.steering })
+    startSettling()
+    return
+  }
+  nextFrame(frame)
+}
+
+const handle = (message: WorkerRequest) => {
+  switch (message.type) {
+    case "init":
+      engine = createBattleEngine(message.config)
+      recorder = createTimelineRecorder(engine.state)
+      renderer?.dispose()
+      renderer = message.canvas && createArenaRenderer(message.canvas, message.renderer)
+      if (renderer) post({ type: "renderer", backend: renderer.backend })
+      images = new Map(message.images.map(({ id, bitmap }) => [id, bitmap]))
+      camera = createCameraRig(message.config.arena)
+      effects = createEffectsRig(message.effects)
+      effects.reset(message.config.seed)
+      post({ type: "snapshot", state: engine.state })
+      render()
+      break
+
+    case "running":
+      if (message.running === running) break
+      running = message.running
+      if (running) {
+        lastFrameTime = performance.now()
+        accumulator = 0
+        nextFrame(frame)
+      } else {
+        startSettling()
+      }
+      break
+
+    case "overlay":
+      overlay = message.overlay
+      render()
+      break
+
+    case "camera":
+      camera?.setView(message.view)
+      camera?.setFocus(message.focus)
+      if (!running) render()
+      break
+
+    case "effects":
+      effects?.configure(message.settings)
+      break
+
+    case "intervene":
+      engine?.intervene(message.intervention)
+      break
+  }
+}
+
+worker.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  try {
+    handle(event.data)
+  } catch (error) {
+    fail(error)
+  }
+}
@@ -0,0 +1,299 @@
+import { z } from "zod"
+
+// Steering behaviours. Every tick a fighter with a behaviour is shown a read-only view of the arena and answers
+// with the heading it wants; the engine turns that into a capped push, so fighters still bounce and collide as
+// before. Fighters without one keep flying ballistically.
+
+export type BehaviourId = "aggressive" | "cowardly" | "hunter" | "wanderer" | "custom"
+
+export const BEHAVIOURS: Record<BehaviourId, { name: string; description: string }> = {
+  aggressive: { name: "Aggressive", description: "Charges the nearest, weakest enemy" },
+  cowardly: { name: "Cowardly", description: "Picks on the weak, flees to a corner to heal when hurt" },
+  hunter: { name: "Hunter", description: "Chases whoever has dealt the most damage" },
+  wanderer: { name: "Wanderer", description: "Drifts about at random" },
+  custom: { name: "Custom script", description: "Your own strategy function" },
+}
+
+export const behaviourIdSchema = z.enum(["aggressive", "cowardly", "hunter", "wanderer", "custom"])
+
+// Strategy source is kept in configs and replays
+export const MAX_STRATEGY_LENGTH = 5000
+
+// What a behaviour sees of a fighter, frozen
+export interface FighterView {
+  id: string
+  teamId: string | null
+  x: number
+  y: number
+  vx: number
+  vy: number
+  radius: number
+  health: number
+  maxHealth: number
+  totalDamage: number
+  kills: number
+  hasBarrier: boolean
+}
+
+export interface WorldView {
+  tick: number
+  // Battle time (ms)
+  time: number
+  arena: { width: number; height: number }
+  // Every fighter still standing, self included - decoys show up as copies of their owner
+  fighters: readonly FighterView[]
+  pickups: readonly { kind: string; x: number; y: number }[]
+  safeZone: { x: number; y: number; radius: number } | null
+  // Seeded random number in [0, 1) - Math.random is not available to strategies
+  random: () => number
+}
+
+// Heading the fighter wants (any length, capped at full thrust), or null to keep coasting
+export type Steering = { x: number; y: number } | null
+
+export type Behaviour = (self: FighterView, world: WorldView) => Steering
+
+// What each custom strategy answered, by entity id and then tick. Replays play these back instead of the script.
+export type RecordedSteering = Record<string, ([number, number] | null)[]>
+
+export const recordedSteeringSchema = z.record(z.array(z.tuple([z.number(), z.number()]).nullable()))
+
+// Cowards turn tail below this share of their health
+const COWARD_THRESHOLD = 0.4
+// Threats further than this don't scare a coward
+const FLEE_RADIUS = 300
+// A coward this close to its corner stops and waits to regenerate
+const HIDEOUT_REACH = 60
+// Hunters lead their prey by at most this many ticks
+const MAX_LEAD_TICKS = 30
+// Radians a wanderer may turn per tick
+const WANDER_JITTER = 0.6
+
+const enemiesOf = (self: FighterView, world: WorldView) =>
+  world.fighters.filter((f) => f.id !== self.id && (self.teamId === null || f.teamId !== self.teamId))
+
+const toward = (self: FighterView, point: { x: number; y: number }) => ({ x: point.x - self.x, y: point.y - self.y })
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y)
+
+const normalize = ({ x, y }: { x: number; y: number }) => {
+  const length = Math.hypot(x, y)
+  return length > 0 ? { x: x / length, y: y / length } : { x: 0, y: 0 }
+}
+
+function minBy<T>(items: readonly T[], score: (item: T) => number) {
+  let best: T | null = null
+  let bestScore = Infinity
+  for (const item of items) {
+    const value = score(item)
+    if (value < bestScore) {
+      best = item
+      bestScore = value
+    }
+  }
+  return best
+}
+
+// Nearest counts, but a wounded enemy a little further away is worth the detour
+const aggressive: Behaviour = (self, world) => {
+  const target = minBy(enemiesOf(self, world), (e) => distance(self, e) * (0.5 + e.health / e.maxHealth))
+  return target && toward(self, target)
+}
+
+// Aim where the damage leader will be, not where it is
+const hunter: Behaviour = (self, world) => {
+  const enemies = enemiesOf(self, world)
+  const leader = minBy(enemies, (e) => -e.totalDamage * 1e6 + distance(self, e))
+  if (!leader) return null
+  const lead = Math.min(MAX_LEAD_TICKS, distance(self, leader) / Math.max(1, Math.hypot(self.vx, self.vy)))
+  return toward(self, { x: leader.x + leader.vx * lead, y: leader.y + leader.vy * lead })
+}
+
+const cowardly: Behaviour = (self, world) => {
+  const enemies = enemiesOf(self, world)
+  if (enemies.length === 0) return null
+  if (self.health > self.maxHealth * COWARD_THRESHOLD) {
+    const weakest = minBy(enemies, (e) => e.health)!
+    return toward(self, weakest)
+  }
+
+  // Hide in the corner furthest from any enemy - or as near it as the safe zone allows
+  const { width, height } = world.arena
+  const corners = [
+    { x: self.radius, y: self.radius },
+    { x: width - self.radius, y: self.radius },
+    { x: self.radius, y: height - self.radius },
+    { x: width - self.radius, y: height - self.radius },
+  ]
+  let hideout = minBy(corners, (corner) => -Math.min(...enemies.map((e) => distance(corner, e))))!
+  const zone = world.safeZone
+  if (zone && distance(hideout, zone) > zone.radius * 0.8) {
+    const out = normalize(toward({ ...self, ...zone }, hideout))
+    hideout = { x: zone.x + out.x * zone.radius * 0.8, y: zone.y + out.y * zone.radius * 0.8 }
+  }
+
+  // Run from whoever is close, harder the closer they are
+  const flee = { x: 0, y: 0 }
+  for (const enemy of enemies) {
+    const d = distance(self, enemy)
+    if (d === 0 || d > FLEE_RADIUS) continue
+    flee.x += (self.x - enemy.x) / (d * d)
+    flee.y += (self.y - enemy.y) / (d * d)
+  }
+
+  const home = distance(self, hideout) > HIDEOUT_REACH ? normalize(toward(self, hideout)) : { x: 0, y: 0 }
+  const away = normalize(flee)
+  return { x: home.x + away.x, y: home.y + away.y }
+}
+
+// Keeps roughly its heading, turning a little at random - and heads back when outside the safe zone
+const wanderer: Behaviour = (self, world) => {
+  const zone = world.safeZone
+  if (zone && distance(self, zone) > zone.radius) return toward(self, zone)
+  const angle = Math.atan2(self.vy, self.vx) + (world.random() - 0.5) * WANDER_JITTER
+  return { x: Math.cos(angle), y: Math.sin(angle) }
+}
+
+export const BUILT_IN_BEHAVIOURS: Record<Exclude<BehaviourId, "custom">, Behaviour> = {
+  aggressive,
+  cowardly,
+  hunter,
+  wanderer,
+}
+
+export const STRATEGY_TEMPLATE = `(self, world) => {
+  // Chase the closest enemy, run when badly hurt
+  const enemies = world.fighters.filter((f) => f.id !== self.id && (!self.teamId || f.teamId !== self.teamId))
+  if (enemies.length === 0) return null
+  let closest = enemies[0]
+  for (const e of enemies) {
+    if (Math.hypot(e.x - self.x, e.y - self.y) < Math.hypot(closest.x - self.x, closest.y - self.y)) closest = e
+  }
+  const dx = closest.x - self.x
+  const dy = closest.y - self.y
+  return self.health < self.maxHealth * 0.2 ? { x: -dx, y: -dy } : { x: dx, y: dy }
+}`
+
+// Globals a strategy can't name: the page, storage, the network, timers and clocks (they'd break determinism)
+const SHADOWED_GLOBALS = [
+  "window",
+  "self",
+  "globalThis",
+  "document",
+  "navigator",
+  "location",
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "Worker",
+  "importScripts",
+  "postMessage",
+  "localStorage",
+  "sessionStorage",
+  "indexedDB",
+  "caches",
+  "setTimeout",
+  "setInterval",
+  "queueMicrotask",
+  "requestAnimationFrame",
+  "Function",
+  "Date",
+  "performance",
+  "crypto",
+]
+
+// Math without Math.random, world.random is the seeded replacement
+const SAFE_MATH = Object.freeze(
+  Object.fromEntries(
+    Object.getOwnPropertyNames(Math)
+      .filter((name) => name !== "random")
+      .map((name) => [name, Math[name as keyof Math]]),
+  ),
+)
+
+// Turn user source - a function expression of (self, world) - into a behaviour. Strict mode and shadowed globals keep
+// an honest strategy to its inputs, but they are no security boundary. Scripts therefore only ever run in a worker the
+// page can terminate: the battle worker, or the strategy sandbox for dry runs and simulated matches.
+export function compileStrategy(source: string): Behaviour {
+  if (source.length > MAX_STRATEGY_LENGTH) {
+    throw new Error(`Strategies are limited to ${MAX_STRATEGY_LENGTH} characters`)
+  }
+
+  let factory: (...args: unknown[]) => unknown
+  try {
+    factory = new Function(...SHADOWED_GLOBALS, "Math", `"use strict"\nreturn (${source}\n)`) as typeof factory
+  } catch (error) {
+    throw new Error(`Strategy doesn't compile: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const behaviour = factory(...SHADOWED_GLOBALS.map(() => undefined), SAFE_MATH)
+  if (typeof behaviour !== "function") throw new Error("A strategy must be a function of (self, world)")
+  return behaviour as Behaviour
+}
+
+// Stands in for a strategy during replays, answering whatever it answered live
+export function recordedBehaviour(answers: RecordedSteering[string]): Behaviour {
+  return (_self, world) => {
+    const answer = answers[world.tick]
+    return answer ? { x: answer[0], y: answer[1] } : null
+  }
+}
+
+// Call a behaviour, treating a throw or a malformed answer as no steering for this tick
+export function runBehaviour(behaviour: Behaviour, self: FighterView, world: WorldView): Steering {
+  try {
+    const steering = behaviour(self, world)
+    if (!steering || !Number.isFinite(steering.x) || !Number.isFinite(steering.y)) return null
+    return { x: steering.x, y: steering.y }
+  } catch {
+    return null
+  }
+}
+
+// Compile a strategy and try it on a small arena, returning what's wrong with it or null. Runs the script, so only
+// call it inside a worker.
+export function checkStrategy(source: string) {
+  let behaviour: Behaviour
+  try {
+    behaviour = compileStrategy(source)
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+
+  const fighter = (id: string, x: number): FighterView =>
+    Object.freeze({
+      id,
+      teamId: null,
+      x,
+      y: 200,
+      vx: 3,
+      vy: 0,
+      radius: 30,
+      health: 60,
+      maxHealth: 100,
+      totalDamage: 0,
+      kills: 0,
+      hasBarrier: false,
+    })
+  const fighters = Object.freeze([fighter("self", 100), fighter("enemy", 300)])
+  const world: WorldView = Object.freeze({
+    tick: 1,
+    time: 0,
+    arena: Object.freeze({ width: 400, height: 400 }),
+    fighters,
+    pickups: Object.freeze([]),
+    safeZone: null,
+    random: () => 0.5,
+  })
+
+  try {
+    const steering = behaviour(fighters[0], world)
+    if (steering === null || steering === undefined) return null
+    if (typeof steering !== "object" || !Number.isFinite(steering.x) || !Number.isFinite(steering.y)) {
+      return "A strategy must return { x, y } or null"
+    }
+    return null
+  } catch (error) {
+    return `Strategy threw: ${error instanceof Error ? error.message : String(error)}`
+  }
+}
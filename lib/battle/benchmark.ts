@@ -0,0 +1,40 @@
+import { calculateArenaSize } from "./arena"
+import { createBattleEngine, type EngineOptions } from "./engine"
+
+export const BENCHMARK_ENTITY_COUNTS = [50, 150, 300, 500]
+const BENCHMARK_TICKS = 300
+const BENCHMARK_SEED = 1
+
+export interface BenchmarkResult {
+  entityCount: number
+  broadphase: NonNullable<EngineOptions["broadphase"]>
+  ticks: number
+  ticksPerSecond: number
+}
+
+// Simulate a headless battle and measure raw engine throughput
+export function benchmarkEngine(
+  entityCount: number,
+  broadphase: BenchmarkResult["broadphase"] = "grid",
+  ticks = BENCHMARK_TICKS,
+): BenchmarkResult {
+  const engine = createBattleEngine(
+    {
+      seed: BENCHMARK_SEED,
+      arena: calculateArenaSize(entityCount),
+      entities: Array.from({ length: entityCount }, (_, i) => ({ id: `bench-${i}` })),
+    },
+    { broadphase },
+  )
+
+  const start = performance.now()
+  engine.run(ticks)
+  const elapsed = performance.now() - start
+
+  return {
+    entityCount,
+    broadphase,
+    ticks: engine.state.tick,
+    ticksPerSecond: engine.state.tick / (Math.max(elapsed, 1) / 1000),
+  }
+}
@@ -0,0 +1,66 @@
+import { sideOf } from "./teams"
+import type { BattleState } from "./types"
+
+// Elo-style ratings for multi-fighter battles
+
+export const DEFAULT_RATING = 1200
+export const ELO_K = 32
+
+export interface EloEntrant {
+  id: string
+  rating: number
+  // 1 is the winner, tied sides share a placement
+  placement: number
+  side: string
+}
+
+// Chance that a rating of `a` beats a rating of `b`
+export function expectedScore(a: number, b: number) {
+  return 1 / (1 + 10 ** ((b - a) / 400))
+}
+
+// Placement per entity by side: surviving sides first (by remaining health), then the fallen by how long
+// their last member lasted. Teammates share their team's placement.
+export function sidePlacements(state: Pick<BattleState, "entities" | "killFeed">) {
+  const eliminatedAt = new Map(state.killFeed.map((event) => [event.victimId, event.tick]))
+  const sides = new Map<string, { alive: boolean; score: number }>()
+
+  for (const entity of state.entities) {
+    const side = sides.get(sideOf(entity)) ?? { alive: false, score: 0 }
+    if (!entity.isDestroyed) {
+      if (!side.alive) side.score = 0
+      side.alive = true
+      side.score += entity.health
+    } else if (!side.alive) {
+      side.score = Math.max(side.score, eliminatedAt.get(entity.id) ?? 0)
+    }
+    sides.set(sideOf(entity), side)
+  }
+
+  const ranked = [...sides.values()].sort((a, b) => Number(b.alive) - Number(a.alive) || b.score - a.score)
+  const placementOf = (side: { alive: boolean; score: number }) =>
+    ranked.findIndex((other) => other.alive === side.alive && other.score === side.score) + 1
+
+  return new Map(state.entities.map((entity) => [entity.id, placementOf(sides.get(sideOf(entity))!)]))
+}
+
+// Each entrant plays everyone on another side: a better placement is a win, a shared one a draw.
+// K is split across opponents so a hundred-fighter brawl moves ratings about as much as a duel.
+export function eloChanges(entrants: EloEntrant[], k = ELO_K) {
+  const changes = new Map<string, number>()
+
+  for (const entrant of entrants) {
+    let actual = 0
+    let expected = 0
+    let opponents = 0
+    for (const other of entrants) {
+      if (other.side === entrant.side) continue
+      actual += entrant.placement < other.placement ? 1 : entrant.placement === other.placement ? 0.5 : 0
+      expected += expectedScore(entrant.rating, other.rating)
+      opponents++
+    }
+    changes.set(entrant.id, opponents > 0 ? (k * (actual - expected)) / opponents : 0)
+  }
+
+  return changes
+}
@@ -0,0 +1,1068 @@
+import {
+  ABILITIES,
+  ABILITY_FLASH_MS,
+  ABILITY_IDS,
+  BOLT_RANGE,
+  DASH_RANGE,
+  DASH_SPEED,
+  DECOY_HEALTH,
+  DECOY_RANGE,
+  KNOCKBACK_DAMAGE,
+  KNOCKBACK_FORCE,
+  KNOCKBACK_RADIUS,
+  REGEN_FRACTION,
+  THORNS_REFLECT,
+  type AbilityId,
+  type AbilitySettings,
+} from "./abilities"
+import { calculateEntitySize, maxEntitySize } from "./arena"
+import {
+  BUILT_IN_BEHAVIOURS,
+  compileStrategy,
+  recordedBehaviour,
+  runBehaviour,
+  type Behaviour,
+  type FighterView,
+  type RecordedSteering,
+  type WorldView,
+} from "./behaviours"
+import {
+  DAMAGE_BOOST,
+  HEAL_FRACTION,
+  PICKUP_KINDS,
+  PICKUP_RADIUS,
+  SPEED_BOOST,
+  pickPickupKind,
+} from "./pickups"
+import { circlePenetration, containsPoint } from "./geometry"
+import {
+  LAUNCH_DRAG,
+  LAUNCH_MS,
+  MAX_FLING_SPEED,
+  type Intervention,
+  type InterventionEvent,
+} from "./interventions"
+import { resolveMap, safeZoneRadius, type ResolvedMap } from "./maps"
+import { PROJECTILE_KINDS, aimAt, type ProjectileKind, type RangedSettings } from "./projectiles"
+import { BASE_STAT_PROFILE } from "./profiles"
+import { createRng, type Rng } from "./rng"
+import { DEFAULT_RULES, type RuleSet } from "./rules"
+import { createUniformGrid } from "./spatial-hash"
+import { findTeam, sideOf } from "./teams"
+import type { ActiveEffect, BattleConfig, BattleState, Entity, EntitySpec, Pickup, Projectile } from "./types"
+
+// Fixed simulation timestep - one tick per animation frame at 60 fps
+export const TICK_RATE = 60
+export const TICK_MS = 1000 / TICK_RATE
+
+// Bump whenever a change alters the outcome of a seeded battle (replays check it)
+export const ENGINE_VERSION = 5
+
+// Attackers who hit a victim this recently before it falls share the credit
+export const ASSIST_WINDOW_MS = 5000
+
+// Give up on battles that never resolve (10 minutes of simulated time)
+export const DEFAULT_MAX_TICKS = TICK_RATE * 60 * 10
+
+const NEON_COLORS = ["#00ffff", "#ff00ff", "#ffff00", "#ff0080", "#80ff00", "#0080ff"]
+
+const MIN_SPEED = 1.5
+const MAX_SPEED = 8.0
+
+// Entity-vs-entity collisions (restitution and damage scale come from the rule set)
+// An entity of this radius has mass 1
+const REFERENCE_RADIUS = 70
+const IMPACT_BASE_DAMAGE = 5
+const IMPACT_DAMAGE_VARIANCE = 5
+
+// Most a behaviour can change an entity's velocity in one tick
+const STEER_FORCE = 0.3
+
+// A blow that would finish an entity with its barrier unused leaves it on this much health instead
+const LAST_STAND_HEALTH = 1
+// Abilities and weapons come online this far into a battle, so the opening isn't everything going off at once
+const WARMUP_MS = 1000
+// A weapon with nobody in range looks again after this long
+const RETARGET_MS = 200
+// Ability triggers are checked this often (staggered across entities), lasting effects still tick every step
+const ABILITY_CHECK_TICKS = 6
+
+function hasEffect(entity: Entity, kind: ActiveEffect["kind"]) {
+  return entity.effects.some((effect) => effect.kind === kind)
+}
+
+function removeEffect(entity: Entity, kind: ActiveEffect["kind"]) {
+  entity.effects = entity.effects.filter((effect) => effect.kind !== kind)
+}
+
+// Outgoing damage multiplier including a damage pickup
+function damageMultiplier(entity: Entity) {
+  return hasEffect(entity, "damage") ? entity.damageMultiplier * DAMAGE_BOOST : entity.damageMultiplier
+}
+
+function topSpeed(entity: Entity) {
+  return hasEffect(entity, "speed") ? entity.maxSpeed * SPEED_BOOST : entity.maxSpeed
+}
+
+// Mass grows with area
+export function entityMass(radius: number) {
+  return (radius / REFERENCE_RADIUS) ** 2
+}
+
+export interface BattleEngine {
+  readonly state: BattleState
+  // Map geometry in arena pixels, null for an open arena
+  readonly map: ResolvedMap | null
+  // Advance the simulation by one fixed tick
+  step: () => void
+  // Queue a god-mode intervention, it lands on the next tick and is logged in state.interventions
+  intervene: (intervention: Intervention) => void
+  // Step until the battle ends or maxTicks is reached
+  run: (maxTicks?: number) => BattleState
+  // Capture / restore the full simulation state, including the RNG
+  save: () => EngineSnapshot
+  load: (snapshot: EngineSnapshot) => void
+  // What the custom strategies answered so far, for replays
+  readonly steering: RecordedSteering
+}
+
+export interface EngineOptions {
+  // "grid" uses the uniform grid broadphase, "naive" checks every pair (benchmarking only)
+  broadphase?: "grid" | "naive"
+  // "run" compiles custom strategies and records their answers, "recorded" plays config.steering back without
+  // running any script (replays)
+  strategies?: "run" | "recorded"
+}
+
+export interface EngineSnapshot {
+  state: BattleState
+  rngState: number
+}
+
+function resolveBehaviour(spec: EntitySpec, recorded: RecordedSteering | null): Behaviour | null {
+  if (!spec.behaviour) return null
+  if (spec.behaviour !== "custom") return BUILT_IN_BEHAVIOURS[spec.behaviour]
+  if (recorded) {
+    const answers = recorded[spec.id]
+    if (!answers) throw new Error(`Entity ${spec.id} has a custom strategy but no recorded steering`)
+    return recordedBehaviour(answers)
+  }
+  if (!spec.strategy) throw new Error(`Entity ${spec.id} has a custom behaviour but no strategy`)
+  try {
+    return compileStrategy(spec.strategy)
+  } catch (error) {
+    throw new Error(`Entity ${spec.id}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+// Read-only copy of an entity for behaviours
+function fighterView(entity: Entity): FighterView {
+  return Object.freeze({
+    id: entity.id,
+    teamId: entity.teamId,
+    x: entity.x,
+    y: entity.y,
+    vx: entity.vx,
+    vy: entity.vy,
+    radius: entity.radius,
+    health: entity.health,
+    maxHealth: entity.maxHealth,
+    totalDamage: entity.totalDamage,
+    kills: entity.kills,
+    hasBarrier: entity.hasBarrier,
+  })
+}
+
+function initializeEntities(config: BattleConfig, rules: RuleSet, rng: Rng): Entity[] {
+  const { arena, entities } = config
+
+  return entities.map((spec) => {
+    const { stats } = spec
+
+    // Random position within arena bounds (rolls stay in sequence whether or not a profile overrides them)
+    const rolledRadius = calculateEntitySize(entities.length, rng.next)
+    const radius = Math.min(stats?.radius ?? rolledRadius, arena.width / 2, arena.height / 2)
+    const x = radius + rng.next() * (arena.width - 2 * radius)
+    const y = radius + rng.next() * (arena.height - 2 * radius)
+
+    // Random velocity
+    const rolledSpeed = 2.0 + rng.next() * 4.0
+    const speed = stats?.speed ?? rolledSpeed
+    const angle = rng.next() * Math.PI * 2
+    const maxHealth = Math.round(rules.maxHealth * (stats?.health ?? 1))
+
+    // Always roll a color so team battles don't shift the rest of the sequence
+    const neonColor = rng.pick(NEON_COLORS)
+
+    return {
+      id: spec.id,
+      teamId: spec.teamId ?? null,
+      x,
+      y,
+      vx: Math.cos(angle) * speed,
+      vy: Math.sin(angle) * speed,
+      radius,
+      health: maxHealth,
+      maxHealth,
+      armor: stats?.armor ?? 1,
+      damageMultiplier: stats?.damage ?? 1,
+      // Faster profiles get a proportionally higher top speed
+      maxSpeed: stats ? (MAX_SPEED * stats.speed) / BASE_STAT_PROFILE.speed : MAX_SPEED,
+      effects: [],
+      hasBarrier: false,
+      barrierUsed: false,
+      abilities: [],
+      weapon: null,
+      nextShotAt: 0,
+      launchedUntil: 0,
+      lastDamageTime: 0,
+      comboCount: 0,
+      totalDamage: 0,
+      isDestroyed: false,
+      eliminatedBy: null,
+      kills: 0,
+      assists: 0,
+      recentHits: [],
+      neonColor: findTeam(spec.teamId)?.color ?? neonColor,
+    }
+  })
+}
+
+// Distinct abilities for every entity, rolled after placement so a seed's positions don't depend on the settings
+function rollAbilities(entities: Entity[], { perEntity, cooldownScale }: AbilitySettings, rng: Rng) {
+  for (const entity of entities) {
+    const pool = [...ABILITY_IDS]
+    entity.abilities = Array.from({ length: perEntity }, () => {
+      const id = pool.splice(rng.int(pool.length), 1)[0]
+      const cooldownMs = ABILITIES[id].cooldownMs * cooldownScale
+      return { id, cooldownMs, readyAt: WARMUP_MS, activeUntil: 0, usedAt: null }
+    })
+  }
+}
+
+// Weapons for every entity, with their first shots spread over one fire interval
+function rollWeapons(entities: Entity[], { weapon, fireIntervalMs }: RangedSettings, rng: Rng) {
+  for (const entity of entities) {
+    entity.weapon = weapon === "mixed" ? (rng.next() < 0.5 ? "bullet" : "orb") : weapon
+    entity.nextShotAt = WARMUP_MS + rng.next() * fireIntervalMs
+  }
+}
+
+export function createBattleEngine(config: BattleConfig, options: EngineOptions = {}): BattleEngine {
+  const rng = createRng(config.seed)
+  const { arena, rules = DEFAULT_RULES, friendlyFire = false, pickups, ranged } = config
+  const regenIntervalTicks = Math.max(1, Math.round(rules.regenIntervalMs / TICK_MS))
+  const pickupIntervalTicks = pickups ? Math.max(1, Math.round(pickups.spawnIntervalMs / TICK_MS)) : 0
+  const map = config.map ? resolveMap(config.map, arena) : null
+  const { broadphase = "grid", strategies = "run" } = options
+  const recorded = strategies === "recorded" ? (config.steering ?? {}) : null
+  // By roster index - entities keep their order, including across load()
+  const behaviours = config.entities.map((spec) => resolveBehaviour(spec, recorded))
+  const steered = behaviours.some((behaviour) => behaviour !== null)
+  const steering: RecordedSteering = recorded ?? {}
+
+  const state: BattleState = {
+    tick: 0,
+    time: 0,
+    entities: initializeEntities(config, rules, rng),
+    pickups: [],
+    safeZone: null,
+    damageEvents: [],
+    killFeed: [],
+    interventions: [],
+    frozenZones: [],
+    projectiles: [],
+    decoys: [],
+    stats: { totalCollisions: 0, entitiesDestroyed: 0, battleTime: 0 },
+    ended: false,
+    winnerId: null,
+    winningTeamId: null,
+  }
+  if (config.abilities?.enabled) rollAbilities(state.entities, config.abilities, rng)
+  if (ranged?.enabled) rollWeapons(state.entities, ranged, rng)
+
+  // Apply damage from attacker to target, returns false if a barrier absorbed it
+  const applyDamage = (target: Entity, attacker: Entity, damage: number) => {
+    if (target.hasBarrier) {
+      target.hasBarrier = false
+      removeEffect(target, "shield")
+      return false
+    }
+
+    target.health = Math.max(0, target.health - damage)
+
+    // Combo system
+    if (state.time - target.lastDamageTime < rules.comboWindowMs) {
+      target.comboCount++
+    } else {
+      target.comboCount = 1
+    }
+    target.lastDamageTime = state.time
+
+    // Remember the attacker for kill and assist credit
+    target.recentHits = target.recentHits.filter(
+      (hit) => hit.attackerId !== attacker.id && state.time - hit.time <= ASSIST_WINDOW_MS,
+    )
+    target.recentHits.push({ attackerId: attacker.id, time: state.time })
+    state.damageEvents.push({ attackerId: attacker.id, victimId: target.id, amount: damage })
+
+    attacker.totalDamage +=
+      damage * Math.min(rules.comboMultiplierCap, 1 + (target.comboCount - 1) * rules.comboStep)
+    return true
+  }
+
+  // Activate the one-shot barrier once health drops to the threshold, destroy at zero. Hits rarely land exactly
+  // between zero and a low threshold, so the blow that would finish the entity triggers the barrier too.
+  const settleHealth = (e: Entity, attacker: Entity | null) => {
+    if (rules.barrierEnabled && !e.isDestroyed && e.health <= rules.barrierThreshold && !e.barrierUsed) {
+      e.health = Math.max(e.health, LAST_STAND_HEALTH)
+      e.hasBarrier = true
+      e.barrierUsed = true
+      // The threshold barrier lasts until hit, so a pickup shield no longer times it out
+      removeEffect(e, "shield")
+    }
+    // Keep the first finisher if a destroyed entity is hit again in the same tick
+    if (e.health <= 0 && !e.isDestroyed) {
+      e.isDestroyed = true
+      recordKill(e, attacker)
+    }
+  }
+
+  const recordKill = (victim: Entity, attacker: Entity | null) => {
+    const recent = victim.recentHits.filter((hit) => state.time - hit.time <= ASSIST_WINDOW_MS)
+    const killerId = attacker?.id ?? recent[recent.length - 1]?.attackerId ?? null
+    const assistIds = recent.map((hit) => hit.attackerId).filter((id) => id !== killerId)
+
+    // Looked up by id, load() replaces the entity objects
+    for (const e of state.entities) {
+      if (e.id === killerId) e.kills++
+      else if (assistIds.includes(e.id)) e.assists++
+    }
+
+    victim.eliminatedBy = killerId
+    victim.recentHits = []
+    state.killFeed.push({ tick: state.tick, victimId: victim.id, killerId, assistIds })
+  }
+
+  // Push an entity out of static obstacles and bumpers, bouncing it off their surface
+  const resolveStaticCollisions = (entity: Entity) => {
+    if (!map) return
+
+    const bounce = (hit: { nx: number; ny: number; depth: number }, restitution: number, boost = 0) => {
+      entity.x += hit.nx * hit.depth
+      entity.y += hit.ny * hit.depth
+      const along = entity.vx * hit.nx + entity.vy * hit.ny
+      if (along < 0) {
+        entity.vx -= (1 + restitution) * along * hit.nx
+        entity.vy -= (1 + restitution) * along * hit.ny
+      }
+      entity.vx += hit.nx * boost
+      entity.vy += hit.ny * boost
+    }
+
+    for (const shape of map.obstacles) {
+      const hit = circlePenetration(shape, entity, entity.radius)
+      if (hit) bounce(hit, rules.wallRestitution)
+    }
+    for (const bumper of map.bumpers) {
+      const hit = circlePenetration({ type: "circle", ...bumper }, entity, entity.radius)
+      if (hit) bounce(hit, 1, bumper.boost)
+    }
+
+    // Obstacles can shove an entity into the arena wall, keep it inside
+    entity.x = Math.max(entity.radius, Math.min(arena.width - entity.radius, entity.x))
+    entity.y = Math.max(entity.radius, Math.min(arena.height - entity.radius, entity.y))
+  }
+
+  const updateSafeZone = () => {
+    const radius = map ? safeZoneRadius(map, arena, state.time) : null
+    state.safeZone = radius === null ? null : { x: arena.width / 2, y: arena.height / 2, radius }
+  }
+
+  // Damage zones and the shrinking safe zone - environmental damage skips barriers and combos
+  const applyHazards = () => {
+    if (!map) return
+
+    updateSafeZone()
+    const zone = map.shrinkingZone
+    const safeZone = zone && state.time >= zone.startMs ? state.safeZone : null
+
+    for (const entity of state.entities) {
+      if (entity.isDestroyed) continue
+
+      let damagePerSecond = 0
+      for (const hazard of map.hazards) {
+        if (containsPoint(hazard.shape, entity)) damagePerSecond += hazard.damagePerSecond
+      }
+      if (zone && safeZone && Math.hypot(entity.x - safeZone.x, entity.y - safeZone.y) > safeZone.radius) {
+        damagePerSecond += zone.damagePerSecond
+      }
+      if (damagePerSecond === 0) continue
+
+      entity.health = Math.max(0, entity.health - (damagePerSecond * TICK_MS) / 1000)
+      settleHealth(entity, null)
+    }
+  }
+
+  // Entities may spawn inside obstacles, settle them before the first tick
+  for (const entity of state.entities) resolveStaticCollisions(entity)
+  updateSafeZone()
+
+  // Grid cells fit the largest entity
+  const largestRadius = Math.max(maxEntitySize(config.entities.length), ...state.entities.map((e) => e.radius))
+  const grid = createUniformGrid(arena.width, arena.height, largestRadius * 2)
+
+  const findCandidatePairs = (activeEntities: Entity[]) => {
+    if (broadphase === "naive") {
+      const pairs: [number, number][] = []
+      for (let i = 0; i < activeEntities.length; i++) {
+        for (let j = i + 1; j < activeEntities.length; j++) pairs.push([i, j])
+      }
+      return pairs
+    }
+
+    grid.clear()
+    activeEntities.forEach((e, i) => grid.insert(i, e.x, e.y, e.radius))
+    return grid.pairs()
+  }
+
+  // Entities as indexed by the latest collision pass, for projectile hit tests
+  let indexedEntities: Entity[] = []
+
+  const checkCollisions = () => {
+    const activeEntities = state.entities.filter((e) => !e.isDestroyed)
+    let collisionCount = 0
+    indexedEntities = activeEntities
+
+    for (const [i, j] of findCandidatePairs(activeEntities)) {
+      const e1 = activeEntities[i]
+      const e2 = activeEntities[j]
+
+      const dx = e2.x - e1.x
+      const dy = e2.y - e1.y
+      const distance = Math.sqrt(dx * dx + dy * dy)
+
+      if (distance >= e1.radius + e2.radius) continue
+
+      // Collision normal from e1 to e2 (guard against exact overlap)
+      const nx = distance > 0 ? dx / distance : 1
+      const ny = distance > 0 ? dy / distance : 0
+      const invMass1 = 1 / entityMass(e1.radius)
+      const invMass2 = 1 / entityMass(e2.radius)
+
+      // Push overlapping entities apart, the lighter one moves further
+      const overlap = e1.radius + e2.radius - distance
+      const share1 = invMass1 / (invMass1 + invMass2)
+      e1.x -= nx * overlap * share1
+      e1.y -= ny * overlap * share1
+      e2.x += nx * overlap * (1 - share1)
+      e2.y += ny * overlap * (1 - share1)
+
+      // Only approaching entities exchange an impulse
+      const closingSpeed = (e2.vx - e1.vx) * nx + (e2.vy - e1.vy) * ny
+      if (closingSpeed >= 0) continue
+      collisionCount++
+
+      const impulse = (-(1 + rules.restitution) * closingSpeed) / (invMass1 + invMass2)
+      e1.vx -= impulse * invMass1 * nx
+      e1.vy -= impulse * invMass1 * ny
+      e2.vx += impulse * invMass2 * nx
+      e2.vy += impulse * invMass2 * ny
+
+      // Teammates just bounce off each other unless friendly fire is on
+      if (!friendlyFire && e1.teamId !== null && e1.teamId === e2.teamId) continue
+
+      // Both sides feel the same impulse, so both take damage from it, scaled by their profiles
+      const baseDamage = IMPACT_BASE_DAMAGE + impulse * rules.impactDamageScale
+      const damage1 =
+        (Math.min(baseDamage + rng.next() * IMPACT_DAMAGE_VARIANCE, rules.damageCap) * damageMultiplier(e1)) / e2.armor
+      const damage2 =
+        (Math.min(baseDamage + rng.next() * IMPACT_DAMAGE_VARIANCE, rules.damageCap) * damageMultiplier(e2)) / e1.armor
+
+      const landed1 = applyDamage(e1, e2, damage2)
+      const landed2 = applyDamage(e2, e1, damage1)
+      // Thorns send part of a landed hit straight back
+      if (landed1 && isActive(e1, "thorns")) applyDamage(e2, e1, damage2 * THORNS_REFLECT)
+      if (landed2 && isActive(e2, "thorns")) applyDamage(e1, e2, damage1 * THORNS_REFLECT)
+
+      settleHealth(e1, e2)
+      settleHealth(e2, e1)
+    }
+
+    collectPickups(activeEntities)
+    return collisionCount
+  }
+
+  // First entity (in roster order) touching a pickup takes it
+  const collectPickups = (activeEntities: Entity[]) => {
+    state.pickups = state.pickups.filter((pickup) => {
+      const collector = activeEntities.find((e) => {
+        if (e.isDestroyed) return false
+        const dx = pickup.x - e.x
+        const dy = pickup.y - e.y
+        const reach = e.radius + PICKUP_RADIUS
+        return dx * dx + dy * dy < reach * reach
+      })
+      if (!collector) return true
+      applyPickup(collector, pickup)
+      return false
+    })
+  }
+
+  const applyPickup = (entity: Entity, pickup: Pickup) => {
+    if (pickup.kind === "heal") {
+      entity.health = Math.min(entity.maxHealth, entity.health + Math.round(entity.maxHealth * HEAL_FRACTION))
+      return
+    }
+
+    // Picking up an active kind again refreshes its timer
+    const expiresAt = state.time + PICKUP_KINDS[pickup.kind].durationMs
+    if (pickup.kind === "speed" && !hasEffect(entity, "speed")) {
+      entity.vx *= SPEED_BOOST
+      entity.vy *= SPEED_BOOST
+    }
+    if (pickup.kind === "shield") {
+      // An active threshold barrier is already better than a timed one
+      if (entity.hasBarrier && !hasEffect(entity, "shield")) return
+      entity.hasBarrier = true
+    }
+    removeEffect(entity, pickup.kind)
+    entity.effects.push({ kind: pickup.kind, expiresAt })
+  }
+
+  const spawnPickups = () => {
+    if (!pickups?.enabled || state.tick % pickupIntervalTicks !== 0 || state.pickups.length >= pickups.maxActive) return
+
+    const kind = pickPickupKind(pickups.weights, rng.next())
+    const margin = PICKUP_RADIUS * 2
+    const position = () => ({
+      x: margin + rng.next() * (arena.width - 2 * margin),
+      y: margin + rng.next() * (arena.height - 2 * margin),
+    })
+
+    // Re-roll a few times rather than drop a pickup inside a wall
+    let spot = position()
+    for (let attempt = 0; attempt < 5 && map?.obstacles.some((shape) => containsPoint(shape, spot)); attempt++) {
+      spot = position()
+    }
+    if (map?.obstacles.some((shape) => containsPoint(shape, spot))) return
+
+    // At most one spawn per tick
+    state.pickups.push({ id: state.tick, kind, ...spot })
+  }
+
+  const expireEffects = () => {
+    state.frozenZones = state.frozenZones.filter((zone) => zone.expiresAt > state.time)
+    state.decoys = state.decoys.filter((decoy) => decoy.expiresAt > state.time)
+    for (const entity of state.entities) {
+      if (entity.effects.length === 0) continue
+      for (const effect of entity.effects) {
+        if (effect.kind === "shield" && effect.expiresAt <= state.time) entity.hasBarrier = false
+      }
+      entity.effects = entity.effects.filter((effect) => effect.expiresAt > state.time)
+    }
+  }
+
+  // Regenerate health at a fixed interval once an entity has been out of combat long enough
+  const applyHealthRegeneration = () => {
+    if (rules.regenAmount === 0 || state.tick % regenIntervalTicks !== 0) return
+
+    for (const entity of state.entities) {
+      if (
+        !entity.isDestroyed &&
+        entity.health > 0 &&
+        entity.health < entity.maxHealth &&
+        state.time - entity.lastDamageTime > rules.regenDelayMs
+      ) {
+        entity.health = Math.min(entity.maxHealth, entity.health + rules.regenAmount)
+      }
+    }
+  }
+
+  const isFrozen = (point: { x: number; y: number }) =>
+    state.frozenZones.some((zone) => Math.hypot(point.x - zone.x, point.y - zone.y) < zone.radius)
+
+  const isActive = (entity: Entity, id: AbilityId) =>
+    entity.abilities.some((ability) => ability.id === id && ability.activeUntil > state.time)
+
+  // Teammates are off limits unless friendly fire is on
+  const hostile = (a: { id: string; teamId: string | null }, b: { id: string; teamId: string | null }) =>
+    a.id !== b.id && (friendlyFire || sideOf(a) !== sideOf(b))
+
+  const ownerOf = (ownerId: string) => state.entities.find((e) => e.id === ownerId)!
+
+  // Closest enemy or enemy decoy within range - decoys are there to be mistaken for their owner
+  const nearestTarget = (entity: Entity, range: number) => {
+    const targets: (Pick<Entity, "x" | "y" | "vx" | "vy" | "radius"> & { id?: string })[] = [
+      ...state.entities.filter((other) => !other.isDestroyed && hostile(entity, other)),
+      ...state.decoys.filter((decoy) => hostile(entity, ownerOf(decoy.ownerId))),
+    ]
+    let best = null
+    let bestDistance = range
+    for (const target of targets) {
+      const distance = Math.hypot(target.x - entity.x, target.y - entity.y)
+      if (distance < bestDistance) {
+        best = target
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+
+  // Fire from the owner's edge, leading the target. Homing shots lock on to entities, decoys only draw straight shots
+  const launchProjectile = (
+    owner: Entity,
+    kind: ProjectileKind,
+    target: Pick<Entity, "x" | "y" | "vx" | "vy"> & { id?: string },
+    damageScale = 1,
+  ) => {
+    const { speed, damage, radius, lifetimeMs, turnRate } = PROJECTILE_KINDS[kind]
+    const { vx, vy } = aimAt(owner, target, speed)
+    const offset = (owner.radius + radius) / speed
+    state.projectiles.push({
+      // At most one shot of each kind per entity per tick
+      id: `${owner.id}:${kind}:${state.tick}`,
+      kind,
+      ownerId: owner.id,
+      targetId: turnRate > 0 ? (target.id ?? null) : null,
+      x: owner.x + vx * offset,
+      y: owner.y + vy * offset,
+      vx,
+      vy,
+      radius,
+      damage: damage * damageScale * damageMultiplier(owner),
+      expiresAt: state.time + lifetimeMs,
+    })
+  }
+
+  // Fire an ability if its trigger holds, returns whether it did
+  const tryAbility = (entity: Entity, id: AbilityId) => {
+    switch (id) {
+      case "dash": {
+        const target = nearestTarget(entity, DASH_RANGE)
+        if (!target) return false
+        const dx = target.x - entity.x
+        const dy = target.y - entity.y
+        const distance = Math.hypot(dx, dy)
+        // Already touching, nothing to close in on
+        if (distance <= entity.radius + target.radius) return false
+        entity.vx = (dx / distance) * DASH_SPEED
+        entity.vy = (dy / distance) * DASH_SPEED
+        entity.launchedUntil = state.time + ABILITY_FLASH_MS
+        return true
+      }
+
+      case "knockback": {
+        const inReach = state.entities.filter(
+          (other) =>
+            !other.isDestroyed &&
+            hostile(entity, other) &&
+            Math.hypot(other.x - entity.x, other.y - entity.y) < KNOCKBACK_RADIUS + entity.radius + other.radius,
+        )
+        if (inReach.length < (entity.health < entity.maxHealth / 2 ? 1 : 2)) return false
+        for (const other of inReach) {
+          const dx = other.x - entity.x
+          const dy = other.y - entity.y
+          const distance = Math.hypot(dx, dy)
+          const falloff = 1 - distance / (KNOCKBACK_RADIUS + entity.radius + other.radius)
+          const nx = distance > 0 ? dx / distance : 1
+          const ny = distance > 0 ? dy / distance : 0
+          other.vx += nx * KNOCKBACK_FORCE * falloff
+          other.vy += ny * KNOCKBACK_FORCE * falloff
+          other.launchedUntil = state.time + ABILITY_FLASH_MS
+          applyDamage(other, entity, (KNOCKBACK_DAMAGE * damageMultiplier(entity)) / other.armor)
+          settleHealth(other, entity)
+        }
+        return true
+      }
+
+      case "regen":
+        return entity.health < entity.maxHealth / 2
+
+      // Only right after being hit
+      case "thorns":
+        return entity.lastDamageTime > 0 && state.time - entity.lastDamageTime < TICK_MS * 1.5
+
+      // Leaves a copy running on and sidesteps
+      case "decoy": {
+        if (entity.health >= entity.maxHealth * DECOY_HEALTH || !nearestTarget(entity, DECOY_RANGE)) return false
+        state.decoys.push({
+          ownerId: entity.id,
+          x: entity.x,
+          y: entity.y,
+          vx: entity.vx,
+          vy: entity.vy,
+          radius: entity.radius,
+          expiresAt: state.time + ABILITIES.decoy.durationMs,
+        })
+        const { vx } = entity
+        entity.vx = -entity.vy
+        entity.vy = vx
+        return true
+      }
+
+      case "projectile": {
+        const target = nearestTarget(entity, BOLT_RANGE)
+        if (!target) return false
+        launchProjectile(entity, "bolt", target)
+        return true
+      }
+    }
+  }
+
+  const useAbilities = () => {
+    state.entities.forEach((entity, index) => {
+      if (entity.isDestroyed || entity.abilities.length === 0 || isFrozen(entity)) return
+
+      if (isActive(entity, "regen")) {
+        const perTick = (entity.maxHealth * REGEN_FRACTION * TICK_MS) / ABILITIES.regen.durationMs
+        entity.health = Math.min(entity.maxHealth, entity.health + perTick)
+      }
+
+      const checking = (state.tick + index) % ABILITY_CHECK_TICKS === 0
+      for (const ability of entity.abilities) {
+        // Thorns react to a hit, so they're checked every tick
+        if (ability.readyAt > state.time || (!checking && ability.id !== "thorns")) continue
+        if (!tryAbility(entity, ability.id)) continue
+        ability.usedAt = state.time
+        ability.readyAt = state.time + ability.cooldownMs
+        ability.activeUntil = state.time + ABILITIES[ability.id].durationMs
+      }
+    })
+  }
+
+  // Decoys coast and bounce like their owner would, and pop on the first enemy that touches them
+  const updateDecoys = () => {
+    if (state.decoys.length === 0) return
+    state.decoys = state.decoys.filter((decoy) => {
+      decoy.x += decoy.vx
+      decoy.y += decoy.vy
+      if (decoy.x - decoy.radius <= 0 || decoy.x + decoy.radius >= arena.width) {
+        decoy.vx *= -1
+        decoy.x = Math.max(decoy.radius, Math.min(arena.width - decoy.radius, decoy.x))
+      }
+      if (decoy.y - decoy.radius <= 0 || decoy.y + decoy.radius >= arena.height) {
+        decoy.vy *= -1
+        decoy.y = Math.max(decoy.radius, Math.min(arena.height - decoy.radius, decoy.y))
+      }
+
+      const owner = ownerOf(decoy.ownerId)
+      const victim = state.entities.find(
+        (e) =>
+          !e.isDestroyed && hostile(owner, e) && Math.hypot(e.x - decoy.x, e.y - decoy.y) < e.radius + decoy.radius,
+      )
+      if (!victim) return true
+      // The fooled entity bounces off as if it hit something solid
+      const distance = Math.hypot(victim.x - decoy.x, victim.y - decoy.y)
+      const nx = distance > 0 ? (victim.x - decoy.x) / distance : 1
+      const ny = distance > 0 ? (victim.y - decoy.y) / distance : 0
+      const along = victim.vx * nx + victim.vy * ny
+      if (along < 0) {
+        victim.vx -= 2 * along * nx
+        victim.vy -= 2 * along * ny
+      }
+      return false
+    })
+  }
+
+  // Fighters shoot at the nearest enemy in range whenever their weapon is ready
+  const fireWeapons = () => {
+    if (!ranged?.enabled) return
+    for (const entity of state.entities) {
+      if (entity.isDestroyed || !entity.weapon || entity.nextShotAt > state.time || isFrozen(entity)) continue
+      const target = nearestTarget(entity, ranged.range)
+      entity.nextShotAt = state.time + (target ? ranged.fireIntervalMs : RETARGET_MS)
+      if (target) launchProjectile(entity, entity.weapon, target, ranged.damageScale)
+    }
+  }
+
+  // Turn a homing projectile towards its target, at most its turn rate per tick
+  const steerProjectile = (projectile: Projectile) => {
+    const target = projectile.targetId === null ? undefined : findAlive(projectile.targetId)
+    if (!target) return
+    const heading = Math.atan2(projectile.vy, projectile.vx)
+    let turn = Math.atan2(target.y - projectile.y, target.x - projectile.x) - heading
+    turn = Math.atan2(Math.sin(turn), Math.cos(turn))
+    const { turnRate } = PROJECTILE_KINDS[projectile.kind]
+    const angle = heading + Math.max(-turnRate, Math.min(turnRate, turn))
+    const speed = Math.hypot(projectile.vx, projectile.vy)
+    projectile.vx = Math.cos(angle) * speed
+    projectile.vy = Math.sin(angle) * speed
+  }
+
+  const hitsWall = (projectile: Projectile) =>
+    projectile.x < 0 ||
+    projectile.x > arena.width ||
+    projectile.y < 0 ||
+    projectile.y > arena.height ||
+    (map !== null &&
+      (map.obstacles.some((shape) => circlePenetration(shape, projectile, projectile.radius)) ||
+        map.bumpers.some((bumper) => circlePenetration({ type: "circle", ...bumper }, projectile, projectile.radius))))
+
+  // Projectiles hit the first enemy or enemy decoy they touch, and break on walls and obstacles
+  const updateProjectiles = () => {
+    if (state.projectiles.length === 0) return
+    state.projectiles = state.projectiles.filter((projectile) => {
+      if (projectile.expiresAt <= state.time) return false
+      // Time stands still in a frozen zone, for shots too
+      if (isFrozen(projectile)) return true
+
+      steerProjectile(projectile)
+      projectile.x += projectile.vx
+      projectile.y += projectile.vy
+      if (hitsWall(projectile)) return false
+
+      const owner = ownerOf(projectile.ownerId)
+      const touches = (target: { x: number; y: number; radius: number }) =>
+        Math.hypot(target.x - projectile.x, target.y - projectile.y) < target.radius + projectile.radius
+
+      const decoyIndex = state.decoys.findIndex((decoy) => hostile(owner, ownerOf(decoy.ownerId)) && touches(decoy))
+      if (decoyIndex >= 0) {
+        state.decoys.splice(decoyIndex, 1)
+        return false
+      }
+
+      // Entities have moved a little since they were indexed, so search a radius further out
+      const candidates =
+        broadphase === "grid"
+          ? grid.query(projectile.x, projectile.y, projectile.radius + largestRadius)
+          : indexedEntities.map((_, i) => i)
+      const target = candidates
+        .map((i) => indexedEntities[i])
+        .find((e) => !e.isDestroyed && hostile(owner, e) && touches(e))
+      if (!target) return true
+      applyDamage(target, owner, projectile.damage / target.armor)
+      settleHealth(target, owner)
+      return false
+    })
+  }
+
+  // Behaviours get their own random stream per tick, so they never shift the battle's rolls and stay seekable
+  const steeringRandom = (index: number) => {
+    const tickSeed = Math.imul(config.seed ^ Math.imul(state.tick, 0x9e3779b1), 0x85ebca6b)
+    return createRng(tickSeed ^ Math.imul(index + 1, 0xc2b2ae35)).next
+  }
+
+  // Nudge each steered entity's velocity towards the heading its behaviour asks for
+  const steerEntities = () => {
+    if (!steered) return
+
+    const views = new Map(state.entities.filter((e) => !e.isDestroyed).map((e) => [e.id, fighterView(e)]))
+    const shared = {
+      tick: state.tick,
+      time: state.time,
+      arena: Object.freeze({ width: arena.width, height: arena.height }),
+      // Decoys pass for their owner
+      fighters: Object.freeze([
+        ...views.values(),
+        ...state.decoys.flatMap((decoy) => {
+          const owner = views.get(decoy.ownerId)
+          return owner ? [Object.freeze({ ...owner, x: decoy.x, y: decoy.y, vx: decoy.vx, vy: decoy.vy })] : []
+        }),
+      ]),
+      pickups: Object.freeze(state.pickups.map((p) => Object.freeze({ kind: p.kind, x: p.x, y: p.y }))),
+      safeZone: state.safeZone && Object.freeze({ ...state.safeZone }),
+    }
+
+    state.entities.forEach((entity, index) => {
+      const behaviour = behaviours[index]
+      // Frozen and launched entities aren't in control of where they go
+      if (!behaviour || entity.isDestroyed || entity.launchedUntil > state.time || isFrozen(entity)) return
+
+      const world: WorldView = Object.freeze({ ...shared, random: steeringRandom(index) })
+      const heading = runBehaviour(behaviour, views.get(entity.id)!, world)
+      if (!recorded && config.entities[index].behaviour === "custom") {
+        ;(steering[entity.id] ??= [])[state.tick] = heading && [heading.x, heading.y]
+      }
+      if (!heading) return
+
+      const length = Math.hypot(heading.x, heading.y)
+      const speed = topSpeed(entity)
+      const desiredX = length > 0 ? (heading.x / length) * speed : 0
+      const desiredY = length > 0 ? (heading.y / length) * speed : 0
+      const forceX = desiredX - entity.vx
+      const forceY = desiredY - entity.vy
+      const force = Math.hypot(forceX, forceY)
+      const scale = force > STEER_FORCE ? STEER_FORCE / force : 1
+      entity.vx += forceX * scale
+      entity.vy += forceY * scale
+    })
+  }
+
+  const moveEntities = () => {
+    for (const entity of state.entities) {
+      if (entity.isDestroyed || isFrozen(entity)) continue
+
+      entity.x += entity.vx
+      entity.y += entity.vy
+
+      // Boundary collision
+      if (entity.x - entity.radius <= 0 || entity.x + entity.radius >= arena.width) {
+        entity.vx *= -rules.wallRestitution
+        entity.x = Math.max(entity.radius, Math.min(arena.width - entity.radius, entity.x))
+      }
+      if (entity.y - entity.radius <= 0 || entity.y + entity.radius >= arena.height) {
+        entity.vy *= -rules.wallRestitution
+        entity.y = Math.max(entity.radius, Math.min(arena.height - entity.radius, entity.y))
+      }
+
+      resolveStaticCollisions(entity)
+    }
+  }
+
+  // Keep speeds between the minimum (continuous action) and maximum (prevent chaos)
+  const clampSpeeds = () => {
+    for (const entity of state.entities) {
+      if (entity.isDestroyed) continue
+
+      const currentSpeed = Math.sqrt(entity.vx * entity.vx + entity.vy * entity.vy)
+      if (currentSpeed === 0) {
+        entity.vx = MIN_SPEED
+      } else if (currentSpeed < MIN_SPEED) {
+        entity.vx *= MIN_SPEED / currentSpeed
+        entity.vy *= MIN_SPEED / currentSpeed
+      } else if (currentSpeed > topSpeed(entity)) {
+        // A launched entity coasts back down to its top speed instead of stopping dead
+        const cap =
+          entity.launchedUntil > state.time
+            ? Math.max(topSpeed(entity), Math.min(MAX_FLING_SPEED, currentSpeed * LAUNCH_DRAG))
+            : topSpeed(entity)
+        entity.vx *= cap / currentSpeed
+        entity.vy *= cap / currentSpeed
+      }
+    }
+  }
+
+  // Interventions by the tick they land on - replayed from the config, or queued live through intervene()
+  const scheduled: InterventionEvent[] = [...(config.interventions ?? [])]
+
+  const intervene = (intervention: Intervention) => {
+    if (state.ended) return
+    scheduled.push({ ...intervention, tick: state.tick + 1 })
+  }
+
+  // Looked up by id, load() replaces the entity objects
+  const findAlive = (id: string) => state.entities.find((e) => e.id === id && !e.isDestroyed)
+
+  const applyIntervention = (event: InterventionEvent) => {
+    switch (event.kind) {
+      case "fling": {
+        const entity = findAlive(event.entityId)
+        if (!entity) return
+        const speed = Math.hypot(event.vx, event.vy)
+        const scale = speed > MAX_FLING_SPEED ? MAX_FLING_SPEED / speed : 1
+        entity.vx = event.vx * scale
+        entity.vy = event.vy * scale
+        entity.launchedUntil = state.time + LAUNCH_MS
+        break
+      }
+
+      // Pushes everything in reach outwards, weaker towards the edge. Damage is environmental, but a barrier absorbs it
+      case "shockwave":
+        for (const entity of state.entities) {
+          if (entity.isDestroyed) continue
+          const dx = entity.x - event.x
+          const dy = entity.y - event.y
+          const distance = Math.hypot(dx, dy)
+          const reach = event.radius + entity.radius
+          if (distance >= reach) continue
+
+          const falloff = 1 - distance / reach
+          const nx = distance > 0 ? dx / distance : 1
+          const ny = distance > 0 ? dy / distance : 0
+          entity.vx += nx * event.force * falloff
+          entity.vy += ny * event.force * falloff
+          entity.launchedUntil = state.time + LAUNCH_MS
+
+          if (event.damage === 0) continue
+          if (entity.hasBarrier) {
+            entity.hasBarrier = false
+            removeEffect(entity, "shield")
+            continue
+          }
+          entity.health = Math.max(0, entity.health - event.damage * falloff)
+          settleHealth(entity, null)
+        }
+        break
+
+      // Lasts until hit, like the threshold barrier
+      case "barrier": {
+        const entity = findAlive(event.entityId)
+        if (!entity) return
+        entity.hasBarrier = true
+        removeEffect(entity, "shield")
+        break
+      }
+
+      case "freeze":
+        state.frozenZones.push({
+          x: event.x,
+          y: event.y,
+          radius: event.radius,
+          expiresAt: state.time + event.durationMs,
+        })
+        break
+    }
+  }
+
+  const applyInterventions = () => {
+    for (const event of scheduled) {
+      if (event.tick !== state.tick) continue
+      applyIntervention(event)
+      state.interventions.push(event)
+    }
+  }
+
+  const step = () => {
+    if (state.ended) return
+
+    state.tick++
+    state.time = state.tick * TICK_MS
+    state.damageEvents = []
+
+    applyInterventions()
+    useAbilities()
+    fireWeapons()
+    steerEntities()
+    moveEntities()
+    updateDecoys()
+    const collisions = checkCollisions()
+    updateProjectiles()
+    applyHazards()
+    applyHealthRegeneration()
+    expireEffects()
+    clampSpeeds()
+    spawnPickups()
+
+    const alive = state.entities.filter((e) => !e.isDestroyed)
+    state.stats.totalCollisions += collisions
+    state.stats.entitiesDestroyed = state.entities.length - alive.length
+    state.stats.battleTime = state.tick
+
+    // Check victory condition - one side (team or lone entity) left standing
+    const sides = new Set(alive.map(sideOf))
+    if (sides.size <= 1) {
+      const best = alive.reduce<Entity | null>((top, e) => (!top || e.totalDamage > top.totalDamage ? e : top), null)
+      state.ended = true
+      state.winnerId = best?.id ?? null
+      state.winningTeamId = best?.teamId ?? null
+    }
+  }
+
+  const run = (maxTicks = DEFAULT_MAX_TICKS) => {
+    while (!state.ended && state.tick < maxTicks) step()
+    return state
+  }
+
+  const save = (): EngineSnapshot => ({
+    state: structuredClone(state),
+    rngState: rng.getState(),
+  })
+
+  const load = (snapshot: EngineSnapshot) => {
+    Object.assign(state, structuredClone(snapshot.state))
+    rng.setState(snapshot.rngState)
+  }
+
+  return { state, map, step, intervene, run, save, load, steering }
+}
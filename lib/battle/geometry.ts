@@ -0,0 +1,100 @@
+// Static shapes in arena pixels, used by map obstacles and hazards
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export type Shape =
+  | { type: "circle"; x: number; y: number; r: number }
+  // x, y is the top-left corner
+  | { type: "rect"; x: number; y: number; width: number; height: number }
+  | { type: "polygon"; points: Point[] }
+
+function closestOnSegment(a: Point, b: Point, p: Point): Point {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSq = dx * dx + dy * dy
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq))
+  return { x: a.x + t * dx, y: a.y + t * dy }
+}
+
+export function containsPoint(shape: Shape, p: Point) {
+  switch (shape.type) {
+    case "circle":
+      return (p.x - shape.x) ** 2 + (p.y - shape.y) ** 2 <= shape.r * shape.r
+    case "rect":
+      return p.x >= shape.x && p.x <= shape.x + shape.width && p.y >= shape.y && p.y <= shape.y + shape.height
+    case "polygon": {
+      // Even-odd ray cast
+      let inside = false
+      const { points } = shape
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i]
+        const b = points[j]
+        if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside
+      }
+      return inside
+    }
+  }
+}
+
+// Closest point on the shape's outline
+export function closestPointOnEdge(shape: Shape, p: Point): Point {
+  switch (shape.type) {
+    case "circle": {
+      const dx = p.x - shape.x
+      const dy = p.y - shape.y
+      const distance = Math.sqrt(dx * dx + dy * dy)
+      if (distance === 0) return { x: shape.x + shape.r, y: shape.y }
+      return { x: shape.x + (dx / distance) * shape.r, y: shape.y + (dy / distance) * shape.r }
+    }
+    case "rect": {
+      const { x, y, width, height } = shape
+      return closestPointOnEdge(
+        {
+          type: "polygon",
+          points: [
+            { x, y },
+            { x: x + width, y },
+            { x: x + width, y: y + height },
+            { x, y: y + height },
+          ],
+        },
+        p,
+      )
+    }
+    case "polygon": {
+      let best = shape.points[0]
+      let bestDistance = Infinity
+      for (let i = 0; i < shape.points.length; i++) {
+        const candidate = closestOnSegment(shape.points[i], shape.points[(i + 1) % shape.points.length], p)
+        const distance = (candidate.x - p.x) ** 2 + (candidate.y - p.y) ** 2
+        if (distance < bestDistance) {
+          best = candidate
+          bestDistance = distance
+        }
+      }
+      return best
+    }
+  }
+}
+
+// How far a circle has to move to stop overlapping the shape, and which way (null when clear)
+export function circlePenetration(shape: Shape, center: Point, radius: number) {
+  const inside = containsPoint(shape, center)
+  const edge = closestPointOnEdge(shape, center)
+  const dx = center.x - edge.x
+  const dy = center.y - edge.y
+  const distance = Math.sqrt(dx * dx + dy * dy)
+  if (!inside && distance >= radius) return null
+
+  // Outward normal - flipped when the center is already inside the shape
+  let nx = distance > 0 ? dx / distance : 1
+  let ny = distance > 0 ? dy / distance : 0
+  if (inside) {
+    nx = -nx
+    ny = -ny
+  }
+  return { nx, ny, depth: inside ? radius + distance : radius - distance }
+}
@@ -0,0 +1,61 @@
+import { z } from "zod"
+
+// God-mode tools: the viewer reaches into a running battle. Every intervention is recorded with the tick it
+// landed on, so a replay applies the same ones at the same moments and plays out identically.
+
+export type InterventionTool = "inspect" | "fling" | "shockwave" | "barrier" | "freeze"
+
+export const INTERVENTION_TOOLS: Record<InterventionTool, { name: string; color: string; hint: string }> = {
+  inspect: { name: "Inspect", color: "#ffffff", hint: "Click a fighter to inspect it" },
+  fling: { name: "Fling", color: "#00ffff", hint: "Drag a fighter and let go to fling it" },
+  shockwave: { name: "Bomb", color: "#ff4000", hint: "Click to drop a bomb" },
+  barrier: { name: "Barrier", color: "#00ff00", hint: "Click a fighter to grant it a barrier" },
+  freeze: { name: "Freeze", color: "#80c0ff", hint: "Click to freeze time in a region" },
+}
+
+// Flung and blasted entities may exceed their top speed until the launch wears off
+export const MAX_FLING_SPEED = 24
+export const LAUNCH_MS = 1500
+// Per-tick slowdown while faster than the top speed
+export const LAUNCH_DRAG = 0.96
+
+export const SHOCKWAVE_RADIUS = 160
+export const SHOCKWAVE_FORCE = 18
+export const SHOCKWAVE_DAMAGE = 20
+// Ticks the blast ring stays on screen
+export const SHOCKWAVE_RING_TICKS = 20
+
+export const FREEZE_RADIUS = 120
+export const FREEZE_MS = 3000
+
+const coordinate = z.number().finite()
+
+export const interventionSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("fling"), entityId: z.string(), vx: coordinate, vy: coordinate }),
+  z.object({
+    kind: z.literal("shockwave"),
+    x: coordinate,
+    y: coordinate,
+    radius: z.number().positive().max(2000),
+    force: z.number().min(0).max(100),
+    damage: z.number().min(0).max(1000),
+  }),
+  z.object({ kind: z.literal("barrier"), entityId: z.string() }),
+  z.object({
+    kind: z.literal("freeze"),
+    x: coordinate,
+    y: coordinate,
+    radius: z.number().positive().max(2000),
+    durationMs: z.number().positive().max(60000),
+  }),
+])
+
+export type Intervention = z.infer<typeof interventionSchema>
+
+// Applied at the start of the step that advances the battle to this tick
+export const interventionEventSchema = z.intersection(
+  interventionSchema,
+  z.object({ tick: z.number().int().positive() }),
+)
+
+export type InterventionEvent = z.infer<typeof interventionEventSchema>
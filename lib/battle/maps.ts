@@ -0,0 +1,159 @@
+import { z } from "zod"
+
+import type { Shape } from "./geometry"
+import type { ArenaSize } from "./types"
+
+// Map coordinates are fractions of the arena (0-1) so a layout fits every roster size.
+// Circle radii are fractions of the arena's shorter side.
+const unit = z.number().min(0).max(1)
+
+const shapeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("circle"), x: unit, y: unit, r: z.number().positive().max(0.5) }),
+  z.object({ type: z.literal("rect"), x: unit, y: unit, width: unit, height: unit }),
+  z.object({ type: z.literal("polygon"), points: z.array(z.tuple([unit, unit])).min(3).max(32) }),
+])
+
+export const arenaMapSchema = z.object({
+  name: z.string().min(1).max(60),
+  description: z.string().max(200).optional(),
+  // Solid walls entities bounce off
+  obstacles: z.array(shapeSchema).max(50).default([]),
+  // Areas that hurt anything whose center is inside
+  hazards: z.array(z.object({ shape: shapeSchema, damagePerSecond: z.number().min(0).max(200) })).max(20).default([]),
+  // Round obstacles that kick entities away with extra speed
+  bumpers: z
+    .array(z.object({ x: unit, y: unit, r: z.number().positive().max(0.25), boost: z.number().min(0).max(20) }))
+    .max(20)
+    .default([]),
+  // Battle-royale zone centred on the arena, shrinking from the corners to finalRadius of the shorter half-side
+  shrinkingZone: z
+    .object({
+      startMs: z.number().min(0),
+      durationMs: z.number().min(1000),
+      finalRadius: unit,
+      damagePerSecond: z.number().min(0).max(200),
+    })
+    .optional(),
+})
+
+export type ArenaMap = z.infer<typeof arenaMapSchema>
+
+export type ArenaMapId = "open" | "pillars" | "fortress" | "lava" | "royale"
+
+export const ARENA_MAPS: Record<ArenaMapId, ArenaMap> = {
+  open: {
+    name: "Open Arena",
+    description: "The classic empty grid",
+    obstacles: [],
+    hazards: [],
+    bumpers: [],
+  },
+  pillars: {
+    name: "Pillars",
+    description: "Four round pillars and a bumper in the middle",
+    obstacles: [
+      { type: "circle", x: 0.25, y: 0.3, r: 0.06 },
+      { type: "circle", x: 0.75, y: 0.3, r: 0.06 },
+      { type: "circle", x: 0.25, y: 0.7, r: 0.06 },
+      { type: "circle", x: 0.75, y: 0.7, r: 0.06 },
+    ],
+    hazards: [],
+    bumpers: [{ x: 0.5, y: 0.5, r: 0.05, boost: 6 }],
+  },
+  fortress: {
+    name: "Fortress",
+    description: "Walls split the arena into rooms around a central keep",
+    obstacles: [
+      { type: "rect", x: 0.3, y: 0, width: 0.02, height: 0.3 },
+      { type: "rect", x: 0.68, y: 0.7, width: 0.02, height: 0.3 },
+      { type: "rect", x: 0, y: 0.49, width: 0.18, height: 0.02 },
+      { type: "rect", x: 0.82, y: 0.49, width: 0.18, height: 0.02 },
+      {
+        type: "polygon",
+        points: [
+          [0.5, 0.38],
+          [0.56, 0.5],
+          [0.5, 0.62],
+          [0.44, 0.5],
+        ],
+      },
+    ],
+    hazards: [],
+    bumpers: [],
+  },
+  lava: {
+    name: "Lava Pits",
+    description: "Burning pits in the corners, bumpers on the flanks",
+    obstacles: [],
+    hazards: [
+      { shape: { type: "circle", x: 0.15, y: 0.2, r: 0.1 }, damagePerSecond: 15 },
+      { shape: { type: "circle", x: 0.85, y: 0.8, r: 0.1 }, damagePerSecond: 15 },
+      { shape: { type: "rect", x: 0.45, y: 0.42, width: 0.1, height: 0.16 }, damagePerSecond: 25 },
+    ],
+    bumpers: [
+      { x: 0.15, y: 0.8, r: 0.05, boost: 8 },
+      { x: 0.85, y: 0.2, r: 0.05, boost: 8 },
+    ],
+  },
+  royale: {
+    name: "Battle Royale",
+    description: "The safe zone starts closing after 20 seconds",
+    obstacles: [],
+    hazards: [],
+    bumpers: [],
+    shrinkingZone: { startMs: 20000, durationMs: 60000, finalRadius: 0.15, damagePerSecond: 10 },
+  },
+}
+
+export const DEFAULT_MAP = ARENA_MAPS.open
+
+// Validate untrusted input (imported map files, replay files, API requests)
+export function validateArenaMap(input: unknown) {
+  return arenaMapSchema.safeParse(input)
+}
+
+// Map scaled to arena pixels
+export interface ResolvedMap {
+  obstacles: Shape[]
+  hazards: { shape: Shape; damagePerSecond: number }[]
+  bumpers: { x: number; y: number; r: number; boost: number }[]
+  shrinkingZone: ArenaMap["shrinkingZone"] | null
+}
+
+export function resolveMap(map: ArenaMap, arena: ArenaSize): ResolvedMap {
+  const short = Math.min(arena.width, arena.height)
+  const scale = (shape: ArenaMap["obstacles"][number]): Shape => {
+    switch (shape.type) {
+      case "circle":
+        return { type: "circle", x: shape.x * arena.width, y: shape.y * arena.height, r: shape.r * short }
+      case "rect":
+        return {
+          type: "rect",
+          x: shape.x * arena.width,
+          y: shape.y * arena.height,
+          width: shape.width * arena.width,
+          height: shape.height * arena.height,
+        }
+      case "polygon":
+        return { type: "polygon", points: shape.points.map(([x, y]) => ({ x: x * arena.width, y: y * arena.height })) }
+    }
+  }
+
+  return {
+    obstacles: map.obstacles.map(scale),
+    hazards: map.hazards.map(({ shape, damagePerSecond }) => ({ shape: scale(shape), damagePerSecond })),
+    bumpers: map.bumpers.map(({ x, y, r, boost }) => ({ x: x * arena.width, y: y * arena.height, r: r * short, boost })),
+    shrinkingZone: map.shrinkingZone ?? null,
+  }
+}
+
+// Safe zone radius at a point in the battle, or null when the map has no shrinking zone
+export function safeZoneRadius(map: ResolvedMap, arena: ArenaSize, time: number) {
+  const zone = map.shrinkingZone
+  if (!zone) return null
+
+  const start = Math.hypot(arena.width, arena.height) / 2
+  const end = (zone.finalRadius * Math.min(arena.width, arena.height)) / 2
+  const progress = Math.max(0, Math.min(1, (time - zone.startMs) / zone.durationMs))
+  return start + (end - start) * progress
+}
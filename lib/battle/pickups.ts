@@ -0,0 +1,60 @@
+import { z } from "zod"
+
+export type PickupKind = "heal" | "speed" | "shield" | "damage"
+
+export const PICKUP_KINDS: Record<PickupKind, { name: string; color: string; glyph: string; durationMs: number }> = {
+  // Instant, restores a share of max health
+  heal: { name: "Heal", color: "#00ff80", glyph: "+", durationMs: 0 },
+  speed: { name: "Speed", color: "#00ffff", glyph: "»", durationMs: 5000 },
+  // Reuses the barrier: absorbs the next hit, or fades when the time runs out
+  shield: { name: "Shield", color: "#80ff00", glyph: "◈", durationMs: 6000 },
+  damage: { name: "Damage", color: "#ff4000", glyph: "✦", durationMs: 6000 },
+}
+
+export const PICKUP_RADIUS = 14
+export const HEAL_FRACTION = 0.3
+export const SPEED_BOOST = 1.5
+export const DAMAGE_BOOST = 1.5
+
+const weight = z.number().min(0).max(10)
+
+export const pickupSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    spawnIntervalMs: z.number().min(500).max(60000),
+    // No new pickups spawn while this many lie on the ground
+    maxActive: z.number().int().min(1).max(20),
+    // Relative odds of each kind, 0 never spawns it
+    weights: z.object({ heal: weight, speed: weight, shield: weight, damage: weight }),
+  })
+  .refine((settings) => Object.values(settings.weights).some((w) => w > 0), {
+    message: "At least one pickup needs a spawn weight",
+    path: ["weights"],
+  })
+
+export type PickupSettings = z.infer<typeof pickupSettingsSchema>
+
+export const DEFAULT_PICKUP_SETTINGS: PickupSettings = {
+  enabled: true,
+  spawnIntervalMs: 4000,
+  maxActive: 4,
+  weights: { heal: 3, speed: 2, shield: 2, damage: 2 },
+}
+
+// Validate untrusted input (settings form, localStorage, replay files)
+export function validatePickupSettings(input: unknown) {
+  return pickupSettingsSchema.safeParse(input)
+}
+
+// Weighted draw of the next kind to spawn, roll is in [0, 1)
+export function pickPickupKind(weights: PickupSettings["weights"], roll: number): PickupKind {
+  const kinds = Object.keys(PICKUP_KINDS) as PickupKind[]
+  const total = kinds.reduce((sum, kind) => sum + weights[kind], 0)
+  let remaining = roll * total
+  for (const kind of kinds) {
+    remaining -= weights[kind]
+    if (remaining < 0) return kind
+  }
+  // Rounding can leave a sliver past the last weight
+  return [...kinds].reverse().find((kind) => weights[kind] > 0) ?? "heal"
+}
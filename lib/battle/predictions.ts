@@ -0,0 +1,150 @@
+import { DEFAULT_RATING, sidePlacements } from "./elo"
+import { BASE_STAT_PROFILE, type StatProfile } from "./profiles"
+import { createRng } from "./rng"
+import { sideOf } from "./teams"
+import type { BattleState } from "./types"
+
+// Prediction round before a battle: viewers stake virtual points on the champion or the top 3
+
+export const STARTING_POINTS = 1000
+export const PREDICTION_STAKES = [50, 100, 250, 500]
+export const PREDICTION_SECONDS = 20
+export const TOP_PICKS = 3
+
+// Share of every stake the odds keep back, so backing everyone never pays
+const HOUSE_EDGE = 0.05
+const MIN_ODDS = 1.05
+const MAX_ODDS = 250
+// Finishing orders sampled for the top 3 chances
+const TOP_SAMPLES = 2000
+
+export type PredictionMode = "champion" | "top3"
+
+export interface PredictionOdds {
+  id: string
+  // Chance the entrant's side wins, and finishes in the top 3
+  winChance: number
+  top3Chance: number
+  // Decimal odds - a winning stake pays back stake × odds
+  winOdds: number
+  top3Odds: number
+}
+
+// Favourite first
+export interface PredictionMarket {
+  entrants: PredictionOdds[]
+}
+
+export interface PredictionEntrant {
+  id: string
+  teamId?: string
+  stats?: StatProfile
+  // Career rating, DEFAULT_RATING for newcomers
+  rating?: number
+}
+
+// Odds are locked in when the ticket is placed
+export interface PredictionTicket {
+  mode: PredictionMode
+  picks: string[]
+  odds: number[]
+  stake: number
+}
+
+export interface PredictionResult {
+  ticket: PredictionTicket
+  // Picks that came true
+  correct: string[]
+  payout: number
+}
+
+// A build's edge over the base profile, in rating points
+function statRating(stats: StatProfile = BASE_STAT_PROFILE) {
+  const power =
+    ((stats.health * stats.armor * stats.damage) /
+      (BASE_STAT_PROFILE.health * BASE_STAT_PROFILE.armor * BASE_STAT_PROFILE.damage)) *
+    Math.sqrt(stats.speed / BASE_STAT_PROFILE.speed)
+  return 400 * Math.log10(power)
+}
+
+function toOdds(chance: number) {
+  const odds = (1 - HOUSE_EDGE) / Math.max(chance, 1e-6)
+  return Math.round(Math.min(MAX_ODDS, Math.max(MIN_ODDS, odds)) * 100) / 100
+}
+
+// Strength is past form (Elo) plus the build. Wins are a straight share of strength by side; the top 3 comes from
+// sampling finishing orders (Plackett-Luce) where a side places when its first member is drawn.
+export function createPredictionMarket(entrants: PredictionEntrant[], seed: number): PredictionMarket {
+  const strengths = entrants.map(
+    (entrant) => 10 ** (((entrant.rating ?? DEFAULT_RATING) - DEFAULT_RATING + statRating(entrant.stats)) / 400),
+  )
+  const sides = entrants.map((entrant) => sideOf({ id: entrant.id, teamId: entrant.teamId ?? null }))
+  const total = strengths.reduce((sum, strength) => sum + strength, 0)
+
+  const sideStrength = new Map<string, number>()
+  sides.forEach((side, i) => sideStrength.set(side, (sideStrength.get(side) ?? 0) + strengths[i]))
+
+  // Seeded from the battle, so everyone watching sees the same odds
+  const rng = createRng(seed)
+  const sideTopCounts = new Map<string, number>()
+  const sideCount = sideStrength.size
+  for (let sample = 0; sample < TOP_SAMPLES; sample++) {
+    const remaining = [...strengths]
+    let remainingTotal = total
+    const placed = new Set<string>()
+    while (placed.size < Math.min(TOP_PICKS, sideCount) && remainingTotal > 0) {
+      let roll = rng.next() * remainingTotal
+      let index = 0
+      while (index < remaining.length - 1 && roll >= remaining[index]) roll -= remaining[index++]
+      remainingTotal -= remaining[index]
+      remaining[index] = 0
+      placed.add(sides[index])
+    }
+    for (const side of placed) sideTopCounts.set(side, (sideTopCounts.get(side) ?? 0) + 1)
+  }
+
+  const odds = entrants.map((entrant, i) => {
+    const winChance = sideStrength.get(sides[i])! / total
+    // Sampling can't see chances far below 1 in TOP_SAMPLES, but a top 3 is never less likely than a win
+    const top3Chance = Math.max(winChance, (sideTopCounts.get(sides[i]) ?? 0) / TOP_SAMPLES)
+    return { id: entrant.id, winChance, top3Chance, winOdds: toOdds(winChance), top3Odds: toOdds(top3Chance) }
+  })
+
+  return { entrants: odds.sort((a, b) => b.winChance - a.winChance) }
+}
+
+export function createTicket(
+  market: PredictionMarket,
+  mode: PredictionMode,
+  picks: string[],
+  stake: number,
+): PredictionTicket {
+  const oddsOf = (id: string) => market.entrants.find((entrant) => entrant.id === id)
+  return {
+    mode,
+    picks,
+    odds: picks.map((id) => (mode === "champion" ? oddsOf(id)?.winOdds : oddsOf(id)?.top3Odds) ?? MIN_ODDS),
+    stake,
+  }
+}
+
+// A champion pick pays stake × odds when its side wins; each top 3 pick pays a third of the stake × its odds
+export function settlePrediction(
+  ticket: PredictionTicket,
+  state: Pick<BattleState, "entities" | "killFeed" | "ended">,
+): PredictionResult {
+  const placements = sidePlacements(state)
+  const cutoff = ticket.mode === "champion" ? 1 : TOP_PICKS
+  // A battle cut short has no champion
+  const correct = ticket.picks.filter(
+    (id) => (ticket.mode === "top3" || state.ended) && (placements.get(id) ?? Infinity) <= cutoff,
+  )
+
+  const share = ticket.stake / ticket.picks.length
+  const payout = ticket.picks.reduce(
+    (sum, id, i) => (correct.includes(id) ? sum + Math.round(share * ticket.odds[i]) : sum),
+    0,
+  )
+
+  return { ticket, correct, payout }
+}
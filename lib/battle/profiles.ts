@@ -0,0 +1,50 @@
+import { z } from "zod"
+
+// Per-entity stat profile chosen before a battle, entities without one keep the random defaults
+export const statProfileSchema = z.object({
+  // Multiplier on the rule set's max health
+  health: z.number().min(0.5).max(3),
+  // Launch speed, also scales the entity's top speed
+  speed: z.number().min(2).max(6),
+  radius: z.number().min(30).max(100),
+  // Incoming damage is divided by armor
+  armor: z.number().min(0.5).max(2),
+  // Outgoing damage multiplier
+  damage: z.number().min(0.5).max(2),
+})
+
+export type StatProfile = z.infer<typeof statProfileSchema>
+
+export type StatKey = keyof StatProfile
+
+// Average of the random defaults, every stat here costs nothing
+export const BASE_STAT_PROFILE: StatProfile = { health: 1, speed: 4, radius: 60, armor: 1, damage: 1 }
+
+export const STAT_FIELDS: { key: StatKey; label: string; step: number; unit: string; pointsPerStep: number }[] = [
+  { key: "health", label: "Health", step: 0.1, unit: "×", pointsPerStep: 1 },
+  { key: "speed", label: "Speed", step: 0.5, unit: "px/tick", pointsPerStep: 2 },
+  { key: "radius", label: "Size", step: 5, unit: "px", pointsPerStep: 1 },
+  { key: "armor", label: "Armor", step: 0.1, unit: "×", pointsPerStep: 1 },
+  { key: "damage", label: "Damage", step: 0.1, unit: "×", pointsPerStep: 1 },
+]
+
+// Points a build may spend above the base profile in point-budget mode
+export const STAT_POINT_BUDGET = 10
+
+export function statRange(key: StatKey) {
+  const shape = statProfileSchema.shape[key]
+  return { min: shape.minValue ?? 0, max: shape.maxValue ?? 0 }
+}
+
+// Points spent by a profile, stats below the base refund points
+export function profileCost(profile: StatProfile) {
+  return STAT_FIELDS.reduce(
+    (total, { key, step, pointsPerStep }) =>
+      total + Math.round((profile[key] - BASE_STAT_PROFILE[key]) / step) * pointsPerStep,
+    0,
+  )
+}
+
+export function withinBudget(profile: StatProfile, budget = STAT_POINT_BUDGET) {
+  return profileCost(profile) <= budget
+}
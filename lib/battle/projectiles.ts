@@ -0,0 +1,57 @@
+import { z } from "zod"
+
+// Bullets and orbs come from ranged weapons, bolts from the projectile ability
+export type ProjectileKind = "bullet" | "orb" | "bolt"
+export type WeaponKind = Exclude<ProjectileKind, "bolt">
+
+export const PROJECTILE_KINDS: Record<
+  ProjectileKind,
+  {
+    name: string
+    // Arena pixels per tick
+    speed: number
+    damage: number
+    radius: number
+    lifetimeMs: number
+    // Radians per tick a homing projectile turns towards its target, 0 flies straight
+    turnRate: number
+  }
+> = {
+  bullet: { name: "Bullets", speed: 14, damage: 5, radius: 4, lifetimeMs: 1000, turnRate: 0 },
+  orb: { name: "Homing orbs", speed: 6, damage: 9, radius: 8, lifetimeMs: 3000, turnRate: 0.08 },
+  bolt: { name: "Bolt", speed: 12, damage: 8, radius: 5, lifetimeMs: 1200, turnRate: 0 },
+}
+
+export const rangedSettingsSchema = z.object({
+  enabled: z.boolean(),
+  // "mixed" rolls bullets or orbs for each fighter
+  weapon: z.enum(["bullet", "orb", "mixed"]),
+  fireIntervalMs: z.number().min(250).max(10000),
+  // Fighters only shoot at enemies this close
+  range: z.number().min(100).max(2000),
+  // Multiplies projectile damage
+  damageScale: z.number().min(0).max(3),
+})
+
+export type RangedSettings = z.infer<typeof rangedSettingsSchema>
+
+export const DEFAULT_RANGED_SETTINGS: RangedSettings = {
+  enabled: false,
+  weapon: "mixed",
+  fireIntervalMs: 1500,
+  range: 500,
+  damageScale: 1,
+}
+
+// Velocity of a projectile fired from one point at a moving target, leading it by the flight time
+export function aimAt(
+  from: { x: number; y: number },
+  target: { x: number; y: number; vx: number; vy: number },
+  speed: number,
+) {
+  const flight = Math.hypot(target.x - from.x, target.y - from.y) / speed
+  const dx = target.x + target.vx * flight - from.x
+  const dy = target.y + target.vy * flight - from.y
+  const distance = Math.hypot(dx, dy)
+  return distance > 0 ? { vx: (dx / distance) * speed, vy: (dy / distance) * speed } : { vx: speed, vy: 0 }
+}
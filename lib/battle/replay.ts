@@ -0,0 +1,143 @@
+import { z } from "zod"
+
+import { abilitySettingsSchema } from "./abilities"
+import { MAX_STRATEGY_LENGTH, behaviourIdSchema, recordedSteeringSchema, type RecordedSteering } from "./behaviours"
+import { ENGINE_VERSION, TICK_RATE, createBattleEngine, type EngineSnapshot } from "./engine"
+import { interventionEventSchema } from "./interventions"
+import { arenaMapSchema } from "./maps"
+import { pickupSettingsSchema } from "./pickups"
+import { rangedSettingsSchema } from "./projectiles"
+import { statProfileSchema } from "./profiles"
+import { ruleSetSchema } from "./rules"
+import type { BattleConfig, BattleState } from "./types"
+import { describeValidationError } from "./validation"
+
+export const REPLAY_VERSION = 1
+
+// Snapshot every 2 seconds of battle so seeking never re-simulates much
+const KEYFRAME_INTERVAL = TICK_RATE * 2
+
+// A battle's full setup, as carried by replays and room snapshots
+export const battleConfigSchema = z.object({
+  seed: z.number().int().nonnegative(),
+  arena: z.object({ width: z.number().positive(), height: z.number().positive() }),
+  entities: z.array(
+    z.object({
+      id: z.string(),
+      teamId: z.string().optional(),
+      stats: statProfileSchema.optional(),
+      behaviour: behaviourIdSchema.optional(),
+      strategy: z.string().max(MAX_STRATEGY_LENGTH).optional(),
+    }),
+  ),
+  rules: ruleSetSchema.optional(),
+  friendlyFire: z.boolean().optional(),
+  pickups: pickupSettingsSchema.optional(),
+  map: arenaMapSchema.optional(),
+  interventions: z.array(interventionEventSchema).optional(),
+  abilities: abilitySettingsSchema.optional(),
+  ranged: rangedSettingsSchema.optional(),
+  steering: recordedSteeringSchema.optional(),
+})
+
+const replaySchema = z.object({
+  version: z.literal(REPLAY_VERSION),
+  engineVersion: z.number().int(),
+  createdAt: z.string(),
+  config: battleConfigSchema,
+  images: z.array(z.object({ id: z.string(), name: z.string(), src: z.string() })),
+  ticks: z.number().int().nonnegative(),
+  winnerId: z.string().nullable(),
+})
+
+export type ReplayImage = z.infer<typeof replaySchema>["images"][number]
+
+// Everything needed to re-run a battle identically: seed, config and images
+export type BattleReplay = z.infer<typeof replaySchema>
+
+export function createReplay(
+  config: BattleConfig,
+  images: ReplayImage[],
+  finalState: Pick<BattleState, "tick" | "winnerId" | "interventions">,
+  // Answers of the custom strategies, so playing the replay never runs their scripts
+  steering: RecordedSteering = {},
+): BattleReplay {
+  // Interventions made live are only known once the battle is over
+  const { interventions } = finalState
+  return {
+    version: REPLAY_VERSION,
+    engineVersion: ENGINE_VERSION,
+    createdAt: new Date().toISOString(),
+    config: {
+      ...config,
+      ...(interventions.length > 0 && { interventions }),
+      ...(Object.keys(steering).length > 0 && { steering }),
+    },
+    images,
+    ticks: finalState.tick,
+    winnerId: finalState.winnerId,
+  }
+}
+
+export function serializeReplay(replay: BattleReplay) {
+  return JSON.stringify(replay)
+}
+
+export function parseReplay(text: string): BattleReplay {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("Replay file is not valid JSON")
+  }
+
+  const result = replaySchema.safeParse(data)
+  if (!result.success) {
+    throw new Error(`Invalid replay file: ${describeValidationError(result.error)}`)
+  }
+  // The same seed plays out differently on another engine version
+  if (result.data.engineVersion !== ENGINE_VERSION) {
+    throw new Error(
+      `Replay was recorded with engine v${result.data.engineVersion}, this arena runs v${ENGINE_VERSION}`,
+    )
+  }
+  return result.data
+}
+
+export interface ReplayPlayer {
+  readonly state: BattleState
+  readonly duration: number
+  // Advance one tick, returns false once the end of the replay is reached
+  step: () => boolean
+  seek: (tick: number) => void
+}
+
+export function createReplayPlayer(replay: BattleReplay): ReplayPlayer {
+  const engine = createBattleEngine(replay.config, { strategies: "recorded" })
+  const duration = replay.ticks
+  const keyframes: EngineSnapshot[] = [engine.save()]
+
+  const step = () => {
+    if (engine.state.tick >= duration) return false
+
+    engine.step()
+    const { tick } = engine.state
+    if (tick % KEYFRAME_INTERVAL === 0 && keyframes.length === tick / KEYFRAME_INTERVAL) {
+      keyframes.push(engine.save())
+    }
+    return true
+  }
+
+  const seek = (tick: number) => {
+    const target = Math.max(0, Math.min(duration, Math.round(tick)))
+    const keyframe = Math.min(Math.floor(target / KEYFRAME_INTERVAL), keyframes.length - 1)
+
+    // Jump to the nearest keyframe unless we can simply keep stepping forward
+    if (target < engine.state.tick || keyframe * KEYFRAME_INTERVAL > engine.state.tick) {
+      engine.load(keyframes[keyframe])
+    }
+    while (engine.state.tick < target) step()
+  }
+
+  return { state: engine.state, duration, step, seek }
+}
@@ -0,0 +1,88 @@
+import { TICK_RATE } from "./engine"
+import type { BattleTimeline } from "./timeline"
+import type { BattleState } from "./types"
+
+export interface EntityReport {
+  id: string
+  name: string
+  teamId: string | null
+  // 1 is the winner
+  placement: number
+  kills: number
+  assists: number
+  totalDamage: number
+  finalHealth: number
+  maxHealth: number
+  // Seconds into the battle, null for survivors
+  eliminatedAt: number | null
+  eliminatedBy: string | null
+}
+
+export interface BattleReport {
+  durationSeconds: number
+  totalCollisions: number
+  entities: EntityReport[]
+}
+
+// Per-entity results: the engine's declared winner first, then the other survivors (by health then damage), then
+// the fallen by how long they lasted
+export function buildBattleReport(
+  timeline: BattleTimeline,
+  state: Pick<BattleState, "tick" | "entities" | "stats" | "winnerId">,
+  names: ReadonlyMap<string, string>,
+): BattleReport {
+  const eliminations = new Map(timeline.eliminations.map((event) => [event.victimId, event]))
+
+  const ranked = [...state.entities].sort((a, b) => {
+    const aTick = eliminations.get(a.id)?.tick ?? Infinity
+    const bTick = eliminations.get(b.id)?.tick ?? Infinity
+    const won = Number(b.id === state.winnerId) - Number(a.id === state.winnerId)
+    return won || bTick - aTick || b.health - a.health || b.totalDamage - a.totalDamage
+  })
+
+  return {
+    durationSeconds: state.tick / TICK_RATE,
+    totalCollisions: state.stats.totalCollisions,
+    entities: ranked.map((entity, i) => {
+      const elimination = eliminations.get(entity.id)
+      return {
+        id: entity.id,
+        name: names.get(entity.id) ?? entity.id,
+        teamId: entity.teamId,
+        placement: i + 1,
+        kills: entity.kills,
+        assists: entity.assists,
+        totalDamage: Math.round(entity.totalDamage),
+        finalHealth: Math.round(entity.health),
+        maxHealth: entity.maxHealth,
+        eliminatedAt: elimination ? Math.round((elimination.tick / TICK_RATE) * 100) / 100 : null,
+        eliminatedBy: elimination?.killerId ? (names.get(elimination.killerId) ?? elimination.killerId) : null,
+      }
+    }),
+  }
+}
+
+const CSV_COLUMNS: (keyof EntityReport)[] = [
+  "placement",
+  "id",
+  "name",
+  "teamId",
+  "kills",
+  "assists",
+  "totalDamage",
+  "finalHealth",
+  "maxHealth",
+  "eliminatedAt",
+  "eliminatedBy",
+]
+
+function csvCell(value: EntityReport[keyof EntityReport]) {
+  if (value === null) return ""
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function reportToCsv(report: BattleReport) {
+  const rows = report.entities.map((entity) => CSV_COLUMNS.map((column) => csvCell(entity[column])).join(","))
+  return [CSV_COLUMNS.join(","), ...rows].join("\n")
+}
@@ -0,0 +1,44 @@
+// Seeded pseudo-random number generator (mulberry32)
+// Every random roll in the simulation goes through this so a seed fully
+// determines the outcome of a battle.
+
+export interface Rng {
+  /** Float in [0, 1) */
+  next: () => number
+  /** Float in [min, max) */
+  range: (min: number, max: number) => number
+  /** Integer in [0, maxExclusive) */
+  int: (maxExclusive: number) => number
+  pick: <T>(items: readonly T[]) => T
+  // Internal generator state, for snapshotting an in-progress battle
+  getState: () => number
+  setState: (state: number) => void
+}
+
+export function createRng(seed: number): Rng {
+  let s = seed >>> 0
+
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0
+    let t = s
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const range = (min: number, max: number) => min + next() * (max - min)
+  const int = (maxExclusive: number) => Math.floor(next() * maxExclusive)
+  const pick = <T>(items: readonly T[]) => items[int(items.length)]
+
+  const getState = () => s
+  const setState = (state: number) => {
+    s = state >>> 0
+  }
+
+  return { next, range, int, pick, getState, setState }
+}
+
+// Fresh seed for a new battle (UI only - never call from the engine)
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
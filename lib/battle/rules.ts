@@ -0,0 +1,109 @@
+import { z } from "zod"
+
+// Every tunable combat constant, validated so bad input can't break a battle
+export const ruleSetSchema = z
+  .object({
+    maxHealth: z.number().min(1).max(10000),
+    // Largest damage a single hit can deal
+    damageCap: z.number().positive(),
+    // Damage dealt per unit of collision impulse
+    impactDamageScale: z.number().min(0),
+    // Out-of-combat time before regeneration starts
+    regenDelayMs: z.number().min(0),
+    regenIntervalMs: z.number().min(100),
+    regenAmount: z.number().min(0),
+    comboWindowMs: z.number().min(0),
+    // Bonus per consecutive hit, up to comboMultiplierCap
+    comboStep: z.number().min(0),
+    comboMultiplierCap: z.number().min(1),
+    // One-shot barrier that absorbs the next hit once health drops to the threshold
+    barrierEnabled: z.boolean(),
+    barrierThreshold: z.number().min(0),
+    // 1 keeps all energy, 0 stops dead
+    restitution: z.number().min(0).max(1),
+    wallRestitution: z.number().min(0).max(1),
+  })
+  .refine((rules) => rules.barrierThreshold < rules.maxHealth, {
+    message: "Barrier threshold must be below max health",
+    path: ["barrierThreshold"],
+  })
+
+export type RuleSet = z.infer<typeof ruleSetSchema>
+
+export type RulePresetId = "classic" | "hardcore" | "tanky"
+
+export const RULE_PRESETS: Record<RulePresetId, { name: string; description: string; rules: RuleSet }> = {
+  classic: {
+    name: "Classic",
+    description: "The original arena balance",
+    rules: {
+      maxHealth: 100,
+      damageCap: 35,
+      impactDamageScale: 2,
+      regenDelayMs: 3000,
+      regenIntervalMs: 5000,
+      regenAmount: 1,
+      comboWindowMs: 2000,
+      comboStep: 0.25,
+      comboMultiplierCap: 1.5,
+      barrierEnabled: true,
+      barrierThreshold: 1,
+      restitution: 0.95,
+      wallRestitution: 0.95,
+    },
+  },
+  hardcore: {
+    name: "Hardcore",
+    description: "Low health, hard hits, no regen or barrier",
+    rules: {
+      maxHealth: 60,
+      damageCap: 50,
+      impactDamageScale: 3,
+      regenDelayMs: 3000,
+      regenIntervalMs: 5000,
+      regenAmount: 0,
+      comboWindowMs: 3000,
+      comboStep: 0.5,
+      comboMultiplierCap: 2,
+      barrierEnabled: false,
+      barrierThreshold: 0,
+      restitution: 1,
+      wallRestitution: 1,
+    },
+  },
+  tanky: {
+    name: "Tanky",
+    description: "Long fights with steady regen and an early barrier",
+    rules: {
+      maxHealth: 200,
+      damageCap: 30,
+      impactDamageScale: 2,
+      regenDelayMs: 4000,
+      regenIntervalMs: 3000,
+      regenAmount: 2,
+      comboWindowMs: 1500,
+      comboStep: 0.1,
+      comboMultiplierCap: 1.25,
+      barrierEnabled: true,
+      barrierThreshold: 25,
+      restitution: 0.9,
+      wallRestitution: 0.95,
+    },
+  },
+}
+
+export const DEFAULT_RULES = RULE_PRESETS.classic.rules
+
+// Validate untrusted input (settings form, localStorage, API requests)
+export function validateRuleSet(input: unknown) {
+  return ruleSetSchema.safeParse(input)
+}
+
+// Preset whose rules match exactly, or null for a custom rule set
+export function matchRulePreset(rules: RuleSet): RulePresetId | null {
+  for (const [id, preset] of Object.entries(RULE_PRESETS) as [RulePresetId, (typeof RULE_PRESETS)[RulePresetId]][]) {
+    const keys = Object.keys(preset.rules) as (keyof RuleSet)[]
+    if (keys.every((key) => preset.rules[key] === rules[key])) return id
+  }
+  return null
+}
@@ -0,0 +1,92 @@
+import type { BattleConfig, BattleState } from "./types"
+import type { SandboxRequest, SandboxResponse } from "./worker-protocol"
+
+// How long a dry run may take, and how long a simulated battle may go without progress
+const CHECK_TIMEOUT_MS = 1000
+const STALL_TIMEOUT_MS = 2000
+
+export interface StrategySandbox {
+  // What's wrong with a strategy, or null once it compiles and answers in time
+  check: (source: string) => Promise<string | null>
+  // Final state of a headless battle, rejects when it fails or stalls
+  run: (config: BattleConfig) => Promise<BattleState>
+  dispose: () => void
+}
+
+// A worker for running custom strategies off the page, one request at a time. A request that outlives its deadline
+// terminates the worker, the next request starts a fresh one.
+export function createStrategySandbox(): StrategySandbox {
+  let worker: Worker | null = null
+  let ready: Promise<void> = Promise.resolve()
+
+  const dispose = () => {
+    worker?.terminate()
+    worker = null
+  }
+
+  const spawn = () => {
+    const spawned = new Worker(new URL("./sandbox.worker.ts", import.meta.url))
+    // Loading the script doesn't count towards any deadline
+    ready = new Promise((resolve, reject) => {
+      spawned.onmessage = () => resolve()
+      spawned.onerror = (event) => {
+        event.preventDefault()
+        reject(new Error(event.message || "Could not start the strategy sandbox"))
+      }
+    })
+    worker = spawned
+    return spawned
+  }
+
+  const request = async (message: SandboxRequest, timeoutMs: number, timeoutMessage: string) => {
+    const current = worker ?? spawn()
+    await ready
+
+    return new Promise<SandboxResponse>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const fail = (error: Error) => {
+        clearTimeout(timer)
+        if (worker === current) dispose()
+        reject(error)
+      }
+      const arm = () => {
+        clearTimeout(timer)
+        timer = setTimeout(() => fail(new Error(timeoutMessage)), timeoutMs)
+      }
+
+      current.onmessage = (event: MessageEvent<SandboxResponse>) => {
+        if (event.data.type === "progress") return arm()
+        clearTimeout(timer)
+        resolve(event.data)
+      }
+      current.onerror = (event) => {
+        event.preventDefault()
+        fail(new Error(event.message || "The strategy sandbox crashed"))
+      }
+      arm()
+      current.postMessage(message)
+    })
+  }
+
+  const check = async (source: string) => {
+    try {
+      const response = await request({ type: "check", source }, CHECK_TIMEOUT_MS, "Strategy took too long to answer")
+      return response.type === "checked" ? response.problem : "Unexpected answer from the strategy sandbox"
+    } catch (error) {
+      return error instanceof Error ? error.message : "Could not check the strategy"
+    }
+  }
+
+  const run = async (config: BattleConfig) => {
+    const response = await request(
+      { type: "run", config },
+      STALL_TIMEOUT_MS,
+      "A simulated battle stopped responding, a custom strategy may be stuck in a loop",
+    )
+    if (response.type === "error") throw new Error(response.message)
+    if (response.type !== "result") throw new Error("Unexpected answer from the strategy sandbox")
+    return response.state
+  }
+
+  return { check, run, dispose }
+}
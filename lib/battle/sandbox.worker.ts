@@ -0,0 +1,42 @@
+// Runs custom strategy scripts so the page never has to: dry runs for the behaviour editor and headless battles for
+// simulated tournament matches. The page terminates it once it stops answering.
+
+import { checkStrategy } from "./behaviours"
+import { DEFAULT_MAX_TICKS, TICK_RATE, createBattleEngine } from "./engine"
+import type { SandboxRequest, SandboxResponse } from "./worker-protocol"
+
+const worker = self as unknown as Worker
+
+// Report progress once per second of battle, so the page can tell a long battle from a stuck one
+const PROGRESS_INTERVAL_TICKS = TICK_RATE
+
+const post = (message: SandboxResponse) => worker.postMessage(message)
+
+const run = (request: Extract<SandboxRequest, { type: "run" }>) => {
+  const engine = createBattleEngine(request.config)
+  while (!engine.state.ended && engine.state.tick < DEFAULT_MAX_TICKS) {
+    engine.step()
+    if (engine.state.tick % PROGRESS_INTERVAL_TICKS === 0) post({ type: "progress", tick: engine.state.tick })
+  }
+  post({ type: "result", state: engine.state })
+}
+
+worker.onmessage = (event: MessageEvent<SandboxRequest>) => {
+  const message = event.data
+
+  switch (message.type) {
+    case "check":
+      post({ type: "checked", problem: checkStrategy(message.source) })
+      break
+
+    case "run":
+      try {
+        run(message)
+      } catch (error) {
+        post({ type: "error", message: error instanceof Error ? error.message : "The battle failed" })
+      }
+      break
+  }
+}
+
+post({ type: "ready" })
@@ -0,0 +1,41 @@
+import type { Entity } from "./types"
+
+// Per-frame entity data streamed from the worker when it cannot draw itself:
+// x, y, radius, health, maxHealth, flags
+const FRAME_STRIDE = 6
+const FLAG_BARRIER = 1
+const FLAG_DESTROYED = 2
+
+export function packFrame(entities: readonly Entity[]) {
+  const buffer = new Float32Array(entities.length * FRAME_STRIDE)
+
+  entities.forEach((entity, i) => {
+    const offset = i * FRAME_STRIDE
+    buffer[offset] = entity.x
+    buffer[offset + 1] = entity.y
+    buffer[offset + 2] = entity.radius
+    buffer[offset + 3] = entity.health
+    buffer[offset + 4] = entity.maxHealth
+    buffer[offset + 5] = (entity.hasBarrier ? FLAG_BARRIER : 0) | (entity.isDestroyed ? FLAG_DESTROYED : 0)
+  })
+
+  return buffer
+}
+
+// Write a packed frame into entities from the latest full snapshot (same order)
+export function unpackFrame(buffer: Float32Array, entities: Entity[]) {
+  const count = Math.min(entities.length, buffer.length / FRAME_STRIDE)
+
+  for (let i = 0; i < count; i++) {
+    const entity = entities[i]
+    const offset = i * FRAME_STRIDE
+    const flags = buffer[offset + 5]
+    entity.x = buffer[offset]
+    entity.y = buffer[offset + 1]
+    entity.radius = buffer[offset + 2]
+    entity.health = buffer[offset + 3]
+    entity.maxHealth = buffer[offset + 4]
+    entity.hasBarrier = (flags & FLAG_BARRIER) !== 0
+    entity.isDestroyed = (flags & FLAG_DESTROYED) !== 0
+  }
+}
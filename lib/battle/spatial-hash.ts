@@ -0,0 +1,89 @@
+// Uniform grid broadphase for circle collisions
+// Each circle is inserted into every cell its bounding box touches. A pair
+// sharing several cells is only reported from the first cell of their
+// overlap, so no dedupe set is needed.
+
+export interface UniformGrid {
+  clear: () => void
+  // Indices must be inserted in ascending order
+  insert: (index: number, x: number, y: number, radius: number) => void
+  // Candidate pairs [i, j] with i < j, sorted the same way as a nested pair loop
+  pairs: () => [number, number][]
+  // Indices sharing a cell with the box around a circle, ascending and without repeats
+  query: (x: number, y: number, radius: number) => number[]
+}
+
+export function createUniformGrid(width: number, height: number, cellSize: number): UniformGrid {
+  const cols = Math.max(1, Math.ceil(width / cellSize))
+  const rows = Math.max(1, Math.ceil(height / cellSize))
+  const cells: number[][] = Array.from({ length: cols * rows }, () => [])
+  const occupied: number[] = []
+  // Cell range per inserted index: minCx, minCy, maxCx, maxCy
+  const bounds: number[] = []
+  let count = 0
+
+  const cellX = (x: number) => Math.min(cols - 1, Math.max(0, Math.floor(x / cellSize)))
+  const cellY = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor(y / cellSize)))
+
+  const clear = () => {
+    for (const cell of occupied) cells[cell].length = 0
+    occupied.length = 0
+    bounds.length = 0
+    count = 0
+  }
+
+  const insert = (index: number, x: number, y: number, radius: number) => {
+    const minCx = cellX(x - radius)
+    const minCy = cellY(y - radius)
+    const maxCx = cellX(x + radius)
+    const maxCy = cellY(y + radius)
+    bounds[index * 4] = minCx
+    bounds[index * 4 + 1] = minCy
+    bounds[index * 4 + 2] = maxCx
+    bounds[index * 4 + 3] = maxCy
+    count = Math.max(count, index + 1)
+
+    for (let cy = minCy; cy <= maxCy; cy++) {
+      for (let cx = minCx; cx <= maxCx; cx++) {
+        const cell = cells[cy * cols + cx]
+        if (cell.length === 0) occupied.push(cy * cols + cx)
+        cell.push(index)
+      }
+    }
+  }
+
+  const pairs = () => {
+    const keys: number[] = []
+
+    for (const cellIndex of occupied) {
+      const cx = cellIndex % cols
+      const cy = Math.floor(cellIndex / cols)
+      const cell = cells[cellIndex]
+
+      for (let a = 0; a < cell.length; a++) {
+        const i = cell[a]
+        for (let b = a + 1; b < cell.length; b++) {
+          const j = cell[b]
+          // Only report the pair from the top-left cell both of them touch
+          if (Math.max(bounds[i * 4], bounds[j * 4]) !== cx) continue
+          if (Math.max(bounds[i * 4 + 1], bounds[j * 4 + 1]) !== cy) continue
+          keys.push(i * count + j)
+        }
+      }
+    }
+
+    keys.sort((a, b) => a - b)
+    return keys.map((key): [number, number] => [Math.floor(key / count), key % count])
+  }
+
+  const query = (x: number, y: number, radius: number) => {
+    const found: number[] = []
+    for (let cy = cellY(y - radius); cy <= cellY(y + radius); cy++) {
+      for (let cx = cellX(x - radius); cx <= cellX(x + radius); cx++) found.push(...cells[cy * cols + cx])
+    }
+    found.sort((a, b) => a - b)
+    return found.filter((index, i) => i === 0 || index !== found[i - 1])
+  }
+
+  return { clear, insert, pairs, query }
+}
@@ -0,0 +1,30 @@
+// Team allegiance for team battles
+
+export interface Team {
+  id: string
+  name: string
+  // Aura tint for every member
+  color: string
+}
+
+export const TEAMS: Team[] = [
+  { id: "red", name: "Red Team", color: "#ff0040" },
+  { id: "blue", name: "Blue Team", color: "#0080ff" },
+  { id: "green", name: "Green Team", color: "#80ff00" },
+  { id: "yellow", name: "Yellow Team", color: "#ffff00" },
+]
+
+export function findTeam(teamId: string | null | undefined) {
+  return TEAMS.find((team) => team.id === teamId) ?? null
+}
+
+// Deal fighters out to teams in turn, keeping team sizes within one of each other
+export function autoSplitTeams(ids: string[], teamCount: number) {
+  const teams = TEAMS.slice(0, Math.max(1, Math.min(TEAMS.length, teamCount)))
+  return new Map(ids.map((id, i) => [id, teams[i % teams.length].id]))
+}
+
+// Side an entity fights for - its team, or itself when unassigned
+export function sideOf(entity: { id: string; teamId: string | null }) {
+  return entity.teamId ?? `solo:${entity.id}`
+}
@@ -0,0 +1,62 @@
+import { TICK_RATE } from "./engine"
+import type { BattleState, KillEvent } from "./types"
+
+// Health is sampled four times a second, eliminations are exact to the tick
+export const TIMELINE_SAMPLE_TICKS = TICK_RATE / 4
+
+export interface TimelineSample {
+  tick: number
+  alive: number
+  // Cumulative, like BattleStats.totalCollisions
+  collisions: number
+  // Rounded health per entity, in the order of BattleTimeline.entityIds
+  health: number[]
+}
+
+export interface BattleTimeline {
+  entityIds: string[]
+  sampleTicks: number
+  samples: TimelineSample[]
+  eliminations: KillEvent[]
+  // Total damage per attacker, then per victim
+  damageDealt: Record<string, Record<string, number>>
+}
+
+export interface TimelineRecorder {
+  // Call after every engine step
+  record: (state: BattleState) => void
+  readonly timeline: BattleTimeline
+}
+
+export function createTimelineRecorder(initial: BattleState): TimelineRecorder {
+  const timeline: BattleTimeline = {
+    entityIds: initial.entities.map((entity) => entity.id),
+    sampleTicks: TIMELINE_SAMPLE_TICKS,
+    samples: [],
+    eliminations: [],
+    damageDealt: {},
+  }
+
+  const sample = (state: BattleState) => {
+    timeline.samples.push({
+      tick: state.tick,
+      alive: state.entities.filter((entity) => !entity.isDestroyed).length,
+      collisions: state.stats.totalCollisions,
+      health: state.entities.map((entity) => Math.round(entity.health)),
+    })
+  }
+
+  const record = (state: BattleState) => {
+    for (const { attackerId, victimId, amount } of state.damageEvents) {
+      const dealt = (timeline.damageDealt[attackerId] ??= {})
+      dealt[victimId] = (dealt[victimId] ?? 0) + amount
+    }
+    timeline.eliminations.push(...state.killFeed.slice(timeline.eliminations.length))
+
+    // Always keep the final tick so charts end where the battle did
+    if (state.tick % TIMELINE_SAMPLE_TICKS === 0 || state.ended) sample(state)
+  }
+
+  sample(initial)
+  return { record, timeline }
+}
@@ -0,0 +1,362 @@
+import type { AbilitySettings } from "./abilities"
+import { calculateArenaSize } from "./arena"
+import type { ArenaMap } from "./maps"
+import type { PickupSettings } from "./pickups"
+import type { StatProfile } from "./profiles"
+import type { RangedSettings } from "./projectiles"
+import { createRng } from "./rng"
+import type { RuleSet } from "./rules"
+import type { BattleConfig, BattleState, EntitySpec } from "./types"
+
+export type TournamentFormat = "single" | "double" | "round-robin"
+export type SeedingMode = "upload" | "random"
+
+export const TOURNAMENT_FORMATS: Record<TournamentFormat, { name: string; maxParticipants: number }> = {
+  single: { name: "Single Elimination", maxParticipants: 500 },
+  double: { name: "Double Elimination", maxParticipants: 64 },
+  "round-robin": { name: "Round Robin", maxParticipants: 16 },
+}
+
+export const MIN_GROUP_SIZE = 2
+export const MAX_GROUP_SIZE = 4
+
+export interface TournamentOptions {
+  format: TournamentFormat
+  // Fighters per match - only single elimination supports more than 2
+  groupSize: number
+  seeding: SeedingMode
+  seed: number
+}
+
+// Where a match slot gets its fighter from
+export type SlotSource =
+  | { type: "seed"; participantId: string | null }
+  | { type: "match"; matchId: string; outcome: "winner" | "loser" }
+
+export type MatchBracket = "winners" | "losers" | "grand-final" | "round-robin"
+
+export interface TournamentMatch {
+  id: string
+  bracket: MatchBracket
+  round: number
+  slots: SlotSource[]
+  // undefined while the source match is still to be played, null for an empty slot
+  entrants: (string | null | undefined)[]
+  status: "pending" | "ready" | "complete"
+  // Finishing order, winner first (empty for byes)
+  placements: string[]
+  winnerId: string | null
+  // Damage dealt by each entrant
+  damage: Record<string, number>
+}
+
+export interface Tournament {
+  options: TournamentOptions
+  // In seed order
+  participants: string[]
+  matches: TournamentMatch[]
+}
+
+export interface Standing {
+  participantId: string
+  rank: number
+  wins: number
+  losses: number
+  damage: number
+  eliminated: boolean
+}
+
+function createMatch(id: string, bracket: MatchBracket, round: number, slots: SlotSource[]): TournamentMatch {
+  return { id, bracket, round, slots, entrants: [], status: "pending", placements: [], winnerId: null, damage: {} }
+}
+
+const seedSlot = (participantId: string | null): SlotSource => ({ type: "seed", participantId })
+const fromMatch = (matchId: string, outcome: "winner" | "loser"): SlotSource => ({ type: "match", matchId, outcome })
+
+// Spread seeds across first-round matches so top seeds meet as late as possible
+function snakeSeed(participants: string[], matchCount: number, groupSize: number) {
+  const groups: (string | null)[][] = Array.from({ length: matchCount }, () => [])
+  for (let slot = 0; slot < matchCount * groupSize; slot++) {
+    const pass = Math.floor(slot / matchCount)
+    const offset = slot % matchCount
+    const matchIndex = pass % 2 === 0 ? offset : matchCount - 1 - offset
+    groups[matchIndex].push(participants[slot] ?? null)
+  }
+  return groups
+}
+
+// Winners bracket shared by single and double elimination
+function buildEliminationRounds(participants: string[], groupSize: number, bracket: MatchBracket, prefix: string) {
+  const rounds = Math.max(1, Math.ceil(Math.log(participants.length) / Math.log(groupSize) - 1e-9))
+  const bracketRounds: TournamentMatch[][] = []
+
+  let matchCount = groupSize ** (rounds - 1)
+  bracketRounds.push(
+    snakeSeed(participants, matchCount, groupSize).map((group, i) =>
+      createMatch(`${prefix}1-${i + 1}`, bracket, 1, group.map(seedSlot)),
+    ),
+  )
+
+  for (let round = 2; round <= rounds; round++) {
+    const previous = bracketRounds[bracketRounds.length - 1]
+    matchCount /= groupSize
+    bracketRounds.push(
+      Array.from({ length: matchCount }, (_, i) =>
+        createMatch(
+          `${prefix}${round}-${i + 1}`,
+          bracket,
+          round,
+          previous.slice(i * groupSize, (i + 1) * groupSize).map((match) => fromMatch(match.id, "winner")),
+        ),
+      ),
+    )
+  }
+
+  return bracketRounds
+}
+
+function buildDoubleElimination(participants: string[]) {
+  const winners = buildEliminationRounds(participants, 2, "winners", "W")
+  const losers: TournamentMatch[][] = []
+
+  // Losers of the first winners round play each other, then every later winners
+  // round drops its losers in against the survivors of the losers bracket
+  for (let r = 0; r < winners.length - 1; r++) {
+    const minorSources: SlotSource[] =
+      r === 0
+        ? winners[0].map((match) => fromMatch(match.id, "loser"))
+        : losers[losers.length - 1].map((match) => fromMatch(match.id, "winner"))
+
+    const minorRound = losers.length + 1
+    const minor = Array.from({ length: minorSources.length / 2 }, (_, i) =>
+      createMatch(`L${minorRound}-${i + 1}`, "losers", minorRound, minorSources.slice(i * 2, i * 2 + 2)),
+    )
+    losers.push(minor)
+
+    const majorRound = losers.length + 1
+    const dropping = winners[r + 1]
+    losers.push(
+      minor.map((match, i) =>
+        createMatch(`L${majorRound}-${i + 1}`, "losers", majorRound, [
+          fromMatch(match.id, "winner"),
+          // Reverse the drop order to avoid immediate rematches
+          fromMatch(dropping[dropping.length - 1 - i].id, "loser"),
+        ]),
+      ),
+    )
+  }
+
+  const winnersFinal = winners[winners.length - 1][0]
+  const losersChampion =
+    losers.length > 0 ? fromMatch(losers[losers.length - 1][0].id, "winner") : fromMatch(winnersFinal.id, "loser")
+  // Single grand final match, no bracket reset: whoever wins it is champion
+  const grandFinal = createMatch("GF", "grand-final", 1, [fromMatch(winnersFinal.id, "winner"), losersChampion])
+
+  return [...winners.flat(), ...losers.flat(), grandFinal]
+}
+
+function buildRoundRobin(participants: string[]) {
+  // Circle method: one fixed fighter, everyone else rotates
+  const players: (string | null)[] = participants.length % 2 === 0 ? [...participants] : [...participants, null]
+  const matches: TournamentMatch[] = []
+
+  for (let round = 1; round < players.length; round++) {
+    for (let i = 0; i < players.length / 2; i++) {
+      const a = players[i]
+      const b = players[players.length - 1 - i]
+      if (a && b) matches.push(createMatch(`R${round}-${i + 1}`, "round-robin", round, [seedSlot(a), seedSlot(b)]))
+    }
+    players.splice(1, 0, players.pop()!)
+  }
+
+  return matches
+}
+
+export function createTournament(participantIds: string[], options: TournamentOptions): Tournament {
+  const { format, seeding, seed } = options
+  const limit = TOURNAMENT_FORMATS[format].maxParticipants
+
+  if (participantIds.length < 2) throw new Error("A tournament needs at least 2 fighters")
+  if (participantIds.length > limit) {
+    throw new Error(`${TOURNAMENT_FORMATS[format].name} supports up to ${limit} fighters`)
+  }
+
+  const groupSize = format === "single" ? Math.min(MAX_GROUP_SIZE, Math.max(MIN_GROUP_SIZE, options.groupSize)) : 2
+  const participants = [...participantIds]
+  if (seeding === "random") {
+    // Fisher-Yates with the tournament seed so the draw is reproducible
+    const rng = createRng(seed)
+    for (let i = participants.length - 1; i > 0; i--) {
+      const j = rng.int(i + 1)
+      ;[participants[i], participants[j]] = [participants[j], participants[i]]
+    }
+  }
+
+  const matches =
+    format === "single"
+      ? buildEliminationRounds(participants, groupSize, "winners", "W").flat()
+      : format === "double"
+        ? buildDoubleElimination(participants)
+        : buildRoundRobin(participants)
+
+  return resolveMatches({ options: { ...options, groupSize }, participants, matches })
+}
+
+// Fill entrants from finished matches, auto-advance byes and mark playable matches.
+// Matches are built in dependency order, so one pass is enough.
+function resolveMatches(tournament: Tournament): Tournament {
+  const byId = new Map(tournament.matches.map((match) => [match.id, match]))
+
+  for (const match of tournament.matches) {
+    if (match.status === "complete") continue
+
+    match.entrants = match.slots.map((slot) => {
+      if (slot.type === "seed") return slot.participantId
+      const source = byId.get(slot.matchId)!
+      if (source.status !== "complete") return undefined
+      if (slot.outcome === "winner") return source.winnerId
+      // Only 1v1 matches feed their loser onward
+      return source.placements[1] ?? null
+    })
+
+    if (match.entrants.some((entrant) => entrant === undefined)) continue
+
+    const present = match.entrants.filter((entrant): entrant is string => entrant !== null)
+    if (present.length >= 2) {
+      match.status = "ready"
+    } else {
+      // Bye: the lone entrant (if any) advances without fighting
+      match.status = "complete"
+      match.winnerId = present[0] ?? null
+    }
+  }
+
+  return tournament
+}
+
+// Next match to play, in bracket order
+export function nextMatch(tournament: Tournament) {
+  return tournament.matches.find((match) => match.status === "ready") ?? null
+}
+
+export function isTournamentComplete(tournament: Tournament) {
+  return tournament.matches.every((match) => match.status === "complete")
+}
+
+// Each match gets its own seed derived from the tournament seed
+export function matchSeed(tournament: Tournament, match: TournamentMatch) {
+  const index = tournament.matches.indexOf(match)
+  return (tournament.options.seed + Math.imul(index + 1, 0x9e3779b9)) >>> 0
+}
+
+// Battle settings shared by every match in a tournament
+export interface MatchSettings {
+  rules?: RuleSet
+  profiles?: ReadonlyMap<string, StatProfile>
+  // Steering behaviour (and custom strategy) by entrant
+  behaviours?: ReadonlyMap<string, Pick<EntitySpec, "behaviour" | "strategy">>
+  pickups?: PickupSettings
+  abilities?: AbilitySettings
+  ranged?: RangedSettings
+  map?: ArenaMap
+}
+
+export function matchConfig(
+  tournament: Tournament,
+  match: TournamentMatch,
+  { rules, profiles, behaviours, pickups, abilities, ranged, map }: MatchSettings = {},
+): BattleConfig {
+  const entrants = match.entrants.filter((entrant): entrant is string => !!entrant)
+  return {
+    seed: matchSeed(tournament, match),
+    arena: calculateArenaSize(entrants.length),
+    entities: entrants.map((id) => {
+      const stats = profiles?.get(id)
+      return { id, ...(stats && { stats }), ...behaviours?.get(id) }
+    }),
+    rules,
+    pickups,
+    abilities,
+    ranged,
+    map,
+  }
+}
+
+// Finishing order of a battle: survivors first, then by remaining health and damage dealt.
+// Also settles mutual knockouts and battles that hit the tick limit.
+export function rankEntities(state: Pick<BattleState, "entities">) {
+  return [...state.entities]
+    .sort(
+      (a, b) =>
+        Number(a.isDestroyed) - Number(b.isDestroyed) || b.health - a.health || b.totalDamage - a.totalDamage,
+    )
+    .map((entity) => entity.id)
+}
+
+export function recordMatchResult(
+  tournament: Tournament,
+  matchId: string,
+  state: Pick<BattleState, "entities">,
+): Tournament {
+  const next = structuredClone(tournament)
+  const match = next.matches.find((m) => m.id === matchId)
+  if (!match || match.status !== "ready") return tournament
+
+  match.placements = rankEntities(state)
+  match.winnerId = match.placements[0] ?? null
+  match.damage = Object.fromEntries(state.entities.map((entity) => [entity.id, entity.totalDamage]))
+  match.status = "complete"
+
+  return resolveMatches(next)
+}
+
+export function tournamentChampion(tournament: Tournament) {
+  if (!isTournamentComplete(tournament)) return null
+  return computeStandings(tournament)[0]?.participantId ?? null
+}
+
+export function computeStandings(tournament: Tournament): Standing[] {
+  const { format } = tournament.options
+  const allowedLosses = format === "double" ? 2 : format === "single" ? 1 : Infinity
+  const records = new Map(
+    tournament.participants.map((id, seedIndex) => [
+      id,
+      { participantId: id, seedIndex, wins: 0, losses: 0, damage: 0, eliminatedAt: Infinity },
+    ]),
+  )
+
+  tournament.matches.forEach((match, matchIndex) => {
+    if (match.status !== "complete" || match.placements.length === 0) return
+
+    match.placements.forEach((id, place) => {
+      const record = records.get(id)!
+      record.damage += match.damage[id] ?? 0
+      if (place === 0) {
+        record.wins++
+      } else {
+        record.losses++
+        // The grand final has no reset, so its loser is out even with a loss to spare
+        if (record.losses >= allowedLosses || match.bracket === "grand-final") record.eliminatedAt = matchIndex
+      }
+    })
+  })
+
+  // Eliminations later in the bracket rank higher, then wins, damage and seed
+  const sorted = [...records.values()].sort(
+    (a, b) =>
+      b.eliminatedAt - a.eliminatedAt ||
+      b.wins - a.wins ||
+      a.losses - b.losses ||
+      b.damage - a.damage ||
+      a.seedIndex - b.seedIndex,
+  )
+
+  return sorted.map((record, i) => ({
+    participantId: record.participantId,
+    rank: i + 1,
+    wins: record.wins,
+    losses: record.losses,
+    damage: record.damage,
+    eliminated: record.eliminatedAt !== Infinity,
+  }))
+}
@@ -0,0 +1,204 @@
+// Shared types for the headless battle simulation
+
+import type { AbilityId, AbilitySettings } from "./abilities"
+import type { BehaviourId, RecordedSteering } from "./behaviours"
+import type { InterventionEvent } from "./interventions"
+import type { ArenaMap } from "./maps"
+import type { PickupKind, PickupSettings } from "./pickups"
+import type { ProjectileKind, RangedSettings, WeaponKind } from "./projectiles"
+import type { StatProfile } from "./profiles"
+import type { RuleSet } from "./rules"
+
+export interface ArenaSize {
+  width: number
+  height: number
+}
+
+// What the caller knows about a fighter before the battle starts
+export interface EntitySpec {
+  id: string
+  // Entities sharing a team fight together, unassigned entities fight alone
+  teamId?: string
+  // Custom stats, otherwise health comes from the rules and size/speed are rolled
+  stats?: StatProfile
+  // Steering behaviour, otherwise the entity flies ballistically
+  behaviour?: BehaviourId
+  // Source of the strategy function when behaviour is "custom"
+  strategy?: string
+}
+
+// Timed buff from a pickup
+export interface ActiveEffect {
+  kind: Exclude<PickupKind, "heal">
+  // Battle time (ms) the effect wears off
+  expiresAt: number
+}
+
+export interface AbilityState {
+  id: AbilityId
+  // Scaled by the battle's ability settings
+  cooldownMs: number
+  // Battle time (ms) it can fire again
+  readyAt: number
+  // Battle time (ms) a lasting ability (regen, thorns) wears off
+  activeUntil: number
+  // Battle time (ms) it last fired, null if it hasn't yet
+  usedAt: number | null
+}
+
+// Shot fired by an entity, gone on its first hit, at a wall or when its lifetime runs out
+export interface Projectile {
+  id: string
+  kind: ProjectileKind
+  ownerId: string
+  // What a homing projectile steers towards, null flies straight
+  targetId: string | null
+  x: number
+  y: number
+  vx: number
+  vy: number
+  radius: number
+  damage: number
+  expiresAt: number
+}
+
+// Harmless copy of an entity that draws attention (and one hit) away from it
+export interface Decoy {
+  ownerId: string
+  x: number
+  y: number
+  vx: number
+  vy: number
+  radius: number
+  expiresAt: number
+}
+
+export interface Pickup {
+  id: number
+  kind: PickupKind
+  x: number
+  y: number
+}
+
+// Who hit whom and for how much, within one tick
+export interface DamageEvent {
+  attackerId: string
+  victimId: string
+  amount: number
+}
+
+export interface KillEvent {
+  tick: number
+  victimId: string
+  // Final blow, or the last attacker within the assist window for environmental deaths
+  killerId: string | null
+  // Other attackers that hit the victim within the assist window
+  assistIds: string[]
+}
+
+export interface Entity {
+  id: string
+  teamId: string | null
+  x: number
+  y: number
+  vx: number
+  vy: number
+  radius: number
+  health: number
+  maxHealth: number
+  // Incoming damage divisor and outgoing damage multiplier
+  armor: number
+  damageMultiplier: number
+  maxSpeed: number
+  effects: ActiveEffect[]
+  hasBarrier: boolean
+  barrierUsed: boolean
+  abilities: AbilityState[]
+  // Ranged weapon, null when the battle has none
+  weapon: WeaponKind | null
+  // Battle time (ms) the weapon can fire again
+  nextShotAt: number
+  // Battle time (ms) a fling or blast stops letting the entity exceed its top speed
+  launchedUntil: number
+  lastDamageTime: number
+  comboCount: number
+  totalDamage: number
+  isDestroyed: boolean
+  // Credited killer (see KillEvent)
+  eliminatedBy: string | null
+  kills: number
+  assists: number
+  // Latest hit per attacker within the assist window
+  recentHits: { attackerId: string; time: number }[]
+  neonColor: string
+}
+
+export interface BattleStats {
+  totalCollisions: number
+  entitiesDestroyed: number
+  // Elapsed ticks
+  battleTime: number
+}
+
+export interface BattleConfig {
+  seed: number
+  arena: ArenaSize
+  entities: EntitySpec[]
+  // Defaults to the Classic preset
+  rules?: RuleSet
+  // Whether teammates damage each other on contact (they always bounce)
+  friendlyFire?: boolean
+  // No pickups spawn when omitted
+  pickups?: PickupSettings
+  // Obstacles, hazards and shrinking zone - an open arena when omitted
+  map?: ArenaMap
+  // God-mode interventions to replay, by tick
+  interventions?: InterventionEvent[]
+  // No abilities when omitted
+  abilities?: AbilitySettings
+  // No ranged weapons when omitted
+  ranged?: RangedSettings
+  // Custom strategy answers to play back, see EngineOptions.strategies
+  steering?: RecordedSteering
+}
+
+export interface SafeZone {
+  x: number
+  y: number
+  radius: number
+}
+
+// Region where time stands still - entities inside don't move
+export interface FrozenZone {
+  x: number
+  y: number
+  radius: number
+  // Battle time (ms) the zone thaws
+  expiresAt: number
+}
+
+export interface BattleState {
+  tick: number
+  // Simulated milliseconds since the battle began
+  time: number
+  entities: Entity[]
+  // Pickups lying in the arena
+  pickups: Pickup[]
+  // Battle-royale zone, null when the map has none
+  safeZone: SafeZone | null
+  // Damage dealt during the latest tick only
+  damageEvents: DamageEvent[]
+  // Every elimination so far, oldest first
+  killFeed: KillEvent[]
+  // Interventions applied so far, oldest first
+  interventions: InterventionEvent[]
+  frozenZones: FrozenZone[]
+  projectiles: Projectile[]
+  decoys: Decoy[]
+  stats: BattleStats
+  ended: boolean
+  // Best surviving entity on the winning side
+  winnerId: string | null
+  // Set when the winning side is a team
+  winningTeamId: string | null
+}
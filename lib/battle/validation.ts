@@ -0,0 +1,7 @@
+import type { z } from "zod"
+
+// First problem with a parsed file or request, for error messages
+export function describeValidationError(error: z.ZodError) {
+  const issue = error.issues[0]
+  return issue ? `${issue.path.join(".") || "root"} - ${issue.message}` : "unknown error"
+}
@@ -0,0 +1,63 @@
+import type { ArenaOverlay } from "@/lib/render/arena-renderer"
+import type { CameraFocus, CameraView } from "@/lib/render/camera"
+import type { EffectsSettings } from "@/lib/render/effects"
+import type { RendererBackend, RendererPreference } from "@/lib/render/renderer"
+import type { RecordedSteering } from "./behaviours"
+import type { Intervention } from "./interventions"
+import type { BattleTimeline } from "./timeline"
+import type { BattleConfig, BattleState } from "./types"
+
+// Messages from the page to the battle worker
+export type WorkerRequest =
+  | {
+      type: "init"
+      config: BattleConfig
+      // Present when the worker draws the arena itself
+      canvas: OffscreenCanvas | null
+      images: { id: string; bitmap: ImageBitmap }[]
+      effects: EffectsSettings
+      // Backend to draw with, when drawing
+      renderer: RendererPreference
+    }
+  | { type: "running"; running: boolean }
+  | { type: "overlay"; overlay: ArenaOverlay }
+  // God-mode tool used on the canvas, lands on the next tick
+  | { type: "intervene"; intervention: Intervention }
+  // The viewer moved the camera or changed what it focuses on
+  | { type: "camera"; view: CameraView; focus: CameraFocus }
+  // Effects settings changed, they apply mid-battle
+  | { type: "effects"; settings: EffectsSettings }
+
+// Messages from the battle worker to the page
+export type WorkerResponse =
+  // Full state at a throttled rate, for the sidebars
+  | { type: "snapshot"; state: BattleState }
+  // Packed positions every tick, only when the page is drawing
+  | { type: "frame"; buffer: Float32Array }
+  // Sampled history of the battle, once it ends
+  | { type: "timeline"; timeline: BattleTimeline }
+  // What the custom strategies answered, once the battle ends - replays play it back
+  | { type: "steering"; steering: RecordedSteering }
+  // Where the camera went while following a fighter or directing, when the worker draws
+  | { type: "camera"; view: CameraView }
+  // Which backend ended up drawing, after any fallback
+  | { type: "renderer"; backend: RendererBackend }
+  // The engine or renderer threw, the worker has stopped the battle
+  | { type: "error"; message: string }
+
+// Messages from the page to the strategy sandbox
+export type SandboxRequest =
+  // Dry-run a strategy for the behaviour editor
+  | { type: "check"; source: string }
+  // Play a whole battle headlessly, for simulated tournament matches
+  | { type: "run"; config: BattleConfig }
+
+// Messages from the strategy sandbox to the page
+export type SandboxResponse =
+  // Loaded, deadlines count from here
+  | { type: "ready" }
+  | { type: "checked"; problem: string | null }
+  // Still ticking through a battle
+  | { type: "progress"; tick: number }
+  | { type: "result"; state: BattleState }
+  | { type: "error"; message: string }
@@ -0,0 +1,17 @@
+// Load an image element and wait until it can be drawn
+export function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.src = src
+  })
+}
+
+// Load a set of images keyed by entity id
+export async function loadImageMap(sources: { id: string; src: string }[]) {
+  const images = new Map<string, HTMLImageElement>()
+  for (const { id, src } of sources) {
+    images.set(id, await loadImage(src))
+  }
+  return images
+}
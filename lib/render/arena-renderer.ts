@@ -0,0 +1,497 @@
+import { ABILITIES, ABILITY_FLASH_MS, KNOCKBACK_RADIUS } from "@/lib/battle/abilities"
+import { TICK_MS } from "@/lib/battle/engine"
+import type { Shape } from "@/lib/battle/geometry"
+import { SHOCKWAVE_RING_TICKS, type InterventionEvent } from "@/lib/battle/interventions"
+import type { ResolvedMap } from "@/lib/battle/maps"
+import { PICKUP_KINDS, PICKUP_RADIUS } from "@/lib/battle/pickups"
+import type { ProjectileKind } from "@/lib/battle/projectiles"
+import type { Decoy, Entity, FrozenZone, Pickup, Projectile, SafeZone } from "@/lib/battle/types"
+import { visibleRect, type CameraView, type ViewRect } from "./camera"
+import type { EffectsRig } from "./effects"
+
+// Works on both the page canvas and an OffscreenCanvas inside the battle worker
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+export interface ArenaOverlay {
+  // Neon auras are only drawn while the battle is live
+  aura: boolean
+  countdown: number | null
+  paused: boolean
+}
+
+export const IDLE_OVERLAY: ArenaOverlay = { aura: false, countdown: null, paused: false }
+
+// Everything in the arena besides the entities
+export interface ArenaScene {
+  pickups?: readonly Pickup[]
+  map?: ResolvedMap | null
+  safeZone?: SafeZone | null
+  frozenZones?: readonly FrozenZone[]
+  projectiles?: readonly Projectile[]
+  decoys?: readonly Decoy[]
+  // Recent shockwaves are drawn as expanding rings, aged by the current tick
+  interventions?: readonly InterventionEvent[]
+  // Also times ability effects, which are skipped without it
+  tick?: number
+  // Part of the arena to show, the whole arena when omitted
+  camera?: CameraView
+  // Particles and screen shake, already updated for this frame
+  effects?: EffectsRig
+}
+
+function drawGrid(ctx: RenderContext, width: number, height: number) {
+  // Draw arena background
+  ctx.fillStyle = "#0a0a0a"
+  ctx.fillRect(0, 0, width, height)
+
+  // Draw grid pattern
+  ctx.strokeStyle = "#1a1a1a"
+  ctx.lineWidth = 1
+  for (let x = 0; x < width; x += 50) {
+    ctx.beginPath()
+    ctx.moveTo(x, 0)
+    ctx.lineTo(x, height)
+    ctx.stroke()
+  }
+  for (let y = 0; y < height; y += 50) {
+    ctx.beginPath()
+    ctx.moveTo(0, y)
+    ctx.lineTo(width, y)
+    ctx.stroke()
+  }
+}
+
+function traceShape(ctx: RenderContext, shape: Shape) {
+  ctx.beginPath()
+  switch (shape.type) {
+    case "circle":
+      ctx.arc(shape.x, shape.y, shape.r, 0, Math.PI * 2)
+      break
+    case "rect":
+      ctx.rect(shape.x, shape.y, shape.width, shape.height)
+      break
+    case "polygon":
+      shape.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)))
+      ctx.closePath()
+      break
+  }
+}
+
+export function drawMap(ctx: RenderContext, map: ResolvedMap) {
+  ctx.save()
+
+  // Hazards glow under everything else
+  for (const { shape } of map.hazards) {
+    traceShape(ctx, shape)
+    ctx.fillStyle = "rgba(255, 64, 0, 0.25)"
+    ctx.fill()
+    ctx.strokeStyle = "#ff4000"
+    ctx.lineWidth = 2
+    ctx.setLineDash([8, 6])
+    ctx.stroke()
+  }
+  ctx.setLineDash([])
+
+  ctx.shadowColor = "#8000ff"
+  ctx.shadowBlur = 12
+  for (const shape of map.obstacles) {
+    traceShape(ctx, shape)
+    ctx.fillStyle = "#1c1030"
+    ctx.fill()
+    ctx.strokeStyle = "#a040ff"
+    ctx.lineWidth = 3
+    ctx.stroke()
+  }
+
+  ctx.shadowColor = "#ffff00"
+  for (const bumper of map.bumpers) {
+    traceShape(ctx, { type: "circle", ...bumper })
+    ctx.fillStyle = "#302a00"
+    ctx.fill()
+    ctx.strokeStyle = "#ffff00"
+    ctx.lineWidth = 4
+    ctx.stroke()
+  }
+
+  ctx.restore()
+}
+
+// Darken everything outside the safe zone
+function drawSafeZone(ctx: RenderContext, width: number, height: number, zone: SafeZone) {
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(0, 0, width, height)
+  ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2)
+  ctx.fillStyle = "rgba(120, 0, 60, 0.3)"
+  ctx.fill("evenodd")
+
+  ctx.beginPath()
+  ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2)
+  ctx.strokeStyle = "#ff00ff"
+  ctx.lineWidth = 3
+  ctx.stroke()
+  ctx.restore()
+}
+
+function drawFrozenZone(ctx: RenderContext, zone: FrozenZone) {
+  ctx.save()
+  ctx.beginPath()
+  ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2)
+  ctx.fillStyle = "rgba(128, 192, 255, 0.15)"
+  ctx.fill()
+  ctx.shadowColor = "#80c0ff"
+  ctx.shadowBlur = 12
+  ctx.strokeStyle = "#80c0ff"
+  ctx.lineWidth = 2
+  ctx.setLineDash([4, 4])
+  ctx.stroke()
+  ctx.restore()
+}
+
+function drawShockwaves(ctx: RenderContext, interventions: readonly InterventionEvent[], tick: number) {
+  ctx.save()
+  ctx.strokeStyle = "#ff4000"
+  ctx.shadowColor = "#ff4000"
+  ctx.shadowBlur = 15
+  // Newest last, so stop at the first one that has faded
+  for (let i = interventions.length - 1; i >= 0; i--) {
+    const event = interventions[i]
+    const age = tick - event.tick
+    if (age >= SHOCKWAVE_RING_TICKS) break
+    if (event.kind !== "shockwave") continue
+
+    const progress = (age + 1) / SHOCKWAVE_RING_TICKS
+    ctx.globalAlpha = 1 - progress
+    ctx.lineWidth = 6 * (1 - progress) + 1
+    ctx.beginPath()
+    ctx.arc(event.x, event.y, event.radius * progress, 0, Math.PI * 2)
+    ctx.stroke()
+  }
+  ctx.restore()
+}
+
+function drawPickup(ctx: RenderContext, pickup: Pickup) {
+  const { color, glyph } = PICKUP_KINDS[pickup.kind]
+
+  ctx.save()
+  ctx.shadowColor = color
+  ctx.shadowBlur = 15
+  ctx.fillStyle = color + "30"
+  ctx.strokeStyle = color
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.arc(pickup.x, pickup.y, PICKUP_RADIUS, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.stroke()
+  ctx.restore()
+
+  ctx.fillStyle = color
+  ctx.font = "bold 14px monospace"
+  ctx.textAlign = "center"
+  ctx.textBaseline = "middle"
+  ctx.fillText(glyph, pickup.x, pickup.y)
+  ctx.textBaseline = "alphabetic"
+}
+
+// Lasting abilities glow around the entity while active, one-off ones flash briefly after firing
+function drawAbilityEffects(ctx: RenderContext, entity: Entity, time: number) {
+  for (const ability of entity.abilities) {
+    const active = ability.activeUntil > time
+    const age = ability.usedAt === null ? Infinity : time - ability.usedAt
+    if (!active && age >= ABILITY_FLASH_MS) continue
+
+    const { color } = ABILITIES[ability.id]
+    const fade = 1 - age / ABILITY_FLASH_MS
+    ctx.save()
+    ctx.strokeStyle = color
+    ctx.shadowColor = color
+    ctx.shadowBlur = 12
+
+    switch (ability.id) {
+      case "regen":
+        ctx.globalAlpha = 0.5 + 0.3 * Math.sin(time / 120)
+        ctx.lineWidth = 3
+        ctx.beginPath()
+        ctx.arc(entity.x, entity.y, entity.radius + 6, 0, Math.PI * 2)
+        ctx.stroke()
+        break
+
+      case "thorns":
+        ctx.lineWidth = 2
+        ctx.beginPath()
+        for (let i = 0; i < 12; i++) {
+          const angle = (i / 12) * Math.PI * 2 + time / 400
+          const cos = Math.cos(angle)
+          const sin = Math.sin(angle)
+          ctx.moveTo(entity.x + cos * (entity.radius + 2), entity.y + sin * (entity.radius + 2))
+          ctx.lineTo(entity.x + cos * (entity.radius + 12), entity.y + sin * (entity.radius + 12))
+        }
+        ctx.stroke()
+        break
+
+      // Streak behind the entity, along where it came from
+      case "dash": {
+        const length = (entity.radius * 3) / (Math.hypot(entity.vx, entity.vy) || 1)
+        ctx.globalAlpha = 0.4 * fade
+        ctx.lineWidth = entity.radius
+        ctx.lineCap = "round"
+        ctx.beginPath()
+        ctx.moveTo(entity.x, entity.y)
+        ctx.lineTo(entity.x - entity.vx * length, entity.y - entity.vy * length)
+        ctx.stroke()
+        break
+      }
+
+      case "knockback":
+        ctx.globalAlpha = fade
+        ctx.lineWidth = 4 * fade + 1
+        ctx.beginPath()
+        ctx.arc(entity.x, entity.y, entity.radius + KNOCKBACK_RADIUS * (1 - fade), 0, Math.PI * 2)
+        ctx.stroke()
+        break
+
+      // Muzzle flash
+      case "projectile":
+        ctx.globalAlpha = fade
+        ctx.lineWidth = 2
+        ctx.beginPath()
+        ctx.arc(entity.x, entity.y, entity.radius + 4, 0, Math.PI * 2)
+        ctx.stroke()
+        break
+
+      case "decoy":
+        break
+    }
+    ctx.restore()
+  }
+}
+
+// Ticks of travel each kind's trail stretches back over, slow orbs get a longer one
+export const PROJECTILE_TRAIL_TICKS: Record<ProjectileKind, number> = { bullet: 3, orb: 6, bolt: 2 }
+
+// Translucent, flickering copy of its owner
+function drawDecoy(ctx: RenderContext, decoy: Decoy, owner: Entity | undefined, image: CanvasImageSource | undefined) {
+  ctx.save()
+  ctx.globalAlpha = 0.35 + 0.15 * Math.sin(decoy.expiresAt + decoy.x / 20)
+  ctx.strokeStyle = owner?.neonColor ?? ABILITIES.decoy.color
+  ctx.lineWidth = 2
+  ctx.setLineDash([6, 4])
+  ctx.beginPath()
+  ctx.arc(decoy.x, decoy.y, decoy.radius, 0, Math.PI * 2)
+  ctx.stroke()
+  ctx.clip()
+  if (image) ctx.drawImage(image, decoy.x - decoy.radius, decoy.y - decoy.radius, decoy.radius * 2, decoy.radius * 2)
+  ctx.restore()
+}
+
+// Neon streak fading out behind the shot, in its owner's colour (bolts keep the ability's colour)
+function drawProjectile(ctx: RenderContext, projectile: Projectile, color: string) {
+  const trail = PROJECTILE_TRAIL_TICKS[projectile.kind]
+  const tailX = projectile.x - projectile.vx * trail
+  const tailY = projectile.y - projectile.vy * trail
+  const gradient = ctx.createLinearGradient(projectile.x, projectile.y, tailX, tailY)
+  gradient.addColorStop(0, color + "c0")
+  gradient.addColorStop(1, color + "00")
+
+  ctx.save()
+  ctx.shadowColor = color
+  ctx.shadowBlur = 12
+  ctx.strokeStyle = gradient
+  ctx.lineWidth = projectile.radius * 1.5
+  ctx.lineCap = "round"
+  ctx.beginPath()
+  ctx.moveTo(projectile.x, projectile.y)
+  ctx.lineTo(tailX, tailY)
+  ctx.stroke()
+
+  // Orbs pulse as they fly, everything gets a white-hot core
+  const pulse = projectile.kind === "orb" ? 1 + 0.15 * Math.sin((projectile.x + projectile.y) / 15) : 1
+  const radius = projectile.radius * pulse
+  ctx.fillStyle = color
+  ctx.beginPath()
+  ctx.arc(projectile.x, projectile.y, radius, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.fillStyle = "#ffffff"
+  ctx.beginPath()
+  ctx.arc(projectile.x, projectile.y, radius * 0.45, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.restore()
+}
+
+function drawEntity(ctx: RenderContext, entity: Entity, image: CanvasImageSource | undefined, aura: boolean) {
+  ctx.save()
+
+  // Draw neon aura
+  if (aura) {
+    const gradient = ctx.createRadialGradient(entity.x, entity.y, entity.radius, entity.x, entity.y, entity.radius + 20)
+    gradient.addColorStop(0, entity.neonColor + "40")
+    gradient.addColorStop(1, entity.neonColor + "00")
+    ctx.fillStyle = gradient
+    ctx.beginPath()
+    ctx.arc(entity.x, entity.y, entity.radius + 20, 0, Math.PI * 2)
+    ctx.fill()
+  }
+
+  // Draw barrier
+  if (entity.hasBarrier) {
+    ctx.strokeStyle = "#00ff00"
+    ctx.lineWidth = 4
+    ctx.setLineDash([5, 5])
+    ctx.beginPath()
+    ctx.arc(entity.x, entity.y, entity.radius + 10, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.setLineDash([])
+  }
+
+  // Draw entity (circular clipped image)
+  ctx.beginPath()
+  ctx.arc(entity.x, entity.y, entity.radius, 0, Math.PI * 2)
+  ctx.clip()
+
+  if (image) {
+    ctx.drawImage(image, entity.x - entity.radius, entity.y - entity.radius, entity.radius * 2, entity.radius * 2)
+  }
+
+  ctx.restore()
+
+  // Draw health bar
+  const barWidth = entity.radius * 2
+  const barHeight = 6
+  const barX = entity.x - barWidth / 2
+  const barY = entity.y - entity.radius - 15
+
+  // Background
+  ctx.fillStyle = "#333"
+  ctx.fillRect(barX, barY, barWidth, barHeight)
+
+  // Health fill
+  const healthPercent = entity.health / entity.maxHealth
+  const healthColor = healthPercent > 0.5 ? "#00ff00" : healthPercent > 0.25 ? "#ffff00" : "#ff0000"
+  ctx.fillStyle = healthColor
+  ctx.fillRect(barX, barY, barWidth * healthPercent, barHeight)
+
+  // Border
+  ctx.strokeStyle = "#fff"
+  ctx.lineWidth = 1
+  ctx.strokeRect(barX, barY, barWidth, barHeight)
+
+  // Health text
+  ctx.fillStyle = "#fff"
+  ctx.font = "10px monospace"
+  ctx.textAlign = "center"
+  ctx.fillText(`${entity.health}`, entity.x, barY - 2)
+}
+
+// Countdown and pause screen, straight on the canvas whatever the camera
+export function drawOverlay(ctx: RenderContext, width: number, height: number, overlay: ArenaOverlay) {
+  // Draw countdown
+  if (overlay.countdown !== null) {
+    ctx.fillStyle = "#fff"
+    ctx.font = "bold 120px Arial"
+    ctx.textAlign = "center"
+    ctx.fillText(overlay.countdown === 0 ? "BATTLE BEGINS!" : overlay.countdown.toString(), width / 2, height / 2)
+  }
+
+  // Draw pause overlay
+  if (overlay.paused) {
+    ctx.fillStyle = "rgba(0, 0, 0, 0.7)"
+    ctx.fillRect(0, 0, width, height)
+    ctx.fillStyle = "#fff"
+    ctx.font = "bold 48px Arial"
+    ctx.textAlign = "center"
+    ctx.fillText("BATTLE PAUSED", width / 2, height / 2)
+  }
+}
+
+// Screen shake and the camera, shared by every layer. Returns the part of the arena on screen when zoomed
+function applyView(
+  ctx: RenderContext,
+  width: number,
+  height: number,
+  camera: CameraView | undefined,
+  shake: { x: number; y: number } | undefined,
+) {
+  if (shake) ctx.translate(shake.x, shake.y)
+  // The canvas is arena-sized, so zooming in scales the visible part up to fill it
+  const rect = camera ? visibleRect(camera, { width, height }) : null
+  if (camera && rect) {
+    ctx.scale(camera.zoom, camera.zoom)
+    ctx.translate(-rect.x, -rect.y)
+  }
+  return rect
+}
+
+// Fighters out of view can be skipped, the health bar and label reach about 30px above them
+export function isOutOfView(entity: Entity, rect: ViewRect | null) {
+  return (
+    rect !== null &&
+    (entity.x + entity.radius < rect.x ||
+      entity.x - entity.radius > rect.x + rect.width ||
+      entity.y + entity.radius < rect.y ||
+      entity.y - entity.radius - 30 > rect.y + rect.height)
+  )
+}
+
+// Under the fighters
+function drawFloor(
+  ctx: RenderContext,
+  entities: readonly Entity[],
+  images: ReadonlyMap<string, CanvasImageSource>,
+  scene: ArenaScene,
+) {
+  for (const pickup of scene.pickups ?? []) drawPickup(ctx, pickup)
+  for (const zone of scene.frozenZones ?? []) drawFrozenZone(ctx, zone)
+  for (const decoy of scene.decoys ?? []) {
+    drawDecoy(ctx, decoy, entities.find((e) => e.id === decoy.ownerId), images.get(decoy.ownerId))
+  }
+}
+
+// Over the fighters
+function drawAir(
+  ctx: RenderContext,
+  width: number,
+  height: number,
+  entities: readonly Entity[],
+  images: ReadonlyMap<string, CanvasImageSource>,
+  scene: ArenaScene,
+) {
+  for (const projectile of scene.projectiles ?? []) {
+    const owner = projectile.kind === "bolt" ? undefined : entities.find((e) => e.id === projectile.ownerId)
+    drawProjectile(ctx, projectile, owner?.neonColor ?? ABILITIES.projectile.color)
+  }
+  scene.effects?.draw(ctx, entities, images)
+
+  if (scene.safeZone) drawSafeZone(ctx, width, height, scene.safeZone)
+  if (scene.interventions && scene.tick !== undefined) drawShockwaves(ctx, scene.interventions, scene.tick)
+}
+
+// Draw one full frame of the arena
+export function drawArena(
+  ctx: RenderContext,
+  width: number,
+  height: number,
+  entities: readonly Entity[],
+  images: ReadonlyMap<string, CanvasImageSource>,
+  overlay: ArenaOverlay,
+  scene: ArenaScene = {},
+) {
+  ctx.clearRect(0, 0, width, height)
+
+  ctx.save()
+  const rect = applyView(ctx, width, height, scene.camera, scene.effects?.shake())
+
+  drawGrid(ctx, width, height)
+  if (scene.map) drawMap(ctx, scene.map)
+  drawFloor(ctx, entities, images, scene)
+
+  for (const entity of entities) {
+    if (entity.isDestroyed || isOutOfView(entity, rect)) continue
+    if (scene.tick !== undefined && entity.abilities.length > 0) drawAbilityEffects(ctx, entity, scene.tick * TICK_MS)
+    drawEntity(ctx, entity, images.get(entity.id), overlay.aura)
+  }
+
+  drawAir(ctx, width, height, entities, images, scene)
+  ctx.restore()
+
+  drawOverlay(ctx, width, height, overlay)
+}
@@ -0,0 +1,211 @@
+import type { ArenaSize, DamageEvent, Entity } from "@/lib/battle/types"
+
+// Camera over the arena. The canvas keeps the arena's size and aspect, so a view is just a centre and a zoom
+// (1 shows the whole arena). Works the same on the page and inside the battle worker.
+
+export const MIN_ZOOM = 1
+export const MAX_ZOOM = 4
+// Zoom picked when following a fighter from the overview
+export const FOLLOW_ZOOM = 2.5
+
+// Time constant (ms) of a camera catching up with its target
+const EASE_MS = 150
+// Breathing room around framed fighters, in arena pixels
+const FRAME_PADDING = 80
+// The director holds a shot at least this long before looking for a better one
+const DIRECTOR_HOLD_MS = 3000
+// Fighters this close to the anchor count towards a fight's size and are kept in frame
+const DIRECTOR_RADIUS = 250
+// A fighter taking or dealing damage counts this much more than one standing by
+const DAMAGE_WEIGHT = 3
+
+export interface CameraView {
+  // Centre of the view, in arena pixels
+  x: number
+  y: number
+  zoom: number
+}
+
+// free: the viewer pans and zooms, follow: keeps a fighter centred, director: cuts to the action on its own
+export type CameraFocus = { mode: "free" } | { mode: "follow"; entityId: string } | { mode: "director" }
+
+export const FREE_FOCUS: CameraFocus = { mode: "free" }
+
+export interface ViewRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export function overview(arena: ArenaSize): CameraView {
+  return { x: arena.width / 2, y: arena.height / 2, zoom: MIN_ZOOM }
+}
+
+// Keep the zoom in range and the view inside the arena
+export function clampView(view: CameraView, arena: ArenaSize): CameraView {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom))
+  const halfWidth = arena.width / (2 * zoom)
+  const halfHeight = arena.height / (2 * zoom)
+  return {
+    x: Math.min(arena.width - halfWidth, Math.max(halfWidth, view.x)),
+    y: Math.min(arena.height - halfHeight, Math.max(halfHeight, view.y)),
+    zoom,
+  }
+}
+
+// The part of the arena on screen
+export function visibleRect(view: CameraView, arena: ArenaSize): ViewRect {
+  const width = arena.width / view.zoom
+  const height = arena.height / view.zoom
+  return { x: view.x - width / 2, y: view.y - height / 2, width, height }
+}
+
+// Arena point under a spot on the canvas, given as a fraction of its width and height
+export function viewToArena(view: CameraView, arena: ArenaSize, fx: number, fy: number) {
+  const rect = visibleRect(view, arena)
+  return { x: rect.x + fx * rect.width, y: rect.y + fy * rect.height }
+}
+
+// Zoom by a factor while keeping the given arena point under the same spot on screen
+export function zoomAround(
+  view: CameraView,
+  arena: ArenaSize,
+  factor: number,
+  point: { x: number; y: number },
+): CameraView {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor))
+  const scale = view.zoom / zoom
+  return clampView({ x: point.x + (view.x - point.x) * scale, y: point.y + (view.y - point.y) * scale, zoom }, arena)
+}
+
+// Smallest view that holds every given fighter
+function frameEntities(entities: readonly Entity[], arena: ArenaSize): CameraView {
+  let left = Infinity
+  let top = Infinity
+  let right = -Infinity
+  let bottom = -Infinity
+  for (const entity of entities) {
+    left = Math.min(left, entity.x - entity.radius)
+    top = Math.min(top, entity.y - entity.radius)
+    right = Math.max(right, entity.x + entity.radius)
+    bottom = Math.max(bottom, entity.y + entity.radius)
+  }
+
+  const zoom = Math.min(
+    arena.width / (right - left + 2 * FRAME_PADDING),
+    arena.height / (bottom - top + 2 * FRAME_PADDING),
+  )
+  return clampView({ x: (left + right) / 2, y: (top + bottom) / 2, zoom }, arena)
+}
+
+export interface CameraRig {
+  // Updated in place
+  readonly view: CameraView
+  setView: (view: CameraView) => void
+  setFocus: (focus: CameraFocus) => void
+  // Move towards the focus, returns whether the view changed
+  update: (entities: readonly Entity[], damageEvents: readonly DamageEvent[], now: number) => boolean
+}
+
+export function createCameraRig(arena: ArenaSize): CameraRig {
+  const view = overview(arena)
+  let focus: CameraFocus = FREE_FOCUS
+  let lastUpdate: number | null = null
+  // The director's current subject and when it may cut away
+  let anchorId: string | null = null
+  let holdUntil = 0
+
+  // The fighter at the heart of the biggest fight, counting recent damage
+  const densestFight = (alive: readonly Entity[], damageEvents: readonly DamageEvent[]) => {
+    const involved = new Set<string>()
+    for (const event of damageEvents) {
+      involved.add(event.attackerId)
+      involved.add(event.victimId)
+    }
+
+    let best: Entity | null = null
+    let bestScore = -1
+    for (const entity of alive) {
+      let score = 0
+      for (const other of alive) {
+        if (Math.hypot(other.x - entity.x, other.y - entity.y) > DIRECTOR_RADIUS) continue
+        score += involved.has(other.id) ? DAMAGE_WEIGHT : 1
+      }
+      if (score > bestScore) {
+        best = entity
+        bestScore = score
+      }
+    }
+    return best
+  }
+
+  const directorShot = (entities: readonly Entity[], damageEvents: readonly DamageEvent[], now: number) => {
+    const alive = entities.filter((entity) => !entity.isDestroyed)
+    if (alive.length === 0) return null
+    // The final duel keeps both fighters in frame
+    if (alive.length <= 2) return { target: frameEntities(alive, arena), cut: false }
+
+    let anchor = alive.find((entity) => entity.id === anchorId)
+    let cut = false
+    if (!anchor || now >= holdUntil) {
+      const next = densestFight(alive, damageEvents)!
+      cut = next.id !== anchor?.id
+      anchor = next
+      anchorId = next.id
+      holdUntil = now + DIRECTOR_HOLD_MS
+    }
+
+    const { x, y } = anchor
+    const fight = alive.filter((entity) => Math.hypot(entity.x - x, entity.y - y) <= DIRECTOR_RADIUS)
+    return { target: frameEntities(fight, arena), cut }
+  }
+
+  const update = (entities: readonly Entity[], damageEvents: readonly DamageEvent[], now: number) => {
+    const elapsed = lastUpdate === null ? 0 : now - lastUpdate
+    lastUpdate = now
+    if (focus.mode === "free") return false
+
+    let target: CameraView | null = null
+    let cut = false
+    if (focus.mode === "follow") {
+      const { entityId } = focus
+      const entity = entities.find((e) => e.id === entityId && !e.isDestroyed)
+      if (entity) target = clampView({ x: entity.x, y: entity.y, zoom: view.zoom }, arena)
+    } else {
+      const shot = directorShot(entities, damageEvents, now)
+      if (shot) ({ target, cut } = shot)
+    }
+    if (!target) return false
+
+    // A cut far away jumps straight there, anything else eases in
+    const rect = visibleRect(view, arena)
+    const far = Math.abs(target.x - view.x) > rect.width / 2 || Math.abs(target.y - view.y) > rect.height / 2
+    const t = cut && far ? 1 : 1 - Math.exp(-elapsed / EASE_MS)
+    const next = clampView(
+      {
+        x: view.x + (target.x - view.x) * t,
+        y: view.y + (target.y - view.y) * t,
+        zoom: view.zoom + (target.zoom - view.zoom) * t,
+      },
+      arena,
+    )
+    const changed =
+      Math.abs(next.x - view.x) > 0.01 || Math.abs(next.y - view.y) > 0.01 || Math.abs(next.zoom - view.zoom) > 1e-4
+    Object.assign(view, next)
+    return changed
+  }
+
+  return {
+    view,
+    setView: (next) => {
+      Object.assign(view, clampView(next, arena))
+    },
+    setFocus: (next) => {
+      focus = next
+      anchorId = null
+      holdUntil = 0
+    },
+    update,
+  }
+}
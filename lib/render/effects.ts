@@ -0,0 +1,411 @@
+import { z } from "zod"
+import { createRng } from "@/lib/battle/rng"
+import type { Entity } from "@/lib/battle/types"
+import type { RenderContext } from "./arena-renderer"
+
+// Hit sparks, elimination shatters, damage numbers, combo counters, screen shake and barrier shimmers. Purely
+// cosmetic: effects are worked out by comparing each frame's entities with the last and never touch the engine.
+// Their random rolls come from the battle seed and tick, so a video export comes out the same every time. Live views
+// and replays sample frames at their own pace, so they only come close to it.
+
+export type EffectsQuality = "auto" | "high" | "low" | "off"
+
+export const EFFECTS_QUALITIES: Record<EffectsQuality, { name: string; description: string }> = {
+  auto: { name: "Auto", description: "Scales back as the roster grows" },
+  high: { name: "High", description: "Every effect, full particle counts" },
+  low: { name: "Low", description: "Fewer sparks, no damage numbers" },
+  off: { name: "Off", description: "No effects" },
+}
+
+export const effectsSettingsSchema = z.object({
+  quality: z.enum(["auto", "high", "low", "off"]),
+  screenShake: z.boolean(),
+})
+
+export type EffectsSettings = z.infer<typeof effectsSettingsSchema>
+
+export const DEFAULT_EFFECTS_SETTINGS: EffectsSettings = {
+  quality: "auto",
+  screenShake: true,
+}
+
+// What auto drops to once this many fighters are alive
+const AUTO_LOW_ENTITIES = 60
+const AUTO_OFF_ENTITIES = 200
+
+const LEVELS = {
+  high: { maxParticles: 1500, sparkScale: 1, damageNumbers: true },
+  low: { maxParticles: 300, sparkScale: 0.35, damageNumbers: false },
+}
+
+// Sparks per point of damage, capped per hit
+const SPARKS_PER_DAMAGE = 0.6
+const MAX_SPARKS_PER_HIT = 24
+const SPARK_LIFE_MS = 450
+// Arena pixels per ms
+const SPARK_SPEED = 0.35
+const SHARD_SPEED = 0.12
+const SHARD_LIFE_MS = 700
+const RING_LIFE_MS = 450
+const SHIMMER_LIFE_MS = 1000
+const TEXT_LIFE_MS = 800
+// How far floating text rises over its life
+const TEXT_RISE = 40
+// Smaller hits (zone ticks, hazards) only spark
+const MIN_NUMBER_DAMAGE = 2
+// Hits at least this big shake the screen and get a bigger number
+const BIG_HIT = 25
+// Combo counters show from this many hits in a row
+const MIN_COMBO = 3
+// Screen shake in canvas pixels, and how fast it settles
+const MAX_SHAKE = 10
+const SHAKE_DECAY_MS = 120
+const ELIMINATION_SHAKE = 2
+
+export type ParticleKind = "spark" | "shard" | "ring" | "shimmer" | "damage" | "combo"
+
+// Pooled - particles are recycled rather than allocated for every hit
+export interface Particle {
+  kind: ParticleKind
+  x: number
+  y: number
+  vx: number
+  vy: number
+  born: number
+  life: number
+  size: number
+  color: string
+  // Shards: the quarter of the picture they carry, and how fast they tumble (radians per ms)
+  angle: number
+  spin: number
+  // Shards, shimmers and combo counters belong to an entity
+  entityId: string
+  text: string
+}
+
+// What the last frame showed of an entity
+interface Seen {
+  health: number
+  isDestroyed: boolean
+  hasBarrier: boolean
+  comboCount: number
+}
+
+export interface EffectsRig {
+  configure: (settings: EffectsSettings) => void
+  // Spawn effects for what changed since the last call and age the rest. Jumps in time are fine, callers pass
+  // wall time live and battle time when exporting, plus the battle tick the entities are from
+  update: (entities: readonly Entity[], now: number, tick: number) => void
+  // Drop every particle and forget what entities looked like. A new battle passes its seed, a replay seek keeps it.
+  reset: (seed?: number) => void
+  // Whether anything is still on screen
+  readonly active: boolean
+  // Canvas offset for screen shake, applied before the camera
+  shake: () => { x: number; y: number }
+  draw: (ctx: RenderContext, entities: readonly Entity[], images: ReadonlyMap<string, CanvasImageSource>) => void
+  // Every live particle with its age in ms, for renderers that draw them their own way
+  eachParticle: (visit: (particle: Readonly<Particle>, age: number) => void) => void
+}
+
+// Where floating text sits and how it looks part way (t from 0 to 1) through its life. Combo counters hold still and
+// pop when they count up, damage numbers drift up and fade
+export function placeText(particle: Readonly<Particle>, t: number) {
+  const combo = particle.kind === "combo"
+  return {
+    y: particle.y - (combo ? 12 : t * TEXT_RISE),
+    size: combo ? Math.round(particle.size * (1 + 0.4 * Math.max(0, 1 - t * 6))) : particle.size,
+    alpha: combo ? Math.min(1, 3 * (1 - t)) : 1 - t,
+  }
+}
+
+export function createEffectsRig(initial: EffectsSettings = DEFAULT_EFFECTS_SETTINGS): EffectsRig {
+  let settings = initial
+  let level: (typeof LEVELS)["high"] | null = null
+  const pool: Particle[] = []
+  let count = 0
+  const seen = new Map<string, Seen>()
+  let now = 0
+  let shakeAmount = 0
+  let seed = 0
+  let random = createRng(seed).next
+
+  const spawn = (kind: ParticleKind, x: number, y: number, life: number, color: string): Particle | null => {
+    if (!level || count >= level.maxParticles) return null
+    const particle = pool[count] ?? (pool[count] = {} as Particle)
+    count++
+    particle.kind = kind
+    particle.x = x
+    particle.y = y
+    particle.vx = 0
+    particle.vy = 0
+    particle.born = now
+    particle.life = life
+    particle.size = 0
+    particle.color = color
+    particle.angle = 0
+    particle.spin = 0
+    particle.entityId = ""
+    particle.text = ""
+    return particle
+  }
+
+  // Swap the last live particle into the freed slot
+  const release = (index: number) => {
+    count--
+    const last = pool[count]
+    pool[count] = pool[index]
+    pool[index] = last
+  }
+
+  const sparks = (entity: Entity, amount: number, color: string) => {
+    const total = Math.min(MAX_SPARKS_PER_HIT, Math.round(amount * SPARKS_PER_DAMAGE * level!.sparkScale))
+    for (let i = 0; i < total; i++) {
+      const angle = random() * Math.PI * 2
+      const speed = SPARK_SPEED * (0.4 + random())
+      const x = entity.x + Math.cos(angle) * entity.radius
+      const y = entity.y + Math.sin(angle) * entity.radius
+      const spark = spawn("spark", x, y, SPARK_LIFE_MS * (0.6 + random() * 0.6), color)
+      if (!spark) return
+      spark.vx = Math.cos(angle) * speed
+      spark.vy = Math.sin(angle) * speed
+      spark.size = 1 + random() * 2
+    }
+  }
+
+  const floatingText = (kind: "damage" | "combo", entity: Entity, text: string, color: string, size: number) => {
+    // One combo counter per entity, counting up in place
+    if (kind === "combo") {
+      for (let i = 0; i < count; i++) {
+        const particle = pool[i]
+        if (particle.kind === "combo" && particle.entityId === entity.id) {
+          particle.text = text
+          particle.born = now
+          return
+        }
+      }
+    }
+    const offset = kind === "damage" ? (random() - 0.5) * entity.radius : 0
+    const particle = spawn(kind, entity.x + offset, entity.y - entity.radius, TEXT_LIFE_MS, color)
+    if (!particle) return
+    particle.entityId = entity.id
+    particle.text = text
+    particle.size = size
+  }
+
+  // Four quarters of the fighter's picture tumbling apart, behind a flash ring
+  const shatter = (entity: Entity) => {
+    const ring = spawn("ring", entity.x, entity.y, RING_LIFE_MS, entity.neonColor)
+    if (ring) ring.size = entity.radius
+    for (let quarter = 0; quarter < 4; quarter++) {
+      const angle = (quarter * Math.PI) / 2
+      const shard = spawn("shard", entity.x, entity.y, SHARD_LIFE_MS, entity.neonColor)
+      if (!shard) break
+      const direction = angle + Math.PI / 4
+      shard.vx = Math.cos(direction) * SHARD_SPEED * (0.8 + random() * 0.4)
+      shard.vy = Math.sin(direction) * SHARD_SPEED * (0.8 + random() * 0.4)
+      shard.angle = angle
+      shard.spin = (random() - 0.5) * 0.01
+      shard.size = entity.radius
+      shard.entityId = entity.id
+    }
+    sparks(entity, MAX_SPARKS_PER_HIT / SPARKS_PER_DAMAGE, entity.neonColor)
+  }
+
+  const shimmer = (entity: Entity) => {
+    const particle = spawn("shimmer", entity.x, entity.y, SHIMMER_LIFE_MS, "#00ff00")
+    if (!particle) return
+    particle.entityId = entity.id
+    particle.size = entity.radius
+  }
+
+  const addShake = (amount: number) => {
+    if (settings.screenShake) shakeAmount = Math.min(MAX_SHAKE, shakeAmount + amount)
+  }
+
+  const observe = (entity: Entity, before: Seen) => {
+    if (entity.isDestroyed) {
+      if (!before.isDestroyed) {
+        shatter(entity)
+        addShake(ELIMINATION_SHAKE)
+      }
+      return
+    }
+
+    const damage = before.health - entity.health
+    if (damage > 0 && !before.isDestroyed) {
+      sparks(entity, damage, damage >= BIG_HIT ? "#ff4040" : "#ffd080")
+      if (level!.damageNumbers && damage >= MIN_NUMBER_DAMAGE) {
+        const big = damage >= BIG_HIT
+        floatingText("damage", entity, `${Math.round(damage)}`, big ? "#ff4040" : "#ffffff", big ? 18 : 12)
+      }
+      if (damage >= BIG_HIT) addShake((damage / BIG_HIT) * 3)
+    }
+    if (entity.comboCount >= MIN_COMBO && entity.comboCount > before.comboCount) {
+      floatingText("combo", entity, `${entity.comboCount} HIT COMBO`, entity.neonColor, 14)
+    }
+    // Barrier up: shimmer. Barrier popped without losing health: a puff of green
+    if (entity.hasBarrier && !before.hasBarrier) shimmer(entity)
+    if (!entity.hasBarrier && before.hasBarrier && damage <= 0) sparks(entity, 10, "#00ff00")
+  }
+
+  const update = (entities: readonly Entity[], time: number, tick: number) => {
+    const elapsed = Math.max(0, time - now)
+    now = time
+    random = createRng(Math.imul(seed ^ Math.imul(tick, 0x9e3779b1), 0x85ebca6b)).next
+
+    const alive = entities.reduce((total, entity) => total + (entity.isDestroyed ? 0 : 1), 0)
+    const quality =
+      settings.quality !== "auto"
+        ? settings.quality
+        : alive > AUTO_OFF_ENTITIES
+          ? "off"
+          : alive > AUTO_LOW_ENTITIES
+            ? "low"
+            : "high"
+    level = quality === "off" ? null : LEVELS[quality]
+
+    for (const entity of entities) {
+      const before = seen.get(entity.id)
+      // First sight of an entity is its baseline
+      if (!before) {
+        const { health, isDestroyed, hasBarrier, comboCount } = entity
+        seen.set(entity.id, { health, isDestroyed, hasBarrier, comboCount })
+        continue
+      }
+      if (level) observe(entity, before)
+      before.health = entity.health
+      before.isDestroyed = entity.isDestroyed
+      before.hasBarrier = entity.hasBarrier
+      before.comboCount = entity.comboCount
+    }
+
+    for (let i = count - 1; i >= 0; i--) {
+      const particle = pool[i]
+      if (now - particle.born >= particle.life) {
+        release(i)
+        continue
+      }
+      particle.x += particle.vx * elapsed
+      particle.y += particle.vy * elapsed
+      if (particle.kind === "spark") {
+        const drag = Math.exp(-elapsed / 300)
+        particle.vx *= drag
+        particle.vy *= drag
+      }
+    }
+    shakeAmount *= Math.exp(-elapsed / SHAKE_DECAY_MS)
+    if (shakeAmount < 0.1) shakeAmount = 0
+  }
+
+  const draw = (ctx: RenderContext, entities: readonly Entity[], images: ReadonlyMap<string, CanvasImageSource>) => {
+    if (count === 0) return
+    // Shimmers ride along with their fighter
+    const byId = new Map<string, Entity>()
+    for (let i = 0; i < count; i++) {
+      if (pool[i].kind !== "shimmer") continue
+      for (const entity of entities) byId.set(entity.id, entity)
+      break
+    }
+
+    ctx.save()
+    for (let i = 0; i < count; i++) {
+      const particle = pool[i]
+      const t = (now - particle.born) / particle.life
+      ctx.globalAlpha = 1 - t
+
+      switch (particle.kind) {
+        case "spark":
+          ctx.fillStyle = particle.color
+          ctx.fillRect(particle.x - particle.size / 2, particle.y - particle.size / 2, particle.size, particle.size)
+          break
+
+        case "shard": {
+          const image = images.get(particle.entityId)
+          ctx.save()
+          ctx.translate(particle.x, particle.y)
+          ctx.rotate(particle.spin * (now - particle.born))
+          ctx.beginPath()
+          ctx.moveTo(0, 0)
+          ctx.arc(0, 0, particle.size, particle.angle, particle.angle + Math.PI / 2)
+          ctx.closePath()
+          ctx.strokeStyle = particle.color
+          ctx.lineWidth = 2
+          ctx.stroke()
+          ctx.clip()
+          if (image) ctx.drawImage(image, -particle.size, -particle.size, particle.size * 2, particle.size * 2)
+          ctx.restore()
+          break
+        }
+
+        case "ring":
+          ctx.strokeStyle = particle.color
+          ctx.lineWidth = 4 * (1 - t) + 1
+          ctx.beginPath()
+          ctx.arc(particle.x, particle.y, particle.size * (1 + t * 1.5), 0, Math.PI * 2)
+          ctx.stroke()
+          break
+
+        case "shimmer": {
+          const entity = byId.get(particle.entityId)
+          if (!entity || entity.isDestroyed) break
+          const radius = entity.radius + 6
+          const turn = t * Math.PI * 4
+          ctx.strokeStyle = particle.color
+          ctx.lineWidth = 3
+          ctx.beginPath()
+          ctx.arc(entity.x, entity.y, radius, turn, turn + Math.PI * 0.6)
+          ctx.stroke()
+          ctx.beginPath()
+          ctx.arc(entity.x, entity.y, radius, turn + Math.PI, turn + Math.PI * 1.6)
+          ctx.stroke()
+          ctx.fillStyle = "#ffffff"
+          for (let k = 0; k < 6; k++) {
+            const angle = -turn + (k * Math.PI) / 3
+            ctx.fillRect(entity.x + Math.cos(angle) * radius - 1.5, entity.y + Math.sin(angle) * radius - 1.5, 3, 3)
+          }
+          break
+        }
+
+        case "damage":
+        case "combo": {
+          const { y, size, alpha } = placeText(particle, t)
+          ctx.globalAlpha = alpha
+          ctx.font = `bold ${size}px Arial`
+          ctx.textAlign = "center"
+          ctx.lineWidth = 3
+          ctx.strokeStyle = "#000000"
+          ctx.fillStyle = particle.color
+          ctx.strokeText(particle.text, particle.x, y)
+          ctx.fillText(particle.text, particle.x, y)
+          break
+        }
+      }
+    }
+    ctx.restore()
+  }
+
+  return {
+    configure: (next) => {
+      settings = next
+      if (!next.screenShake) shakeAmount = 0
+    },
+    update,
+    reset: (battleSeed = seed) => {
+      seed = battleSeed
+      count = 0
+      seen.clear()
+      shakeAmount = 0
+    },
+    get active() {
+      return count > 0 || shakeAmount > 0
+    },
+    shake: () =>
+      shakeAmount === 0
+        ? { x: 0, y: 0 }
+        : { x: (random() - 0.5) * 2 * shakeAmount, y: (random() - 0.5) * 2 * shakeAmount },
+    draw,
+    eachParticle: (visit) => {
+      for (let i = 0; i < count; i++) visit(pool[i], now - pool[i].born)
+    },
+  }
+}
@@ -0,0 +1,57 @@
+import { z } from "zod"
+import type { Entity } from "@/lib/battle/types"
+import { drawArena, type ArenaOverlay, type ArenaScene } from "./arena-renderer"
+import { createWebglRenderer } from "./webgl-renderer"
+
+// Draws the arena onto one canvas, on the page or inside the battle worker. A canvas only ever gets one kind of
+// context, so switching backends means handing the renderer a fresh canvas.
+
+export type RendererBackend = "canvas2d" | "webgl2"
+export type RendererPreference = "auto" | RendererBackend
+
+export const RENDERER_PREFERENCES: Record<RendererPreference, { name: string; description: string }> = {
+  auto: { name: "Auto", description: "WebGL2 where the browser has it, Canvas2D otherwise" },
+  webgl2: { name: "WebGL2", description: "Draws fighters in one batch, for big battles" },
+  canvas2d: { name: "Canvas2D", description: "The reference renderer, with health numbers" },
+}
+
+export const rendererPreferenceSchema = z.enum(["auto", "webgl2", "canvas2d"])
+
+export type ArenaCanvas = HTMLCanvasElement | OffscreenCanvas
+
+export interface ArenaRenderer {
+  readonly backend: RendererBackend
+  readonly canvas: ArenaCanvas
+  // Draws a frame the size of the canvas
+  render: (
+    entities: readonly Entity[],
+    images: ReadonlyMap<string, CanvasImageSource>,
+    overlay: ArenaOverlay,
+    scene: ArenaScene,
+  ) => void
+  // Frees GPU resources, the canvas itself stays usable by this backend only
+  dispose: () => void
+}
+
+function createCanvas2dRenderer(canvas: ArenaCanvas): ArenaRenderer | null {
+  const ctx = canvas.getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+  if (!ctx) return null
+  return {
+    backend: "canvas2d",
+    canvas,
+    render: (entities, images, overlay, scene) =>
+      drawArena(ctx, canvas.width, canvas.height, entities, images, overlay, scene),
+    dispose: () => {},
+  }
+}
+
+// The preferred backend, falling back to the other one when it isn't available here (no WebGL2, or the canvas
+// already has a context of the other kind)
+export function createArenaRenderer(canvas: ArenaCanvas, preference: RendererPreference): ArenaRenderer {
+  const order: RendererBackend[] = preference === "canvas2d" ? ["canvas2d", "webgl2"] : ["webgl2", "canvas2d"]
+  for (const backend of order) {
+    const renderer = backend === "webgl2" ? createWebglRenderer(canvas) : createCanvas2dRenderer(canvas)
+    if (renderer) return renderer
+  }
+  throw new Error("Canvas has no usable rendering context")
+}
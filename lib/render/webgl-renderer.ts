@@ -0,0 +1,774 @@
+import { ABILITIES, ABILITY_FLASH_MS, KNOCKBACK_RADIUS } from "@/lib/battle/abilities"
+import { TICK_MS } from "@/lib/battle/engine"
+import type { Entity } from "@/lib/battle/types"
+import type { ResolvedMap } from "@/lib/battle/maps"
+import { drawMap, drawOverlay, isOutOfView, type ArenaScene } from "./arena-renderer"
+import { visibleRect } from "./camera"
+import type { ArenaCanvas, ArenaRenderer } from "./renderer"
+import {
+  GLYPH_ATLAS_HEIGHT,
+  GLYPH_ATLAS_WIDTH,
+  SPRITE_FLOATS,
+  SPRITE_GLYPH,
+  SPRITE_RING,
+  SPRITE_SHARD,
+  SPRITE_SHIMMER,
+  SPRITE_SQUARE,
+  SPRITE_STREAK,
+  SPRITE_ZONE,
+  createSpriteBatch,
+  drawGlyphAtlas,
+  parseColor,
+  writeAirSprites,
+  writeFloorSprites,
+  type GlyphAtlas,
+  type SpriteBatch,
+  type SpriteSources,
+} from "./webgl-sprites"
+
+// WebGL2 backend. The floor grid is drawn by a shader and the map is cached in a texture, and every fighter goes
+// out in a single instanced draw: picture from a thumbnail atlas, ability effects, aura, barrier and health bar
+// (the numbers are left to the Canvas2D renderer). Pickups, zones, decoys, projectiles and effect particles are
+// instanced sprites under and over the fighters (see webgl-sprites). Only the countdown and pause screen go through
+// Canvas2D, on a canvas-sized layer that is uploaded again only when its text changes.
+
+// Atlas cells are at most this big, and shrink to keep big rosters within one texture
+const ATLAS_CELL = 64
+const MAX_ATLAS_SIZE = 4096
+// Floats per fighter: centre (2), radius, atlas cell (3), neon colour (3), health, flags, ability flash fades (3)
+// and dash streak tail (2)
+const INSTANCE_FLOATS = 16
+const FLAG_BARRIER = 1
+const FLAG_AURA = 2
+// Lasting abilities, drawn while active
+const FLAG_REGEN = 4
+const FLAG_THORNS = 8
+
+// Ability colour as a GLSL vec3
+function abilityColor(id: keyof typeof ABILITIES) {
+  return `vec3(${parseColor(ABILITIES[id].color)
+    .map((channel) => channel.toFixed(3))
+    .join(", ")})`
+}
+
+// Arena to clip space, with the camera and screen shake applied the way the Canvas2D renderer does
+const VIEW_GLSL = `
+uniform vec2 u_canvas;
+uniform vec2 u_origin;
+uniform float u_zoom;
+uniform vec2 u_shake;
+
+vec4 toClip(vec2 point) {
+  vec2 screen = (point - u_origin) * u_zoom + u_shake;
+  vec2 clip = screen / u_canvas * 2.0 - 1.0;
+  return vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+`
+
+const FLOOR_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+out vec2 v_point;
+${VIEW_GLSL}
+void main() {
+  v_point = a_corner * u_canvas;
+  gl_Position = toClip(v_point);
+}
+`
+
+// Same colours and 50px spacing as the Canvas2D grid, crisp at any zoom
+const FLOOR_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_point;
+uniform sampler2D u_map;
+uniform vec2 u_canvas;
+out vec4 fragColor;
+void main() {
+  vec2 offset = abs(v_point - floor(v_point / 50.0 + 0.5) * 50.0);
+  float line = offset.x < 0.5 || offset.y < 0.5 ? 1.0 : 0.0;
+  vec3 ground = mix(vec3(0.039), vec3(0.102), line);
+  vec4 map = texture(u_map, v_point / u_canvas);
+  fragColor = vec4(map.rgb + ground * (1.0 - map.a), 1.0);
+}
+`
+
+const ENTITY_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec2 a_center;
+layout(location = 2) in float a_radius;
+layout(location = 3) in vec3 a_cell;
+layout(location = 4) in vec3 a_color;
+layout(location = 5) in float a_health;
+layout(location = 6) in float a_flags;
+layout(location = 7) in vec3 a_flash;
+layout(location = 8) in vec2 a_tail;
+out vec2 v_local;
+flat out float v_radius;
+flat out vec3 v_cell;
+flat out vec3 v_color;
+flat out float v_health;
+flat out int v_flags;
+flat out vec3 v_flash;
+flat out vec2 v_tail;
+${VIEW_GLSL}
+void main() {
+  // The aura reaches 20px out, which also covers the barrier, the health bar and the lasting abilities.
+  // Knockback rings and dash streaks stretch the quad while they show
+  float reach = a_radius + 20.0;
+  if (a_flash.y > 0.0) reach = max(reach, a_radius + float(${KNOCKBACK_RADIUS}) + 16.0);
+  if (a_flash.x > 0.0) reach = max(reach, length(a_tail) + a_radius * 0.5 + 12.0);
+  v_local = (a_corner * 2.0 - 1.0) * reach;
+  v_radius = a_radius;
+  v_cell = a_cell;
+  v_color = a_color;
+  v_health = a_health;
+  v_flags = int(a_flags);
+  v_flash = a_flash;
+  v_tail = a_tail;
+  gl_Position = toClip(a_center + v_local);
+}
+`
+
+// Layered back to front like drawAbilityEffects then drawEntity: ability effects (x: dash, y: knockback and
+// z: bolt flash fades), aura, barrier, picture, health bar. Colours are premultiplied
+const ENTITY_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_local;
+flat in float v_radius;
+flat in vec3 v_cell;
+flat in vec3 v_color;
+flat in float v_health;
+flat in int v_flags;
+flat in vec3 v_flash;
+flat in vec2 v_tail;
+uniform sampler2D u_atlas;
+uniform float u_texel;
+uniform float u_regen;
+uniform float u_spin;
+out vec4 fragColor;
+
+vec4 over(vec4 top, vec4 bottom) {
+  return top + bottom * (1.0 - top.a);
+}
+
+// Line of the given half width, with a soft glow standing in for the Canvas2D shadow blur
+vec4 stroke(vec3 rgb, float alpha, float dist, float halfWidth) {
+  float line = clamp(halfWidth + 0.5 - dist, 0.0, 1.0);
+  float glow = 0.4 * (1.0 - smoothstep(halfWidth, halfWidth + 12.0, dist));
+  float a = alpha * max(line, glow);
+  return vec4(rgb * a, a);
+}
+
+void main() {
+  float r = v_radius;
+  float d = length(v_local);
+  vec4 color = vec4(0.0);
+
+  if (v_flash.x > 0.0) {
+    // Distance to the streak from the centre back along the tail
+    float along = clamp(dot(v_local, v_tail) / max(dot(v_tail, v_tail), 1.0), 0.0, 1.0);
+    color = over(stroke(${abilityColor("dash")}, 0.4 * v_flash.x, length(v_local - v_tail * along), r * 0.5), color);
+  }
+  if (v_flash.y > 0.0) {
+    float ring = r + float(${KNOCKBACK_RADIUS}) * (1.0 - v_flash.y);
+    color = over(stroke(${abilityColor("knockback")}, v_flash.y, abs(d - ring), 2.0 * v_flash.y + 0.5), color);
+  }
+  if (v_flash.z > 0.0) color = over(stroke(${abilityColor("projectile")}, v_flash.z, abs(d - r - 4.0), 1.0), color);
+  if ((v_flags & ${FLAG_REGEN}) != 0) {
+    color = over(stroke(${abilityColor("regen")}, u_regen, abs(d - r - 6.0), 1.5), color);
+  }
+  if ((v_flags & ${FLAG_THORNS}) != 0 && d > r + 2.0 && d < r + 12.0) {
+    // Twelve spikes turning around the entity
+    float sector = 6.28318531 / 12.0;
+    float angle = mod(atan(v_local.y, v_local.x) - u_spin + sector * 0.5, sector) - sector * 0.5;
+    color = over(stroke(${abilityColor("thorns")}, 1.0, abs(angle) * d, 1.0), color);
+  }
+
+  if ((v_flags & ${FLAG_AURA}) != 0 && d > r && d < r + 20.0) {
+    float alpha = 0.25 * (1.0 - (d - r) / 20.0);
+    color = over(vec4(v_color * alpha, alpha), color);
+  }
+
+  if ((v_flags & ${FLAG_BARRIER}) != 0 && abs(d - (r + 10.0)) < 2.0) {
+    // 5px dashes with 5px gaps around the ring
+    float along = (atan(v_local.y, v_local.x) + 3.14159265) * (r + 10.0);
+    if (mod(along, 10.0) < 5.0) color = over(vec4(0.0, 1.0, 0.0, 1.0), color);
+  }
+
+  if (d < r && v_cell.z > 0.0) {
+    // Stay half a texel inside the cell so neighbours don't bleed in
+    vec2 t = v_local / (2.0 * r) + 0.5;
+    vec2 uv = v_cell.xy + mix(vec2(u_texel * 0.5), vec2(v_cell.z - u_texel * 0.5), t);
+    color = over(texture(u_atlas, uv) * clamp(r - d, 0.0, 1.0), color);
+  }
+
+  float top = -r - 15.0;
+  if (v_local.x >= -r && v_local.x <= r && v_local.y >= top && v_local.y <= top + 6.0) {
+    vec3 health = v_health > 0.5 ? vec3(0.0, 1.0, 0.0) : v_health > 0.25 ? vec3(1.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0);
+    vec3 bar = v_local.x <= -r + 2.0 * r * v_health ? health : vec3(0.2);
+    bool border = v_local.x < -r + 1.0 || v_local.x > r - 1.0 || v_local.y < top + 1.0 || v_local.y > top + 5.0;
+    color = vec4(border ? vec3(1.0) : bar, 1.0);
+  }
+
+  fragColor = color;
+}
+`
+
+const SPRITE_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec2 a_center;
+layout(location = 2) in vec2 a_half;
+layout(location = 3) in float a_angle;
+layout(location = 4) in float a_kind;
+layout(location = 5) in vec4 a_color;
+layout(location = 6) in vec4 a_params;
+layout(location = 7) in vec2 a_dash;
+layout(location = 8) in vec4 a_cell;
+out vec2 v_local;
+flat out vec2 v_half;
+flat out int v_kind;
+flat out vec4 v_color;
+flat out vec4 v_params;
+flat out vec2 v_dash;
+flat out vec4 v_cell;
+${VIEW_GLSL}
+void main() {
+  v_local = (a_corner * 2.0 - 1.0) * a_half;
+  v_half = a_half;
+  v_kind = int(a_kind);
+  v_color = a_color;
+  v_params = a_params;
+  v_dash = a_dash;
+  v_cell = a_cell;
+  float c = cos(a_angle);
+  float s = sin(a_angle);
+  gl_Position = toClip(a_center + mat2(c, s, -s, c) * v_local);
+}
+`
+
+// One shape per sprite kind, see webgl-sprites for the params. Colours are premultiplied
+const SPRITE_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_local;
+flat in vec2 v_half;
+flat in int v_kind;
+flat in vec4 v_color;
+flat in vec4 v_params;
+flat in vec2 v_dash;
+flat in vec4 v_cell;
+uniform sampler2D u_atlas;
+uniform sampler2D u_glyphs;
+uniform float u_texel;
+out vec4 fragColor;
+
+const float TAU = 6.28318531;
+
+vec4 over(vec4 top, vec4 bottom) {
+  return top + bottom * (1.0 - top.a);
+}
+
+vec4 paint(vec3 rgb, float alpha) {
+  return vec4(rgb * alpha, alpha);
+}
+
+float line(float dist, float halfWidth) {
+  return clamp(halfWidth + 0.5 - dist, 0.0, 1.0);
+}
+
+// Soft halo standing in for the Canvas2D shadow blur
+float glow(float dist, float halfWidth) {
+  return 0.4 * (1.0 - smoothstep(halfWidth, halfWidth + 12.0, dist));
+}
+
+// Angle around the sprite centre, 0 to TAU from the +x axis like Canvas2D arcs
+float turn(vec2 point) {
+  return mod(atan(point.y, point.x) + TAU, TAU);
+}
+
+float segment(vec2 point, vec2 to) {
+  float along = clamp(dot(point, to) / max(dot(to, to), 0.0001), 0.0, 1.0);
+  return length(point - to * along);
+}
+
+// The sprite's fighter picture, drawn over a 2r square around the centre
+vec4 picture(vec2 point, float r) {
+  vec2 t = point / (2.0 * r) + 0.5;
+  vec2 uv = v_cell.xy + mix(vec2(u_texel * 0.5), v_cell.zw - u_texel * 0.5, t);
+  return texture(u_atlas, uv);
+}
+
+void main() {
+  float d = length(v_local);
+  vec3 rgb = v_color.rgb;
+  float alpha = v_color.a;
+  vec4 color = vec4(0.0);
+
+  if (v_kind == ${SPRITE_SQUARE}) {
+    color = paint(rgb, alpha);
+  } else if (v_kind == ${SPRITE_RING}) {
+    float r = v_params.x;
+    float halfWidth = v_params.y * 0.5;
+    float dist = abs(d - r);
+    if (d < r) color = paint(rgb, alpha * v_params.z);
+    bool on = v_dash.y == 0.0 || mod(turn(v_local) * r, v_dash.y) < v_dash.x;
+    float ring = max(on ? line(dist, halfWidth) : 0.0, v_params.w * glow(dist, halfWidth));
+    color = over(paint(rgb, alpha * ring), color);
+    if (v_cell.z > 0.0 && d < r) color = over(picture(v_local, r) * alpha * clamp(r - d, 0.0, 1.0), color);
+  } else if (v_kind == ${SPRITE_STREAK}) {
+    // Trail fading out towards the tail, then the head with its white-hot core
+    vec2 tail = v_params.xy;
+    float halfWidth = v_params.z * 0.5;
+    float along = clamp(dot(v_local, tail) / max(dot(tail, tail), 0.0001), 0.0, 1.0);
+    float dist = segment(v_local, tail);
+    float fade = 0.75 * (1.0 - along);
+    color = paint(rgb, alpha * fade * max(line(dist, halfWidth), glow(dist, halfWidth)));
+    float head = v_params.w;
+    if (d < head + 0.5) color = over(paint(rgb, alpha * line(d, head)), color);
+    if (d < head * 0.45 + 0.5) color = over(paint(vec3(1.0), alpha * line(d, head * 0.45)), color);
+  } else if (v_kind == ${SPRITE_SHIMMER}) {
+    float r = v_params.x;
+    float spin = v_params.y;
+    float arc = mod(turn(v_local) - spin + TAU * 2.0, TAU);
+    bool inArc = arc < TAU * 0.3 || (arc > TAU * 0.5 && arc < TAU * 0.8);
+    if (inArc) color = paint(rgb, alpha * line(abs(d - r), 1.5));
+    for (int k = 0; k < 6; k++) {
+      float angle = -spin + float(k) * TAU / 6.0;
+      vec2 offset = abs(v_local - vec2(cos(angle), sin(angle)) * r);
+      if (max(offset.x, offset.y) < 1.5) color = paint(vec3(1.0), alpha);
+    }
+  } else if (v_kind == ${SPRITE_SHARD}) {
+    // A quarter of the picture, outlined, in the sprite's own turned frame
+    float r = v_params.x;
+    float start = v_params.y;
+    vec2 first = vec2(cos(start), sin(start)) * r;
+    vec2 second = vec2(-first.y, first.x);
+    bool inSector = mod(turn(v_local) - start + TAU * 2.0, TAU) < TAU * 0.25;
+    float edge = min(segment(v_local, first), segment(v_local, second));
+    if (inSector) edge = min(edge, abs(d - r));
+    color = paint(rgb, alpha * line(edge, 1.0));
+    if (inSector && d < r && v_cell.z > 0.0) color = over(picture(v_local, r) * alpha, color);
+  } else if (v_kind == ${SPRITE_GLYPH}) {
+    vec2 uv = v_cell.xy + (v_local / (2.0 * v_half) + 0.5) * v_cell.zw;
+    vec4 glyph = texture(u_glyphs, uv);
+    color = vec4(glyph.rgb * rgb, glyph.a) * alpha;
+  } else if (v_kind == ${SPRITE_ZONE}) {
+    float r = v_params.x;
+    if (d > r) color = paint(vec3(120.0, 0.0, 60.0) / 255.0, 0.3);
+    color = over(paint(rgb, alpha * line(abs(d - r), 1.5)), color);
+  }
+
+  fragColor = color;
+}
+`
+
+const LAYER_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+out vec2 v_uv;
+void main() {
+  v_uv = a_corner;
+  gl_Position = vec4(a_corner.x * 2.0 - 1.0, 1.0 - a_corner.y * 2.0, 0.0, 1.0);
+}
+`
+
+const LAYER_FRAGMENT = `#version 300 es
+precision mediump float;
+in vec2 v_uv;
+uniform sampler2D u_layer;
+out vec4 fragColor;
+void main() {
+  fragColor = texture(u_layer, v_uv);
+}
+`
+
+type Context2d = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// Scratch canvas for layers drawn with Canvas2D, in the worker as well as on the page
+function createLayerCanvas(width: number, height: number) {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height)
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+function layerContext(canvas: ArenaCanvas) {
+  return canvas.getContext("2d") as Context2d
+}
+
+function compileProgram(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string) {
+  const program = gl.createProgram()!
+  for (const [type, source] of [
+    [gl.VERTEX_SHADER, vertexSource],
+    [gl.FRAGMENT_SHADER, fragmentSource],
+  ] as const) {
+    const shader = gl.createShader(type)!
+    gl.shaderSource(shader, source)
+    gl.compileShader(shader)
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Shader doesn't compile: ${gl.getShaderInfoLog(shader)}`)
+    }
+    gl.attachShader(program, shader)
+    gl.deleteShader(shader)
+  }
+  gl.linkProgram(program)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shaders don't link: ${gl.getProgramInfoLog(program)}`)
+  }
+  return program
+}
+
+function createTexture(gl: WebGL2RenderingContext) {
+  const texture = gl.createTexture()!
+  gl.bindTexture(gl.TEXTURE_2D, texture)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+  // Transparent until something is uploaded
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(4))
+  return texture
+}
+
+function upload(gl: WebGL2RenderingContext, texture: WebGLTexture, source: ArenaCanvas) {
+  gl.bindTexture(gl.TEXTURE_2D, texture)
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source)
+}
+
+// Everything on the GPU side, rebuilt if the context is lost and comes back
+function createResources(gl: WebGL2RenderingContext) {
+  const floor = compileProgram(gl, FLOOR_VERTEX, FLOOR_FRAGMENT)
+  const entity = compileProgram(gl, ENTITY_VERTEX, ENTITY_FRAGMENT)
+  const sprite = compileProgram(gl, SPRITE_VERTEX, SPRITE_FRAGMENT)
+  const layer = compileProgram(gl, LAYER_VERTEX, LAYER_FRAGMENT)
+
+  const corners = gl.createBuffer()
+  gl.bindBuffer(gl.ARRAY_BUFFER, corners)
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW)
+
+  // The floor and layer quads only need the corners
+  const quadVao = gl.createVertexArray()
+  gl.bindVertexArray(quadVao)
+  gl.enableVertexAttribArray(0)
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0)
+
+  // Corners per vertex, then the given attribute sizes per instance
+  const instanced = (buffer: WebGLBuffer | null, sizes: number[]) => {
+    const vao = gl.createVertexArray()
+    gl.bindVertexArray(vao)
+    gl.bindBuffer(gl.ARRAY_BUFFER, corners)
+    gl.enableVertexAttribArray(0)
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0)
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer)
+    const stride = sizes.reduce((total, size) => total + size, 0)
+    let offset = 0
+    sizes.forEach((size, i) => {
+      gl.enableVertexAttribArray(i + 1)
+      gl.vertexAttribPointer(i + 1, size, gl.FLOAT, false, stride * 4, offset * 4)
+      gl.vertexAttribDivisor(i + 1, 1)
+      offset += size
+    })
+    gl.bindVertexArray(null)
+    return vao
+  }
+  const instances = gl.createBuffer()
+  const entityVao = instanced(instances, [2, 1, 3, 3, 1, 1, 3, 2])
+  const sprites = gl.createBuffer()
+  const spriteVao = instanced(sprites, [2, 2, 1, 1, 4, 4, 2, 4])
+
+  const locate = (program: WebGLProgram, names: string[]) =>
+    Object.fromEntries(names.map((name) => [name, gl.getUniformLocation(program, name)]))
+  const view = ["u_canvas", "u_origin", "u_zoom", "u_shake"]
+
+  return {
+    programs: { floor, entity, sprite, layer },
+    uniforms: {
+      floor: locate(floor, [...view, "u_map"]),
+      entity: locate(entity, [...view, "u_atlas", "u_texel", "u_regen", "u_spin"]),
+      sprite: locate(sprite, [...view, "u_atlas", "u_glyphs", "u_texel"]),
+      layer: locate(layer, ["u_layer"]),
+    },
+    buffers: [corners, instances, sprites],
+    instances,
+    sprites,
+    vaos: [quadVao, entityVao, spriteVao],
+    quadVao,
+    entityVao,
+    spriteVao,
+    textures: {
+      map: createTexture(gl),
+      atlas: createTexture(gl),
+      glyphs: createTexture(gl),
+      layer: createTexture(gl),
+    },
+  }
+}
+
+
+// Null when this canvas can't have a WebGL2 context (unsupported, or it already has a 2D one)
+export function createWebglRenderer(canvas: ArenaCanvas): ArenaRenderer | null {
+  const gl = canvas.getContext("webgl2", { premultipliedAlpha: true }) as WebGL2RenderingContext | null
+  if (!gl) return null
+
+  let resources: ReturnType<typeof createResources>
+  try {
+    resources = createResources(gl)
+  } catch {
+    return null
+  }
+
+  // Thumbnail atlas, rebuilt whenever a new set of images comes in
+  let atlasImages: ReadonlyMap<string, CanvasImageSource> | null = null
+  let atlasTexel = 0
+  const cells = new Map<string, [number, number, number]>()
+  const buildAtlas = (images: ReadonlyMap<string, CanvasImageSource>) => {
+    atlasImages = images
+    cells.clear()
+    const columns = Math.max(1, Math.ceil(Math.sqrt(images.size)))
+    const limit = Math.min(MAX_ATLAS_SIZE, gl.getParameter(gl.MAX_TEXTURE_SIZE) as number)
+    const cell = Math.max(8, Math.min(ATLAS_CELL, Math.floor(limit / columns)))
+    const size = columns * cell
+    const atlas = createLayerCanvas(size, size)
+    const ctx = layerContext(atlas)
+    let index = 0
+    for (const [id, image] of images) {
+      const x = (index % columns) * cell
+      const y = Math.floor(index / columns) * cell
+      ctx.drawImage(image, x, y, cell, cell)
+      cells.set(id, [x / size, y / size, cell / size])
+      index++
+    }
+    atlasTexel = 1 / size
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true)
+    upload(gl, resources.textures.atlas, atlas)
+  }
+
+  // The map only changes between battles, so it's drawn once
+  let mapKey: { map: ResolvedMap | null; width: number; height: number } | null = null
+  const prepareMap = (map: ResolvedMap | null) => {
+    if (mapKey?.map === map && mapKey.width === canvas.width && mapKey.height === canvas.height) return
+    mapKey = { map, width: canvas.width, height: canvas.height }
+    const layer = createLayerCanvas(canvas.width, canvas.height)
+    if (map) drawMap(layerContext(layer), map)
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true)
+    upload(gl, resources.textures.map, layer)
+  }
+
+  // Floating text and pickup glyphs never change, so they're drawn once
+  const glyphCanvas = createLayerCanvas(GLYPH_ATLAS_WIDTH, GLYPH_ATLAS_HEIGHT)
+  const glyphs: GlyphAtlas = drawGlyphAtlas(layerContext(glyphCanvas))
+  const uploadGlyphs = () => {
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true)
+    upload(gl, resources.textures.glyphs, glyphCanvas)
+  }
+  uploadGlyphs()
+
+  // Countdown and pause screen, redrawn only when what they say changes
+  let layerCanvas: ArenaCanvas | null = null
+  let layerKey: string | null = null
+  const sprites = createSpriteBatch()
+  let instanceData = new Float32Array(64 * INSTANCE_FLOATS)
+  const colors = new Map<string, [number, number, number]>()
+
+  let lost = false
+  const onLost = (event: Event) => {
+    event.preventDefault()
+    lost = true
+  }
+  const onRestored = () => {
+    resources = createResources(gl)
+    uploadGlyphs()
+    atlasImages = null
+    mapKey = null
+    layerKey = null
+    lost = false
+  }
+  canvas.addEventListener("webglcontextlost", onLost)
+  canvas.addEventListener("webglcontextrestored", onRestored)
+
+  const setView = (
+    names: Record<string, WebGLUniformLocation | null>,
+    scene: ArenaScene,
+    shake: { x: number; y: number } | undefined,
+  ) => {
+    const { width, height } = canvas
+    const rect = scene.camera ? visibleRect(scene.camera, { width, height }) : null
+    gl.uniform2f(names.u_canvas, width, height)
+    gl.uniform2f(names.u_origin, rect?.x ?? 0, rect?.y ?? 0)
+    gl.uniform1f(names.u_zoom, scene.camera?.zoom ?? 1)
+    gl.uniform2f(names.u_shake, shake?.x ?? 0, shake?.y ?? 0)
+    return rect
+  }
+
+  // Fills the fighter's flash fades and dash tail the way drawAbilityEffects times them, returns its ability flags
+  const writeAbilities = (entity: Entity, offset: number, time: number | null) => {
+    instanceData.fill(0, offset + 11, offset + INSTANCE_FLOATS)
+    let flags = 0
+    if (time === null) return flags
+    for (const ability of entity.abilities) {
+      const active = ability.activeUntil > time
+      const age = ability.usedAt === null ? Infinity : time - ability.usedAt
+      if (!active && age >= ABILITY_FLASH_MS) continue
+
+      const fade = Math.max(0, 1 - age / ABILITY_FLASH_MS)
+      switch (ability.id) {
+        case "regen":
+          flags |= FLAG_REGEN
+          break
+        case "thorns":
+          flags |= FLAG_THORNS
+          break
+        case "dash": {
+          const length = (entity.radius * 3) / (Math.hypot(entity.vx, entity.vy) || 1)
+          instanceData[offset + 11] = fade
+          instanceData[offset + 14] = -entity.vx * length
+          instanceData[offset + 15] = -entity.vy * length
+          break
+        }
+        case "knockback":
+          instanceData[offset + 12] = fade
+          break
+        case "projectile":
+          instanceData[offset + 13] = fade
+          break
+      }
+    }
+    return flags
+  }
+
+  const drawSprites = (
+    write: (batch: SpriteBatch, sources: SpriteSources) => void,
+    sources: SpriteSources,
+    shake: { x: number; y: number } | undefined,
+  ) => {
+    sprites.clear()
+    write(sprites, sources)
+    if (sprites.count === 0) return
+    const { programs, uniforms, textures } = resources
+    gl.useProgram(programs.sprite)
+    setView(uniforms.sprite, sources.scene, shake)
+    gl.activeTexture(gl.TEXTURE1)
+    gl.bindTexture(gl.TEXTURE_2D, textures.glyphs)
+    gl.activeTexture(gl.TEXTURE0)
+    gl.bindTexture(gl.TEXTURE_2D, textures.atlas)
+    gl.uniform1i(uniforms.sprite.u_atlas, 0)
+    gl.uniform1i(uniforms.sprite.u_glyphs, 1)
+    gl.uniform1f(uniforms.sprite.u_texel, atlasTexel)
+    gl.bindBuffer(gl.ARRAY_BUFFER, resources.sprites)
+    gl.bufferData(gl.ARRAY_BUFFER, sprites.data.subarray(0, sprites.count * SPRITE_FLOATS), gl.DYNAMIC_DRAW)
+    gl.bindVertexArray(resources.spriteVao)
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, sprites.count)
+  }
+
+  const render: ArenaRenderer["render"] = (entities, images, overlay, scene) => {
+    if (lost) return
+    const { width, height } = canvas
+    const { programs, uniforms, textures } = resources
+    if (images !== atlasImages) buildAtlas(images)
+    prepareMap(scene.map ?? null)
+    // One shake offset for every layer of the frame
+    const shake = scene.effects?.shake()
+
+    gl.viewport(0, 0, width, height)
+    gl.enable(gl.BLEND)
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA)
+    gl.clearColor(0, 0, 0, 0)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+
+    // Floor and map
+    gl.useProgram(programs.floor)
+    setView(uniforms.floor, scene, shake)
+    gl.activeTexture(gl.TEXTURE0)
+    gl.bindTexture(gl.TEXTURE_2D, textures.map)
+    gl.uniform1i(uniforms.floor.u_map, 0)
+    gl.bindVertexArray(resources.quadVao)
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+
+    // Pickups, frozen zones and decoys under the fighters
+    const sources: SpriteSources = { entities, scene, cells, glyphs, width, height }
+    drawSprites(writeFloorSprites, sources, shake)
+
+    // Fighters, in roster order like the Canvas2D renderer
+    gl.useProgram(programs.entity)
+    const rect = setView(uniforms.entity, scene, shake)
+    if (instanceData.length < entities.length * INSTANCE_FLOATS) {
+      instanceData = new Float32Array(entities.length * 2 * INSTANCE_FLOATS)
+    }
+    // Ability effects need the battle clock, like in the Canvas2D renderer
+    const time = scene.tick === undefined ? null : scene.tick * TICK_MS
+    let count = 0
+    for (const entity of entities) {
+      if (entity.isDestroyed || isOutOfView(entity, rect)) continue
+      let color = colors.get(entity.neonColor)
+      if (!color) {
+        color = parseColor(entity.neonColor)
+        colors.set(entity.neonColor, color)
+      }
+      const cell = cells.get(entity.id)
+      const offset = count * INSTANCE_FLOATS
+      instanceData[offset] = entity.x
+      instanceData[offset + 1] = entity.y
+      instanceData[offset + 2] = entity.radius
+      instanceData[offset + 3] = cell?.[0] ?? 0
+      instanceData[offset + 4] = cell?.[1] ?? 0
+      instanceData[offset + 5] = cell?.[2] ?? 0
+      instanceData[offset + 6] = color[0]
+      instanceData[offset + 7] = color[1]
+      instanceData[offset + 8] = color[2]
+      instanceData[offset + 9] = Math.max(0, Math.min(1, entity.health / entity.maxHealth))
+      instanceData[offset + 10] =
+        (entity.hasBarrier ? FLAG_BARRIER : 0) | (overlay.aura ? FLAG_AURA : 0) | writeAbilities(entity, offset, time)
+      count++
+    }
+    if (count > 0) {
+      gl.bindTexture(gl.TEXTURE_2D, textures.atlas)
+      gl.uniform1i(uniforms.entity.u_atlas, 0)
+      gl.uniform1f(uniforms.entity.u_texel, atlasTexel)
+      gl.uniform1f(uniforms.entity.u_regen, 0.5 + 0.3 * Math.sin((time ?? 0) / 120))
+      gl.uniform1f(uniforms.entity.u_spin, ((time ?? 0) / 400) % (Math.PI * 2))
+      gl.bindBuffer(gl.ARRAY_BUFFER, resources.instances)
+      gl.bufferData(gl.ARRAY_BUFFER, instanceData.subarray(0, count * INSTANCE_FLOATS), gl.DYNAMIC_DRAW)
+      gl.bindVertexArray(resources.entityVao)
+      gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count)
+    }
+
+    // Projectiles, effect particles, the safe zone and shockwaves over them
+    drawSprites(writeAirSprites, sources, shake)
+
+    // Countdown and pause screen, drawn with Canvas2D and laid over the top
+    if (overlay.countdown !== null || overlay.paused) {
+      const key = `${width}x${height}:${overlay.countdown}:${overlay.paused}`
+      if (key !== layerKey) {
+        if (!layerCanvas || layerCanvas.width !== width || layerCanvas.height !== height) {
+          layerCanvas = createLayerCanvas(width, height)
+        }
+        const ctx = layerContext(layerCanvas)
+        ctx.clearRect(0, 0, width, height)
+        drawOverlay(ctx, width, height, overlay)
+        gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true)
+        upload(gl, textures.layer, layerCanvas)
+        layerKey = key
+      }
+      gl.bindTexture(gl.TEXTURE_2D, textures.layer)
+      gl.useProgram(programs.layer)
+      gl.uniform1i(uniforms.layer.u_layer, 0)
+      gl.bindVertexArray(resources.quadVao)
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+    }
+    gl.bindVertexArray(null)
+  }
+
+  return {
+    backend: "webgl2",
+    canvas,
+    render,
+    dispose: () => {
+      canvas.removeEventListener("webglcontextlost", onLost)
+      canvas.removeEventListener("webglcontextrestored", onRestored)
+      if (lost) return
+      const { programs, buffers, vaos, textures } = resources
+      Object.values(programs).forEach((program) => gl.deleteProgram(program))
+      buffers.forEach((buffer) => gl.deleteBuffer(buffer))
+      vaos.forEach((vao) => gl.deleteVertexArray(vao))
+      Object.values(textures).forEach((texture) => gl.deleteTexture(texture))
+    },
+  }
+}
@@ -0,0 +1,369 @@
+import { ABILITIES } from "@/lib/battle/abilities"
+import { SHOCKWAVE_RING_TICKS } from "@/lib/battle/interventions"
+import { PICKUP_KINDS, PICKUP_RADIUS } from "@/lib/battle/pickups"
+import type { Entity } from "@/lib/battle/types"
+import { PROJECTILE_TRAIL_TICKS, type ArenaScene } from "./arena-renderer"
+import { placeText } from "./effects"
+
+// Everything the WebGL2 backend draws around the fighters - pickups, zones, decoys, projectiles, shockwaves and effect
+// particles - packed as instanced sprites, so the arena never goes through a canvas-sized Canvas2D upload mid-battle.
+// Each sprite is a quad the shader paints according to its kind; the looks follow the Canvas2D renderer.
+
+// Floats per sprite: centre (2), half size (2), rotation, kind, colour (4), params (4), dash (2), atlas cell (4)
+export const SPRITE_FLOATS = 20
+const ANGLE = 4
+const KIND = 5
+const COLOR = 6
+const PARAMS = 10
+const DASH = 14
+const CELL = 16
+
+// Shapes the sprite shader knows, and what their params hold
+export const SPRITE_SQUARE = 0
+// Radius, line width, fill alpha, glow (0 or 1). Dash: on length and period. Cell: picture clipped to the circle
+export const SPRITE_RING = 1
+// Tail offset (2), line width, head radius. A white-hot core sits in the head
+export const SPRITE_STREAK = 2
+// Radius, turn. Two arcs with six sparkles spinning the other way
+export const SPRITE_SHIMMER = 3
+// Radius, start angle. A quarter of the picture in the cell, turned by the rotation
+export const SPRITE_SHARD = 4
+// Cell: the glyph in the glyph atlas, tinted by the colour (outlines stay black)
+export const SPRITE_GLYPH = 5
+// Radius. Shades everything outside the circle
+export const SPRITE_ZONE = 6
+
+// Room left around strokes for the glow standing in for the Canvas2D shadow blur
+const GLOW = 12
+
+// "#rrggbb" to 0-1 channels
+export function parseColor(color: string): [number, number, number] {
+  const value = parseInt(color.slice(1, 7), 16)
+  if (Number.isNaN(value)) return [1, 1, 1]
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255]
+}
+
+const colors = new Map<string, [number, number, number]>()
+
+function colorOf(color: string) {
+  let rgb = colors.get(color)
+  if (!rgb) {
+    rgb = parseColor(color)
+    colors.set(color, rgb)
+  }
+  return rgb
+}
+
+export function createSpriteBatch() {
+  let data = new Float32Array(256 * SPRITE_FLOATS)
+  let count = 0
+
+  // Starts a sprite and returns where its floats begin; params, dash and cell start out zero
+  const add = (
+    kind: number,
+    x: number,
+    y: number,
+    halfWidth: number,
+    halfHeight: number,
+    color: string,
+    alpha: number,
+  ) => {
+    if (data.length < (count + 1) * SPRITE_FLOATS) {
+      const grown = new Float32Array(data.length * 2)
+      grown.set(data)
+      data = grown
+    }
+    const at = count * SPRITE_FLOATS
+    data.fill(0, at, at + SPRITE_FLOATS)
+    const [r, g, b] = colorOf(color)
+    data[at] = x
+    data[at + 1] = y
+    data[at + 2] = halfWidth
+    data[at + 3] = halfHeight
+    data[at + KIND] = kind
+    data[at + COLOR] = r
+    data[at + COLOR + 1] = g
+    data[at + COLOR + 2] = b
+    data[at + COLOR + 3] = alpha
+    count++
+    return at
+  }
+
+  const set = (at: number, field: number, ...values: number[]) => {
+    for (let i = 0; i < values.length; i++) data[at + field + i] = values[i]
+  }
+
+  return {
+    get data() {
+      return data
+    },
+    get count() {
+      return count
+    },
+    clear: () => {
+      count = 0
+    },
+    add,
+    params: (at: number, ...values: number[]) => set(at, PARAMS, ...values),
+    dash: (at: number, on: number, period: number) => set(at, DASH, on, period),
+    cell: (at: number, ...cell: readonly number[]) => set(at, CELL, ...cell),
+    rotate: (at: number, angle: number) => set(at, ANGLE, angle),
+  }
+}
+
+export type SpriteBatch = ReturnType<typeof createSpriteBatch>
+
+// Glyph atlas: floating text and pickup glyphs, drawn once with Canvas2D and scaled by the shader
+
+const TEXT_FONT_SIZE = 32
+const PICKUP_FONT_SIZE = 28
+// Canvas2D draws pickup glyphs at 14px and outlines floating text with 3px whatever its size
+const PICKUP_GLYPH_SIZE = 14
+const TEXT_OUTLINE = 6
+const GLYPH_PADDING = 4
+// Damage numbers and combo counters only ever use these
+const TEXT_CHARACTERS = "0123456789 HITCOMB"
+export const GLYPH_ATLAS_WIDTH = 512
+export const GLYPH_ATLAS_HEIGHT = 256
+
+interface Glyph {
+  // Atlas cell in texture coordinates
+  cell: [number, number, number, number]
+  // Cell size and the point text is anchored to within it, in atlas pixels
+  width: number
+  height: number
+  originX: number
+  originY: number
+  advance: number
+  fontSize: number
+}
+
+export type GlyphAtlas = ReadonlyMap<string, Glyph>
+
+// Draws every glyph into ctx, which must be GLYPH_ATLAS_WIDTH by GLYPH_ATLAS_HEIGHT, and says where each one went
+export function drawGlyphAtlas(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D): GlyphAtlas {
+  const glyphs = new Map<string, Glyph>()
+  let x = 0
+  let y = 0
+  let rowHeight = 0
+  ctx.clearRect(0, 0, GLYPH_ATLAS_WIDTH, GLYPH_ATLAS_HEIGHT)
+
+  const place = (key: string, character: string, font: string, fontSize: number, outline: boolean) => {
+    ctx.font = font
+    const advance = ctx.measureText(character).width
+    const width = Math.ceil(advance) + GLYPH_PADDING * 2 + (outline ? TEXT_OUTLINE : 0)
+    const height = Math.ceil(fontSize * 1.3) + GLYPH_PADDING * 2
+    if (x + width > GLYPH_ATLAS_WIDTH) {
+      x = 0
+      y += rowHeight
+      rowHeight = 0
+    }
+    // Floating text sits on its baseline like fillText, pickup glyphs are centred on the pickup
+    const originX = outline ? GLYPH_PADDING + TEXT_OUTLINE / 2 : width / 2
+    const originY = outline ? GLYPH_PADDING + fontSize : height / 2
+    ctx.textAlign = outline ? "left" : "center"
+    ctx.textBaseline = outline ? "alphabetic" : "middle"
+    if (outline) {
+      ctx.lineWidth = TEXT_OUTLINE
+      ctx.lineJoin = "round"
+      ctx.strokeStyle = "#000000"
+      ctx.strokeText(character, x + originX, y + originY)
+    }
+    ctx.fillStyle = "#ffffff"
+    ctx.fillText(character, x + originX, y + originY)
+    glyphs.set(key, {
+      cell: [x / GLYPH_ATLAS_WIDTH, y / GLYPH_ATLAS_HEIGHT, width / GLYPH_ATLAS_WIDTH, height / GLYPH_ATLAS_HEIGHT],
+      width,
+      height,
+      originX,
+      originY,
+      advance,
+      fontSize,
+    })
+    x += width
+    rowHeight = Math.max(rowHeight, height)
+  }
+
+  for (const character of TEXT_CHARACTERS) {
+    place(character, character, `bold ${TEXT_FONT_SIZE}px Arial`, TEXT_FONT_SIZE, true)
+  }
+  for (const kind of Object.values(PICKUP_KINDS)) {
+    place(`pickup:${kind.glyph}`, kind.glyph, `bold ${PICKUP_FONT_SIZE}px monospace`, PICKUP_FONT_SIZE, false)
+  }
+  ctx.textBaseline = "alphabetic"
+  return glyphs
+}
+
+function addGlyph(batch: SpriteBatch, glyph: Glyph, x: number, y: number, scale: number, color: string, alpha: number) {
+  const halfWidth = (glyph.width * scale) / 2
+  const halfHeight = (glyph.height * scale) / 2
+  const centerX = x - glyph.originX * scale + halfWidth
+  const centerY = y - glyph.originY * scale + halfHeight
+  batch.cell(batch.add(SPRITE_GLYPH, centerX, centerY, halfWidth, halfHeight, color, alpha), ...glyph.cell)
+}
+
+// Centred on x with its baseline on y, like fillText with textAlign "center"
+function addText(
+  batch: SpriteBatch,
+  glyphs: GlyphAtlas,
+  text: string,
+  x: number,
+  y: number,
+  size: number,
+  color: string,
+  alpha: number,
+) {
+  const scale = size / TEXT_FONT_SIZE
+  let width = 0
+  for (const character of text) width += (glyphs.get(character)?.advance ?? 0) * scale
+  let pen = x - width / 2
+  for (const character of text) {
+    const glyph = glyphs.get(character)
+    if (!glyph) continue
+    if (character !== " ") addGlyph(batch, glyph, pen, y, scale, color, alpha)
+    pen += glyph.advance * scale
+  }
+}
+
+function addRing(
+  batch: SpriteBatch,
+  x: number,
+  y: number,
+  radius: number,
+  lineWidth: number,
+  color: string,
+  alpha: number,
+  fill: number,
+  glow: boolean,
+) {
+  const half = radius + lineWidth / 2 + (glow ? GLOW : 1)
+  const at = batch.add(SPRITE_RING, x, y, half, half, color, alpha)
+  batch.params(at, radius, lineWidth, fill, glow ? 1 : 0)
+  return at
+}
+
+export interface SpriteSources {
+  entities: readonly Entity[]
+  scene: ArenaScene
+  // Where each fighter's picture is in the thumbnail atlas (x, y, size)
+  cells: ReadonlyMap<string, readonly [number, number, number]>
+  glyphs: GlyphAtlas
+  // Arena size, for the safe zone's shade
+  width: number
+  height: number
+}
+
+function entityLookup(entities: readonly Entity[]) {
+  let byId: Map<string, Entity> | null = null
+  return (id: string) => {
+    byId ??= new Map(entities.map((entity) => [entity.id, entity]))
+    return byId.get(id)
+  }
+}
+
+// Picture cell as a full atlas rectangle
+function cellRect(cell: readonly [number, number, number] | undefined) {
+  return cell ? [cell[0], cell[1], cell[2], cell[2]] : []
+}
+
+// Under the fighters: pickups, frozen zones and decoys, like drawFloor
+export function writeFloorSprites(batch: SpriteBatch, { entities, scene, cells, glyphs }: SpriteSources) {
+  const entity = entityLookup(entities)
+
+  for (const pickup of scene.pickups ?? []) {
+    const { color, glyph } = PICKUP_KINDS[pickup.kind]
+    addRing(batch, pickup.x, pickup.y, PICKUP_RADIUS, 2, color, 1, 0x30 / 255, true)
+    const baked = glyphs.get(`pickup:${glyph}`)
+    if (baked) addGlyph(batch, baked, pickup.x, pickup.y, PICKUP_GLYPH_SIZE / baked.fontSize, color, 1)
+  }
+
+  for (const zone of scene.frozenZones ?? []) {
+    batch.dash(addRing(batch, zone.x, zone.y, zone.radius, 2, "#80c0ff", 1, 0.15, true), 4, 8)
+  }
+
+  for (const decoy of scene.decoys ?? []) {
+    const color = entity(decoy.ownerId)?.neonColor ?? ABILITIES.decoy.color
+    const alpha = 0.35 + 0.15 * Math.sin(decoy.expiresAt + decoy.x / 20)
+    const at = addRing(batch, decoy.x, decoy.y, decoy.radius, 2, color, alpha, 0, false)
+    batch.dash(at, 6, 10)
+    batch.cell(at, ...cellRect(cells.get(decoy.ownerId)))
+  }
+}
+
+// Over the fighters: projectiles, effect particles, the safe zone and shockwaves, like drawAir
+export function writeAirSprites(batch: SpriteBatch, { entities, scene, cells, glyphs, width, height }: SpriteSources) {
+  const entity = entityLookup(entities)
+
+  for (const projectile of scene.projectiles ?? []) {
+    const owner = projectile.kind === "bolt" ? undefined : entity(projectile.ownerId)
+    const color = owner?.neonColor ?? ABILITIES.projectile.color
+    const trail = PROJECTILE_TRAIL_TICKS[projectile.kind]
+    const tailX = -projectile.vx * trail
+    const tailY = -projectile.vy * trail
+    // Orbs pulse as they fly
+    const pulse = projectile.kind === "orb" ? 1 + 0.15 * Math.sin((projectile.x + projectile.y) / 15) : 1
+    const half = Math.hypot(tailX, tailY) + projectile.radius * 1.5 + GLOW
+    const at = batch.add(SPRITE_STREAK, projectile.x, projectile.y, half, half, color, 1)
+    batch.params(at, tailX, tailY, projectile.radius * 1.5, projectile.radius * pulse)
+  }
+
+  scene.effects?.eachParticle((particle, age) => {
+    const t = age / particle.life
+    switch (particle.kind) {
+      case "spark": {
+        const half = particle.size / 2
+        batch.add(SPRITE_SQUARE, particle.x, particle.y, half, half, particle.color, 1 - t)
+        break
+      }
+      case "shard": {
+        const half = particle.size + 1
+        const at = batch.add(SPRITE_SHARD, particle.x, particle.y, half, half, particle.color, 1 - t)
+        batch.params(at, particle.size, particle.angle)
+        batch.rotate(at, particle.spin * age)
+        batch.cell(at, ...cellRect(cells.get(particle.entityId)))
+        break
+      }
+      case "ring": {
+        const radius = particle.size * (1 + t * 1.5)
+        addRing(batch, particle.x, particle.y, radius, 4 * (1 - t) + 1, particle.color, 1 - t, 0, false)
+        break
+      }
+      // Rides along with its fighter
+      case "shimmer": {
+        const owner = entity(particle.entityId)
+        if (!owner || owner.isDestroyed) break
+        const radius = owner.radius + 6
+        const at = batch.add(SPRITE_SHIMMER, owner.x, owner.y, radius + 3, radius + 3, particle.color, 1 - t)
+        batch.params(at, radius, t * Math.PI * 4)
+        break
+      }
+      case "damage":
+      case "combo": {
+        const { y, size, alpha } = placeText(particle, t)
+        addText(batch, glyphs, particle.text, particle.x, y, size, particle.color, alpha)
+        break
+      }
+    }
+  })
+
+  const zone = scene.safeZone
+  if (zone) {
+    // Big enough to shade every corner of the arena
+    const half = Math.hypot(Math.max(zone.x, width - zone.x), Math.max(zone.y, height - zone.y))
+    batch.params(batch.add(SPRITE_ZONE, zone.x, zone.y, half, half, "#ff00ff", 1), zone.radius)
+  }
+
+  // Newest last, so stop at the first one that has faded
+  const { interventions, tick } = scene
+  if (interventions && tick !== undefined) {
+    for (let i = interventions.length - 1; i >= 0; i--) {
+      const event = interventions[i]
+      const age = tick - event.tick
+      if (age >= SHOCKWAVE_RING_TICKS) break
+      if (event.kind !== "shockwave") continue
+      const progress = (age + 1) / SHOCKWAVE_RING_TICKS
+      const radius = event.radius * progress
+      addRing(batch, event.x, event.y, radius, 6 * (1 - progress) + 1, "#ff4000", 1 - progress, 0, true)
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import type { BattleState, Entity } from "@/lib/battle/types"
+import type { StateDelta } from "./protocol"
+
+function sameValue(a: unknown, b: unknown) {
+  if (a === b) return true
+  // Effects and recent hits are small arrays, rebuilt every tick by the engine
+  return typeof a === "object" && typeof b === "object" && JSON.stringify(a) === JSON.stringify(b)
+}
+
+// What changed between two states of the same battle
+export function diffState(base: BattleState, next: BattleState): StateDelta {
+  const entities: StateDelta["entities"] = []
+
+  next.entities.forEach((entity, index) => {
+    const previous = base.entities[index]
+    const changes: Partial<Entity> = {}
+    let changed = false
+    for (const key of Object.keys(entity) as (keyof Entity)[]) {
+      if (previous && sameValue(previous[key], entity[key])) continue
+      Object.assign(changes, { [key]: entity[key] })
+      changed = true
+    }
+    if (changed) entities.push({ index, changes })
+  })
+
+  return {
+    baseTick: base.tick,
+    tick: next.tick,
+    time: next.time,
+    entities,
+    kills: next.killFeed.slice(base.killFeed.length),
+    interventions: next.interventions.slice(base.interventions.length),
+    frozenZones: next.frozenZones,
+    projectiles: next.projectiles,
+    decoys: next.decoys,
+    pickups: next.pickups,
+    safeZone: next.safeZone,
+    stats: next.stats,
+    damageEvents: next.damageEvents,
+    ended: next.ended,
+    winnerId: next.winnerId,
+    winningTeamId: next.winningTeamId,
+  }
+}
+
+// The state after a delta; unchanged entities keep their objects. Null if the delta is for another base.
+export function applyDelta(base: BattleState, delta: StateDelta): BattleState | null {
+  if (delta.baseTick !== base.tick) return null
+
+  const entities = [...base.entities]
+  for (const { index, changes } of delta.entities) {
+    entities[index] = { ...entities[index], ...changes }
+  }
+
+  return {
+    ...base,
+    tick: delta.tick,
+    time: delta.time,
+    entities,
+    killFeed: [...base.killFeed, ...delta.kills],
+    interventions: [...base.interventions, ...delta.interventions],
+    frozenZones: delta.frozenZones,
+    projectiles: delta.projectiles,
+    decoys: delta.decoys,
+    pickups: delta.pickups,
+    safeZone: delta.safeZone,
+    stats: delta.stats,
+    damageEvents: delta.damageEvents,
+    ended: delta.ended,
+    winnerId: delta.winnerId,
+    winningTeamId: delta.winningTeamId,
+  }
+}
+
+// Positions part way between two states, for smooth drawing between updates (t from 0 to 1)
+export function interpolateEntities(from: readonly Entity[], to: readonly Entity[], t: number): Entity[] {
+  return to.map((entity, i) => {
+    const previous = from[i]
+    if (!previous || previous.id !== entity.id || entity.isDestroyed) return entity
+    return { ...entity, x: previous.x + (entity.x - previous.x) * t, y: previous.y + (entity.y - previous.y) * t }
+  })
+}
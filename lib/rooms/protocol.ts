@@ -0,0 +1,259 @@
+import { z } from "zod"
+
+import { ABILITY_IDS, type AbilityId } from "@/lib/battle/abilities"
+import { interventionEventSchema, type InterventionEvent } from "@/lib/battle/interventions"
+import { PICKUP_KINDS, type PickupKind } from "@/lib/battle/pickups"
+import type { PredictionMarket } from "@/lib/battle/predictions"
+import { PROJECTILE_KINDS, type ProjectileKind } from "@/lib/battle/projectiles"
+import { battleConfigSchema } from "@/lib/battle/replay"
+import type {
+  BattleConfig,
+  BattleState,
+  Decoy,
+  Entity,
+  FrozenZone,
+  KillEvent,
+  Pickup,
+  Projectile,
+  SafeZone,
+} from "@/lib/battle/types"
+
+// Messages exchanged in a battle room. The host runs the only simulation and streams it;
+// spectators announce themselves, and everyone can chat.
+
+// The host's game state, minus its own replays which are not shared
+export type RoomStatus = "PRE_BATTLE" | "PREDICTING" | "COUNTDOWN" | "BATTLE" | "PAUSED" | "ENDED"
+
+export interface RoomPhase {
+  status: RoomStatus
+  // Seconds left in the prediction round or the countdown
+  countdown: number
+  // While predicting - everyone bets against the host's odds
+  market?: PredictionMarket | null
+}
+
+export interface RoomFighter {
+  id: string
+  name: string
+  // Thumbnail data URL - object URLs don't work outside the host's tab
+  src: string
+}
+
+// Everything changed since the state at baseTick, entities by their index in the entity list
+export interface StateDelta {
+  baseTick: number
+  tick: number
+  time: number
+  entities: { index: number; changes: Partial<Entity> }[]
+  // Appended to the kill feed
+  kills: KillEvent[]
+  // Appended to the intervention log
+  interventions: InterventionEvent[]
+  frozenZones: FrozenZone[]
+  projectiles: Projectile[]
+  decoys: Decoy[]
+  pickups: Pickup[]
+  safeZone: SafeZone | null
+  stats: BattleState["stats"]
+  damageEvents: BattleState["damageEvents"]
+  ended: boolean
+  winnerId: string | null
+  winningTeamId: string | null
+}
+
+export interface ChatMessage {
+  id: string
+  peerId: string
+  author: string
+  // Reactions are a single emoji from ROOM_REACTIONS
+  kind: "text" | "reaction"
+  text: string
+  // Epoch milliseconds
+  at: number
+}
+
+export type RoomMessage =
+  // Spectator -> host
+  | { type: "join"; peerId: string }
+  | { type: "heartbeat"; peerId: string }
+  | { type: "leave"; peerId: string }
+  // Host -> spectators, signed with the host's peer id so spectators can ignore anyone else sending them
+  | {
+      type: "snapshot"
+      peerId: string
+      config: BattleConfig | null
+      fighters: RoomFighter[]
+      phase: RoomPhase
+      state: BattleState | null
+    }
+  | { type: "delta"; peerId: string; delta: StateDelta }
+  | { type: "phase"; peerId: string; phase: RoomPhase }
+  | { type: "presence"; peerId: string; spectators: number }
+  | { type: "closed"; peerId: string }
+  // Anyone
+  | { type: "chat"; message: ChatMessage }
+
+// Messages only the room's host may send
+export type HostMessage = Extract<RoomMessage, { type: "snapshot" | "delta" | "phase" | "presence" | "closed" }>
+
+const HOST_MESSAGE_TYPES: RoomMessage["type"][] = ["snapshot", "delta", "phase", "presence", "closed"]
+
+export function isHostMessage(message: RoomMessage): message is HostMessage {
+  return HOST_MESSAGE_TYPES.includes(message.type)
+}
+
+export const ROOM_REACTIONS = ["🔥", "💀", "😂", "👏", "😱", "🏆"]
+
+export const MAX_CHAT_LENGTH = 200
+
+// Incoming frames come from any peer in the room, so they are checked against these before anything acts on them
+
+const pickupKinds = Object.keys(PICKUP_KINDS) as [PickupKind, ...PickupKind[]]
+const projectileKinds = Object.keys(PROJECTILE_KINDS) as [ProjectileKind, ...ProjectileKind[]]
+const abilityIds = ABILITY_IDS as [AbilityId, ...AbilityId[]]
+
+const circleSchema = z.object({ x: z.number(), y: z.number(), radius: z.number() })
+
+const entitySchema = z.object({
+  id: z.string(),
+  teamId: z.string().nullable(),
+  x: z.number(),
+  y: z.number(),
+  vx: z.number(),
+  vy: z.number(),
+  radius: z.number(),
+  health: z.number(),
+  maxHealth: z.number(),
+  armor: z.number(),
+  damageMultiplier: z.number(),
+  maxSpeed: z.number(),
+  effects: z.array(z.object({ kind: z.enum(pickupKinds).exclude(["heal"]), expiresAt: z.number() })),
+  hasBarrier: z.boolean(),
+  barrierUsed: z.boolean(),
+  abilities: z.array(
+    z.object({
+      id: z.enum(abilityIds),
+      cooldownMs: z.number(),
+      readyAt: z.number(),
+      activeUntil: z.number(),
+      usedAt: z.number().nullable(),
+    }),
+  ),
+  weapon: z.enum(projectileKinds).exclude(["bolt"]).nullable(),
+  nextShotAt: z.number(),
+  launchedUntil: z.number(),
+  lastDamageTime: z.number(),
+  comboCount: z.number(),
+  totalDamage: z.number(),
+  isDestroyed: z.boolean(),
+  eliminatedBy: z.string().nullable(),
+  kills: z.number(),
+  assists: z.number(),
+  recentHits: z.array(z.object({ attackerId: z.string(), time: z.number() })),
+  neonColor: z.string(),
+})
+
+const killEventSchema = z.object({
+  tick: z.number(),
+  victimId: z.string(),
+  killerId: z.string().nullable(),
+  assistIds: z.array(z.string()),
+})
+
+// Everything in BattleState but its entities and logs, which deltas carry their own way
+const arenaStateSchema = z.object({
+  tick: z.number().int().nonnegative(),
+  time: z.number(),
+  pickups: z.array(z.object({ id: z.number(), kind: z.enum(pickupKinds), x: z.number(), y: z.number() })),
+  safeZone: circleSchema.nullable(),
+  damageEvents: z.array(z.object({ attackerId: z.string(), victimId: z.string(), amount: z.number() })),
+  frozenZones: z.array(circleSchema.extend({ expiresAt: z.number() })),
+  projectiles: z.array(
+    circleSchema.extend({
+      id: z.string(),
+      kind: z.enum(projectileKinds),
+      ownerId: z.string(),
+      targetId: z.string().nullable(),
+      vx: z.number(),
+      vy: z.number(),
+      damage: z.number(),
+      expiresAt: z.number(),
+    }),
+  ),
+  decoys: z.array(circleSchema.extend({ ownerId: z.string(), vx: z.number(), vy: z.number(), expiresAt: z.number() })),
+  stats: z.object({ totalCollisions: z.number(), entitiesDestroyed: z.number(), battleTime: z.number() }),
+  ended: z.boolean(),
+  winnerId: z.string().nullable(),
+  winningTeamId: z.string().nullable(),
+})
+
+const battleStateSchema = arenaStateSchema.extend({
+  entities: z.array(entitySchema),
+  killFeed: z.array(killEventSchema),
+  interventions: z.array(interventionEventSchema),
+})
+
+const stateDeltaSchema = arenaStateSchema.omit({ tick: true }).extend({
+  baseTick: z.number().int().nonnegative(),
+  tick: z.number().int().nonnegative(),
+  entities: z.array(z.object({ index: z.number().int().nonnegative(), changes: entitySchema.partial() })),
+  kills: z.array(killEventSchema),
+  interventions: z.array(interventionEventSchema),
+})
+
+const roomPhaseSchema = z.object({
+  status: z.enum(["PRE_BATTLE", "PREDICTING", "COUNTDOWN", "BATTLE", "PAUSED", "ENDED"]),
+  countdown: z.number(),
+  market: z
+    .object({
+      entrants: z.array(
+        z.object({
+          id: z.string(),
+          winChance: z.number(),
+          top3Chance: z.number(),
+          winOdds: z.number(),
+          top3Odds: z.number(),
+        }),
+      ),
+    })
+    .nullable()
+    .optional(),
+})
+
+const peerIdSchema = z.string().min(1).max(64)
+
+const roomMessageSchema: z.ZodType<RoomMessage, z.ZodTypeDef, unknown> = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join"), peerId: peerIdSchema }),
+  z.object({ type: z.literal("heartbeat"), peerId: peerIdSchema }),
+  z.object({ type: z.literal("leave"), peerId: peerIdSchema }),
+  z.object({
+    type: z.literal("snapshot"),
+    peerId: peerIdSchema,
+    config: battleConfigSchema.nullable(),
+    // Spectators load these as images, so only the host's thumbnail data URLs get through
+    fighters: z.array(z.object({ id: z.string(), name: z.string(), src: z.string().startsWith("data:image/") })),
+    phase: roomPhaseSchema,
+    state: battleStateSchema.nullable(),
+  }),
+  z.object({ type: z.literal("delta"), peerId: peerIdSchema, delta: stateDeltaSchema }),
+  z.object({ type: z.literal("phase"), peerId: peerIdSchema, phase: roomPhaseSchema }),
+  z.object({ type: z.literal("presence"), peerId: peerIdSchema, spectators: z.number().int().nonnegative() }),
+  z.object({ type: z.literal("closed"), peerId: peerIdSchema }),
+  z.object({
+    type: z.literal("chat"),
+    message: z.object({
+      id: z.string(),
+      peerId: peerIdSchema,
+      author: z.string().max(64),
+      kind: z.enum(["text", "reaction"]),
+      text: z.string().max(MAX_CHAT_LENGTH),
+      at: z.number(),
+    }),
+  }),
+])
+
+// A room message, or null for anything malformed
+export function parseRoomMessage(input: unknown): RoomMessage | null {
+  const result = roomMessageSchema.safeParse(input)
+  return result.success ? result.data : null
+}
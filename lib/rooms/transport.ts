@@ -0,0 +1,72 @@
+import { parseRoomMessage, type RoomMessage } from "./protocol"
+
+// A room is a broadcast bus: every message reaches every other member, never the sender.
+// With NEXT_PUBLIC_ROOM_SERVER_URL set, members meet on a WebSocket relay at `${url}/${roomId}` that forwards each
+// message to the room's other sockets. Without it, a BroadcastChannel stands in - rooms then span the tabs of one browser.
+
+export interface RoomTransport {
+  send: (message: RoomMessage) => void
+  close: () => void
+}
+
+const CHANNEL_PREFIX = "combat-arena:room:"
+
+export function createRoomId() {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+export function roomServerUrl() {
+  return process.env.NEXT_PUBLIC_ROOM_SERVER_URL || null
+}
+
+function connectBroadcastChannel(roomId: string, onMessage: (message: RoomMessage) => void): RoomTransport {
+  const channel = new BroadcastChannel(CHANNEL_PREFIX + roomId)
+  channel.onmessage = (event: MessageEvent<unknown>) => {
+    const message = parseRoomMessage(event.data)
+    if (message) onMessage(message)
+  }
+
+  return {
+    send: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  }
+}
+
+function connectWebSocket(url: string, roomId: string, onMessage: (message: RoomMessage) => void): RoomTransport {
+  const socket = new WebSocket(`${url.replace(/\/$/, "")}/${encodeURIComponent(roomId)}`)
+  // Messages sent before the socket opens go out once it does
+  let queue: string[] | null = []
+
+  socket.onopen = () => {
+    for (const data of queue ?? []) socket.send(data)
+    queue = null
+  }
+  socket.onmessage = (event: MessageEvent<string>) => {
+    let data: unknown
+    try {
+      data = JSON.parse(event.data)
+    } catch {
+      return
+    }
+    // Ignore anything from the relay that isn't a room message
+    const message = parseRoomMessage(data)
+    if (message) onMessage(message)
+  }
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message)
+      if (queue) queue.push(data)
+      else if (socket.readyState === WebSocket.OPEN) socket.send(data)
+    },
+    close: () => {
+      queue = null
+      socket.close()
+    },
+  }
+}
+
+export function connectRoom(roomId: string, onMessage: (message: RoomMessage) => void): RoomTransport {
+  const url = roomServerUrl()
+  return url ? connectWebSocket(url, roomId, onMessage) : connectBroadcastChannel(roomId, onMessage)
+}
@@ -0,0 +1,130 @@
+import { DEFAULT_RATING, eloChanges, sidePlacements } from "@/lib/battle/elo"
+import { sideOf } from "@/lib/battle/teams"
+import type { BattleState } from "@/lib/battle/types"
+import { getAll, putAll, clearStore } from "./indexed-db"
+
+// Only the most recent battles are kept per fighter
+export const HISTORY_LENGTH = 20
+
+export interface BattleResultEntry {
+  // Epoch milliseconds
+  at: number
+  placement: number
+  entrants: number
+  won: boolean
+  kills: number
+  damage: number
+  ratingChange: number
+}
+
+// A fighter's career across battles, keyed by a hash of its image so re-uploads keep their record
+export interface FighterRecord {
+  fighterId: string
+  name: string
+  thumbnail: string
+  rating: number
+  battles: number
+  wins: number
+  losses: number
+  kills: number
+  totalDamage: number
+  bestPlacement: number | null
+  history: BattleResultEntry[]
+}
+
+// Who each entity in a battle was
+export interface FighterIdentity {
+  fighterId: string
+  name: string
+  thumbnail: string
+}
+
+function newRecord({ fighterId, name, thumbnail }: FighterIdentity): FighterRecord {
+  return {
+    fighterId,
+    name,
+    thumbnail,
+    rating: DEFAULT_RATING,
+    battles: 0,
+    wins: 0,
+    losses: 0,
+    kills: 0,
+    totalDamage: 0,
+    bestPlacement: null,
+    history: [],
+  }
+}
+
+// Fold one battle into the records. Returns only the records that changed.
+// Battles that ran out of time without a single side left count as losses for everyone.
+export function applyBattleResult(
+  records: ReadonlyMap<string, FighterRecord>,
+  state: Pick<BattleState, "entities" | "killFeed" | "ended">,
+  fighters: ReadonlyMap<string, FighterIdentity>,
+  at = Date.now(),
+): FighterRecord[] {
+  const placements = sidePlacements(state)
+
+  // The same image entered twice only counts once, with its best finish
+  const entrants = new Map<string, (typeof state.entities)[number]>()
+  for (const entity of [...state.entities].sort((a, b) => placements.get(a.id)! - placements.get(b.id)!)) {
+    const fighter = fighters.get(entity.id)
+    if (fighter && !entrants.has(fighter.fighterId)) entrants.set(fighter.fighterId, entity)
+  }
+
+  const ratingOf = (fighterId: string) => records.get(fighterId)?.rating ?? DEFAULT_RATING
+  const changes = eloChanges(
+    [...entrants].map(([fighterId, entity]) => ({
+      id: fighterId,
+      rating: ratingOf(fighterId),
+      placement: placements.get(entity.id)!,
+      side: sideOf(entity),
+    })),
+  )
+
+  return [...entrants].map(([fighterId, entity]) => {
+    const fighter = fighters.get(entity.id)!
+    const previous = records.get(fighterId) ?? newRecord(fighter)
+    const placement = placements.get(entity.id)!
+    const won = state.ended && placement === 1
+    const ratingChange = changes.get(fighterId) ?? 0
+
+    return {
+      ...previous,
+      // Follow renames and re-crops of the image
+      name: fighter.name,
+      thumbnail: fighter.thumbnail,
+      rating: previous.rating + ratingChange,
+      battles: previous.battles + 1,
+      wins: previous.wins + Number(won),
+      losses: previous.losses + Number(!won),
+      kills: previous.kills + entity.kills,
+      totalDamage: previous.totalDamage + Math.round(entity.totalDamage),
+      bestPlacement: Math.min(previous.bestPlacement ?? Infinity, placement),
+      history: [
+        ...previous.history,
+        {
+          at,
+          placement,
+          entrants: entrants.size,
+          won,
+          kills: entity.kills,
+          damage: Math.round(entity.totalDamage),
+          ratingChange,
+        },
+      ].slice(-HISTORY_LENGTH),
+    }
+  })
+}
+
+export function loadFighterRecords() {
+  return getAll<FighterRecord>("fighters")
+}
+
+export function saveFighterRecords(records: FighterRecord[]) {
+  return putAll("fighters", records)
+}
+
+export function clearFighterRecords() {
+  return clearStore("fighters")
+}
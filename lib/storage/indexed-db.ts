@@ -0,0 +1,76 @@
+// Small promise wrapper around the arena's IndexedDB database
+
+const DB_NAME = "combat-arena"
+const DB_VERSION = 1
+
+export type StoreName = "roster" | "fighters"
+
+const KEY_PATHS: Record<StoreName, string> = {
+  // Uploaded images with their settings, keyed by roster entry id
+  roster: "id",
+  // Career records, keyed by a hash of the image content
+  fighters: "fighterId",
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function isIndexedDbAvailable() {
+  return typeof indexedDB !== "undefined"
+}
+
+function openDatabase() {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      for (const [name, keyPath] of Object.entries(KEY_PATHS)) {
+        if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name, { keyPath })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      // Let a later call try again
+      databasePromise = null
+      reject(request.error)
+    }
+  })
+  return databasePromise
+}
+
+async function transaction(store: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => void) {
+  const db = await openDatabase()
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, mode)
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+    run(tx.objectStore(store))
+  })
+}
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase()
+  return requestToPromise(db.transaction(store, "readonly").objectStore(store).getAll() as IDBRequest<T[]>)
+}
+
+export function putAll<T>(store: StoreName, values: T[]) {
+  return transaction(store, "readwrite", (objectStore) => {
+    for (const value of values) objectStore.put(value)
+  })
+}
+
+export function removeAll(store: StoreName, keys: string[]) {
+  return transaction(store, "readwrite", (objectStore) => {
+    for (const key of keys) objectStore.delete(key)
+  })
+}
+
+export function clearStore(store: StoreName) {
+  return transaction(store, "readwrite", (objectStore) => objectStore.clear())
+}
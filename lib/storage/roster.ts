@@ -0,0 +1,73 @@
+import type { BehaviourId } from "@/lib/battle/behaviours"
+import type { StatProfile } from "@/lib/battle/profiles"
+import { getAll, putAll, removeAll } from "./indexed-db"
+
+// The part of an uploaded image that survives a refresh - object URLs are recreated from the file
+export interface RosterImage {
+  id: string
+  // SHA-256 of the image bytes, the key for its career record
+  fighterId: string
+  // Upload order, rosters are restored sorted by it
+  order: number
+  file: File
+  thumbnail: string
+  // Display name, defaults to the file name
+  name: string
+  // Team battles only, null fights alone
+  teamId: string | null
+  // Null keeps the rule set's health and a random size and speed
+  stats: StatProfile | null
+  // Null flies ballistically
+  behaviour: BehaviourId | null
+  // Source of the custom strategy, kept when switching to a built-in behaviour
+  strategy: string | null
+}
+
+export async function hashImage(file: File) {
+  // SubtleCrypto is missing outside secure contexts, fall back to something stable per file
+  if (!globalThis.crypto?.subtle) return `${file.name}-${file.size}-${file.lastModified}`
+
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export async function loadRoster() {
+  const images = await getAll<RosterImage>("roster")
+  return images.sort((a, b) => a.order - b.order)
+}
+
+// Fields that go into the database, keyed by every RosterImage field so a new one can't be left out of the copy
+const STORED: Record<keyof RosterImage, true> = {
+  id: true,
+  fighterId: true,
+  order: true,
+  file: true,
+  thumbnail: true,
+  name: true,
+  teamId: true,
+  stats: true,
+  behaviour: true,
+  strategy: true,
+}
+const STORED_FIELDS = Object.keys(STORED) as (keyof RosterImage)[]
+
+function storedCopy(image: RosterImage) {
+  const copy: Partial<Record<keyof RosterImage, unknown>> = {}
+  for (const field of STORED_FIELDS) copy[field] = image[field]
+  return copy as RosterImage
+}
+
+// Strip whatever else the page keeps on an image (object URLs, flags) before storing it
+export function saveRosterImages(images: RosterImage[]) {
+  return putAll("roster", images.map(storedCopy))
+}
+
+// Whether saving would change the stored copy. Fields are compared by reference: edits always replace them, while
+// a restored image keeps the very file and stats it was read with.
+export function isRosterImageChanged(saved: RosterImage | undefined, image: RosterImage) {
+  return !saved || STORED_FIELDS.some((field) => saved[field] !== image[field])
+}
+
+export function removeRosterImages(ids: string[]) {
+  return removeAll("roster", ids)
+}
@@ -0,0 +1,190 @@
+import { TICK_MS, TICK_RATE } from "@/lib/battle/engine"
+import { resolveMap } from "@/lib/battle/maps"
+import { createReplayPlayer, type BattleReplay } from "@/lib/battle/replay"
+import { findTeam } from "@/lib/battle/teams"
+import { drawArena, type ArenaOverlay, type RenderContext } from "@/lib/render/arena-renderer"
+import { createEffectsRig } from "@/lib/render/effects"
+import { createGifEncoder } from "./gif-encoder"
+
+export type VideoFormat = "webm" | "gif"
+
+export interface VideoExportOptions {
+  format: VideoFormat
+  // Output width in pixels, the height follows the arena's aspect ratio
+  width: number
+  fps: number
+  // Only export the final N seconds, null for the whole battle
+  lastSeconds: number | null
+  // Hold a victory card at the end of the clip
+  includeVictory: boolean
+  // Sparks, shatters and damage numbers, at full quality and without screen shake
+  effects: boolean
+}
+
+export interface VideoExportProgress {
+  onProgress?: (fraction: number) => void
+  signal?: AbortSignal
+}
+
+export const VIDEO_RESOLUTIONS = [
+  { label: "480p", width: 854 },
+  { label: "720p", width: 1280 },
+  { label: "1080p", width: 1920 },
+]
+export const VIDEO_FPS = [15, 24, 30]
+const VICTORY_HOLD_SECONDS = 2
+const LIVE_OVERLAY: ArenaOverlay = { aura: true, countdown: null, paused: false }
+
+// MediaRecorder with canvas capture - missing in some browsers (and all workers)
+export function supportsWebm() {
+  return (
+    typeof MediaRecorder !== "undefined" &&
+    typeof HTMLCanvasElement !== "undefined" &&
+    "captureStream" in HTMLCanvasElement.prototype &&
+    MediaRecorder.isTypeSupported("video/webm")
+  )
+}
+
+function drawVictoryCard(
+  ctx: RenderContext,
+  width: number,
+  height: number,
+  victory: { title: string; name: string; color: string; image: CanvasImageSource | undefined },
+) {
+  ctx.fillStyle = "rgba(0, 0, 0, 0.75)"
+  ctx.fillRect(0, 0, width, height)
+  ctx.textAlign = "center"
+
+  const size = Math.min(width, height)
+  ctx.fillStyle = victory.color
+  ctx.font = `bold ${Math.round(size * 0.1)}px Arial`
+  ctx.fillText(victory.title, width / 2, height * 0.3)
+
+  const radius = size * 0.12
+  if (victory.image) {
+    ctx.save()
+    ctx.beginPath()
+    ctx.arc(width / 2, height * 0.5, radius, 0, Math.PI * 2)
+    ctx.clip()
+    ctx.drawImage(victory.image, width / 2 - radius, height * 0.5 - radius, radius * 2, radius * 2)
+    ctx.restore()
+  }
+
+  ctx.fillStyle = "#fff"
+  ctx.font = `${Math.round(size * 0.05)}px Arial`
+  ctx.fillText(victory.name, width / 2, height * 0.5 + radius + size * 0.08)
+}
+
+const nextTick = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Re-run a replay offscreen at a fixed frame rate and encode it as WebM or GIF
+export async function exportBattleVideo(
+  replay: BattleReplay,
+  images: ReadonlyMap<string, CanvasImageSource>,
+  options: VideoExportOptions,
+  { onProgress, signal }: VideoExportProgress = {},
+): Promise<Blob> {
+  const { arena } = replay.config
+  const scale = options.width / arena.width
+  // Video codecs want even dimensions
+  const width = Math.round(options.width / 2) * 2
+  const height = Math.round((arena.height * scale) / 2) * 2
+
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d", { willReadFrequently: options.format === "gif" })!
+
+  const player = createReplayPlayer(replay)
+  const map = replay.config.map ? resolveMap(replay.config.map, arena) : null
+  const startTick = options.lastSeconds === null ? 0 : Math.max(0, replay.ticks - options.lastSeconds * TICK_RATE)
+  player.seek(startTick)
+
+  const ticksPerFrame = TICK_RATE / options.fps
+  const battleFrames = Math.max(1, Math.ceil((replay.ticks - startTick) / ticksPerFrame))
+  const holdFrames = options.includeVictory && replay.winnerId ? VICTORY_HOLD_SECONDS * options.fps : 0
+  const totalFrames = battleFrames + holdFrames
+
+  const winner = player.state.entities.find((entity) => entity.id === replay.winnerId)
+  const team = findTeam(winner?.teamId)
+  const victory = {
+    title: team ? "TEAM VICTORY!" : "VICTORY!",
+    name: team?.name ?? replay.images.find((image) => image.id === replay.winnerId)?.name ?? "Champion",
+    color: team?.color ?? "#facc15",
+    image: replay.winnerId ? images.get(replay.winnerId) : undefined,
+  }
+
+  // Timed by the clip rather than the wall clock, so effects play out the same however slow the export runs
+  const effects = options.effects ? createEffectsRig({ quality: "high", screenShake: false }) : null
+  effects?.reset(replay.config.seed)
+
+  const drawFrame = (frame: number) => {
+    if (frame < battleFrames) {
+      // Land exactly on the final tick so the clip ends on the finishing blow
+      const target = Math.min(replay.ticks, Math.round(startTick + frame * ticksPerFrame))
+      while (player.state.tick < target) {
+        if (!player.step()) break
+      }
+    }
+
+    effects?.update(player.state.entities, startTick * TICK_MS + (frame * 1000) / options.fps, player.state.tick)
+    ctx.setTransform(width / arena.width, 0, 0, height / arena.height, 0, 0)
+    drawArena(ctx, arena.width, arena.height, player.state.entities, images, LIVE_OVERLAY, {
+      pickups: player.state.pickups,
+      map,
+      safeZone: player.state.safeZone,
+      frozenZones: player.state.frozenZones,
+      projectiles: player.state.projectiles,
+      decoys: player.state.decoys,
+      interventions: player.state.interventions,
+      tick: player.state.tick,
+      effects: effects ?? undefined,
+    })
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    if (frame >= battleFrames) drawVictoryCard(ctx, width, height, victory)
+  }
+
+  if (options.format === "gif") {
+    const encoder = createGifEncoder(width, height)
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (signal?.aborted) throw new DOMException("Export cancelled", "AbortError")
+      drawFrame(frame)
+      encoder.addFrame(ctx.getImageData(0, 0, width, height).data, 1000 / options.fps)
+      onProgress?.((frame + 1) / totalFrames)
+      // Keep the page responsive between frames
+      if (frame % 5 === 0) await nextTick(0)
+    }
+    return new Blob([encoder.finish()], { type: "image/gif" })
+  }
+
+  // MediaRecorder timestamps frames by wall clock, so frames are drawn in real time
+  const stream = canvas.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+  const mimeType = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((type) =>
+    MediaRecorder.isTypeSupported(type),
+  )
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: width * height * options.fps * 0.15 })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+  const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()))
+
+  recorder.start()
+  try {
+    const frameMs = 1000 / options.fps
+    const started = performance.now()
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (signal?.aborted) throw new DOMException("Export cancelled", "AbortError")
+      drawFrame(frame)
+      track.requestFrame()
+      onProgress?.((frame + 1) / totalFrames)
+      await nextTick(Math.max(0, started + (frame + 1) * frameMs - performance.now()))
+    }
+  } finally {
+    recorder.stop()
+    track.stop()
+  }
+  await stopped
+  return new Blob(chunks, { type: "video/webm" })
+}
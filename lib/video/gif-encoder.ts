@@ -0,0 +1,181 @@
+// Minimal animated GIF89a encoder with a fixed 6×7×6 colour cube palette.
+// Good enough for neon-on-black arena footage without pulling in a quantizer.
+
+const RED_LEVELS = 6
+const GREEN_LEVELS = 7
+const BLUE_LEVELS = 6
+const MIN_CODE_SIZE = 8
+const MAX_CODES = 4096
+
+function buildPalette() {
+  const palette = new Uint8Array(256 * 3)
+  let i = 0
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        palette[i++] = Math.round((r * 255) / (RED_LEVELS - 1))
+        palette[i++] = Math.round((g * 255) / (GREEN_LEVELS - 1))
+        palette[i++] = Math.round((b * 255) / (BLUE_LEVELS - 1))
+      }
+    }
+  }
+  // The remaining entries stay black, the table must hold a power of two
+  return palette
+}
+
+// Growable byte buffer
+function createByteWriter() {
+  let bytes = new Uint8Array(1 << 16)
+  let length = 0
+
+  const reserve = (extra: number) => {
+    if (length + extra <= bytes.length) return
+    let size = bytes.length * 2
+    while (size < length + extra) size *= 2
+    const next = new Uint8Array(size)
+    next.set(bytes.subarray(0, length))
+    bytes = next
+  }
+
+  return {
+    byte(value: number) {
+      reserve(1)
+      bytes[length++] = value
+    },
+    short(value: number) {
+      reserve(2)
+      bytes[length++] = value & 0xff
+      bytes[length++] = (value >> 8) & 0xff
+    },
+    bytes(values: ArrayLike<number>) {
+      reserve(values.length)
+      bytes.set(values, length)
+      length += values.length
+    },
+    text(value: string) {
+      for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i))
+    },
+    result: () => bytes.slice(0, length),
+  }
+}
+
+type ByteWriter = ReturnType<typeof createByteWriter>
+
+// LZW-compress palette indices into 255-byte data sub-blocks
+function writeImageData(out: ByteWriter, indices: Uint8Array) {
+  const clearCode = 1 << MIN_CODE_SIZE
+  const endCode = clearCode + 1
+  let codeSize = MIN_CODE_SIZE + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+
+  const block: number[] = []
+  let bitBuffer = 0
+  let bitCount = 0
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+      if (block.length === 255) {
+        out.byte(255)
+        out.bytes(block)
+        block.length = 0
+      }
+    }
+  }
+
+  out.byte(MIN_CODE_SIZE)
+  emit(clearCode)
+
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const pixel = indices[i]
+    const key = (prefix << 8) | pixel
+    const code = table.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode === MAX_CODES) {
+      // Table full, start over
+      emit(clearCode)
+      codeSize = MIN_CODE_SIZE + 1
+      nextCode = endCode + 1
+      table = new Map()
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    prefix = pixel
+  }
+
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) block.push(bitBuffer & 0xff)
+  if (block.length > 0) {
+    out.byte(block.length)
+    out.bytes(block)
+  }
+  out.byte(0)
+}
+
+export interface GifEncoder {
+  // RGBA pixels of exactly width × height
+  addFrame: (rgba: Uint8ClampedArray, delayMs: number) => void
+  finish: () => Uint8Array
+}
+
+export function createGifEncoder(width: number, height: number): GifEncoder {
+  const out = createByteWriter()
+  const indices = new Uint8Array(width * height)
+
+  // Header, logical screen with a 256-entry global colour table
+  out.text("GIF89a")
+  out.short(width)
+  out.short(height)
+  out.byte(0xf7)
+  out.byte(0)
+  out.byte(0)
+  out.bytes(buildPalette())
+
+  // Loop forever
+  out.bytes([0x21, 0xff, 0x0b])
+  out.text("NETSCAPE2.0")
+  out.bytes([0x03, 0x01, 0x00, 0x00, 0x00])
+
+  const addFrame = (rgba: Uint8ClampedArray, delayMs: number) => {
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      const r = Math.round((rgba[p] * (RED_LEVELS - 1)) / 255)
+      const g = Math.round((rgba[p + 1] * (GREEN_LEVELS - 1)) / 255)
+      const b = Math.round((rgba[p + 2] * (BLUE_LEVELS - 1)) / 255)
+      indices[i] = (r * GREEN_LEVELS + g) * BLUE_LEVELS + b
+    }
+
+    // Graphic control extension - delay is in hundredths of a second
+    out.bytes([0x21, 0xf9, 0x04, 0x00])
+    out.short(Math.max(2, Math.round(delayMs / 10)))
+    out.bytes([0x00, 0x00])
+
+    // Full-frame image descriptor, no local colour table
+    out.byte(0x2c)
+    out.short(0)
+    out.short(0)
+    out.short(width)
+    out.short(height)
+    out.byte(0)
+    writeImageData(out, indices)
+  }
+
+  const finish = () => {
+    out.byte(0x3b)
+    return out.result()
+  }
+
+  return { addFrame, finish }
+}